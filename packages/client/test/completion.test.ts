@@ -103,6 +103,7 @@ suite("Should provide completions", () => {
       { label: "hola.jinja2", kind: "File" },
       { label: "lib.jinja", kind: "File" },
       { label: "somewhere", kind: "Folder" },
+      { label: "symbols", kind: "Folder" },
     ])
 
     expect(
@@ -0,0 +1,76 @@
+import { expect } from "expect"
+import * as vscode from "vscode"
+import { activate, getDocUri, rangeToJson } from "./helper"
+
+suite("Should highlight variables", () => {
+  const pageUri = getDocUri("symbols/page.jinja")
+  const loopsUri = getDocUri("symbols/loops.jinja")
+
+  test("Separates assignments from uses", async () => {
+    const item = [
+      highlight(5, 9, 4, vscode.DocumentHighlightKind.Write),
+      highlight(6, 19, 4, vscode.DocumentHighlightKind.Read),
+      highlight(6, 49, 4, vscode.DocumentHighlightKind.Read),
+    ]
+    expect(await getHighlights(pageUri, new vscode.Position(5, 10))).toEqual(
+      item,
+    )
+    expect(await getHighlights(pageUri, new vscode.Position(6, 20))).toEqual(
+      item,
+    )
+  })
+
+  test("Separates shadowed loop variables", async () => {
+    const outer = [
+      highlight(0, 7, 1, vscode.DocumentHighlightKind.Write),
+      highlight(1, 5, 1, vscode.DocumentHighlightKind.Read),
+      highlight(2, 14, 1, vscode.DocumentHighlightKind.Read),
+      highlight(3, 5, 1, vscode.DocumentHighlightKind.Read),
+    ]
+    const inner = [
+      highlight(2, 9, 1, vscode.DocumentHighlightKind.Write),
+      highlight(2, 30, 1, vscode.DocumentHighlightKind.Read),
+    ]
+    expect(await getHighlights(loopsUri, new vscode.Position(1, 5))).toEqual(
+      outer,
+    )
+    expect(await getHighlights(loopsUri, new vscode.Position(2, 30))).toEqual(
+      inner,
+    )
+  })
+})
+
+/**
+ * A highlight of a name on a single line.
+ */
+const highlight = (
+  line: number,
+  character: number,
+  length: number,
+  kind: vscode.DocumentHighlightKind,
+) => ({
+  range: rangeToJson(
+    new vscode.Range(line, character, line, character + length),
+  ),
+  kind,
+})
+
+const getHighlights = async (uri: vscode.Uri, position: vscode.Position) => {
+  await activate(uri)
+  const highlights: vscode.DocumentHighlight[] =
+    await vscode.commands.executeCommand(
+      "vscode.executeDocumentHighlights",
+      uri,
+      position,
+    )
+  return highlights
+    .map((highlight) => ({
+      range: rangeToJson(highlight.range),
+      kind: highlight.kind,
+    }))
+    .sort(
+      (a, b) =>
+        a.range[0].line - b.range[0].line ||
+        a.range[0].character - b.range[0].character,
+    )
+}
@@ -0,0 +1,112 @@
+import { expect } from "expect"
+import * as vscode from "vscode"
+import { activate, getDocUri, rangeToJson } from "./helper"
+
+suite("Should format documents", () => {
+  const pageUri = getDocUri("formatting/page.jinja")
+  const options = { tabSize: 2, insertSpaces: true }
+
+  test("Formats the tags of documents", async () => {
+    await activate(pageUri)
+    const edits: vscode.TextEdit[] = await vscode.commands.executeCommand(
+      "vscode.executeFormatDocumentProvider",
+      pageUri,
+      options,
+    )
+    expect(editsToJson(edits)).toEqual([
+      edit(2, 0, 2, 22, "{% for item in items %}"),
+      edit(3, 0, 3, 0, "  "),
+      edit(3, 0, 3, 13, "{% if item > 1 %}"),
+      edit(4, 6, 4, 20, "{{ item | upper }}"),
+      edit(5, 0, 5, 0, "  "),
+      edit(5, 0, 5, 9, "{% endif %}"),
+      edit(6, 0, 6, 10, "{% endfor %}"),
+    ])
+  })
+
+  test("Formats the tags in ranges", async () => {
+    await activate(pageUri)
+    const edits: vscode.TextEdit[] = await vscode.commands.executeCommand(
+      "vscode.executeFormatRangeProvider",
+      pageUri,
+      new vscode.Range(3, 0, 5, 10),
+      options,
+    )
+    expect(editsToJson(edits)).toEqual([
+      edit(3, 0, 3, 0, "  "),
+      edit(3, 0, 3, 13, "{% if item > 1 %}"),
+      edit(4, 6, 4, 20, "{{ item | upper }}"),
+      edit(5, 0, 5, 0, "  "),
+      edit(5, 0, 5, 9, "{% endif %}"),
+    ])
+  })
+
+  test("Formats and re-indents statements after typing their end", async () => {
+    await activate(pageUri)
+    const edits: vscode.TextEdit[] = await vscode.commands.executeCommand(
+      "vscode.executeFormatOnTypeProvider",
+      pageUri,
+      new vscode.Position(3, 13),
+      "}",
+      options,
+    )
+    expect(editsToJson(edits)).toEqual([
+      edit(3, 0, 3, 0, "  "),
+      edit(3, 0, 3, 13, "{% if item > 1 %}"),
+    ])
+  })
+
+  test("Doesn't format documents with errors", async () => {
+    for (const path of [
+      "formatting/unterminated.jinja",
+      "formatting/unclosed.jinja",
+    ]) {
+      const uri = getDocUri(path)
+      await activate(uri)
+      const edits: (vscode.TextEdit[] | undefined)[] = [
+        await vscode.commands.executeCommand(
+          "vscode.executeFormatDocumentProvider",
+          uri,
+          options,
+        ),
+        await vscode.commands.executeCommand(
+          "vscode.executeFormatRangeProvider",
+          uri,
+          new vscode.Range(0, 0, 2, 0),
+          options,
+        ),
+        await vscode.commands.executeCommand(
+          "vscode.executeFormatOnTypeProvider",
+          uri,
+          new vscode.Position(0, 8),
+          "}",
+          options,
+        ),
+      ]
+      expect(edits.map((edits) => editsToJson(edits ?? []))).toEqual([
+        [],
+        [],
+        [],
+      ])
+    }
+  })
+})
+
+const edit = (
+  startLine: number,
+  startCharacter: number,
+  endLine: number,
+  endCharacter: number,
+  newText: string,
+) => ({
+  range: rangeToJson(
+    new vscode.Range(startLine, startCharacter, endLine, endCharacter),
+  ),
+  newText,
+})
+
+const editsToJson = (edits: vscode.TextEdit[]) =>
+  edits.map((edit) => ({
+    range: rangeToJson(edit.range),
+    newText: edit.newText,
+  }))
@@ -0,0 +1,96 @@
+import { expect } from "expect"
+import * as vscode from "vscode"
+import { activate, getDocUri, rangeToJson } from "./helper"
+
+suite("Should find references", () => {
+  const baseUri = getDocUri("symbols/base.jinja")
+  const macrosUri = getDocUri("symbols/macros.jinja")
+  const pageUri = getDocUri("symbols/page.jinja")
+  const loopsUri = getDocUri("symbols/loops.jinja")
+
+  test("Follows aliased imports and namespaces", async () => {
+    const card = [
+      location(macrosUri, 0, 9, 4),
+      location(pageUri, 2, 30, 4),
+      location(pageUri, 2, 38, 5),
+      location(pageUri, 6, 7, 5),
+      location(pageUri, 6, 44, 4),
+    ]
+    // The definition, the alias of `from ... import card as panel` and `ui.card`
+    expect(await getReferences(macrosUri, new vscode.Position(0, 10))).toEqual(
+      card,
+    )
+    expect(await getReferences(pageUri, new vscode.Position(2, 40))).toEqual(
+      card,
+    )
+    expect(await getReferences(pageUri, new vscode.Position(6, 46))).toEqual(
+      card,
+    )
+  })
+
+  test("Finds the blocks overriding a block", async () => {
+    expect(await getReferences(pageUri, new vscode.Position(3, 10))).toEqual([
+      location(baseUri, 0, 15, 7),
+      location(baseUri, 0, 37, 7),
+      location(pageUri, 3, 9, 7),
+      location(pageUri, 8, 12, 7),
+    ])
+  })
+
+  test("Finds keyword arguments of macro parameters", async () => {
+    expect(await getReferences(pageUri, new vscode.Position(6, 15))).toEqual([
+      location(macrosUri, 0, 14, 5),
+      location(macrosUri, 1, 19, 5),
+      location(pageUri, 6, 13, 5),
+    ])
+  })
+
+  test("Separates shadowed loop variables", async () => {
+    // The iterable of the inner loop is the outer variable
+    expect(await getReferences(loopsUri, new vscode.Position(0, 7))).toEqual([
+      location(loopsUri, 0, 7, 1),
+      location(loopsUri, 1, 5, 1),
+      location(loopsUri, 2, 14, 1),
+      location(loopsUri, 3, 5, 1),
+    ])
+    expect(await getReferences(loopsUri, new vscode.Position(2, 9))).toEqual([
+      location(loopsUri, 2, 9, 1),
+      location(loopsUri, 2, 30, 1),
+    ])
+  })
+})
+
+/**
+ * A location of a name on a single line.
+ */
+export const location = (
+  uri: vscode.Uri,
+  line: number,
+  character: number,
+  length: number,
+) => ({
+  uri: uri.toString(),
+  range: rangeToJson(
+    new vscode.Range(line, character, line, character + length),
+  ),
+})
+
+const getReferences = async (uri: vscode.Uri, position: vscode.Position) => {
+  await activate(uri)
+  const locations: vscode.Location[] = await vscode.commands.executeCommand(
+    "vscode.executeReferenceProvider",
+    uri,
+    position,
+  )
+  return locations
+    .map((location) => ({
+      uri: location.uri.toString(),
+      range: rangeToJson(location.range),
+    }))
+    .sort(
+      (a, b) =>
+        a.uri.localeCompare(b.uri) ||
+        a.range[0].line - b.range[0].line ||
+        a.range[0].character - b.range[0].character,
+    )
+}
@@ -0,0 +1,118 @@
+import { expect } from "expect"
+import * as vscode from "vscode"
+import { activate, getDocUri, rangeToJson } from "./helper"
+import { location } from "./references.test"
+
+suite("Should rename symbols", () => {
+  const baseUri = getDocUri("symbols/base.jinja")
+  const macrosUri = getDocUri("symbols/macros.jinja")
+  const pageUri = getDocUri("symbols/page.jinja")
+
+  test("Renames the source of aliased imports only", async () => {
+    expect(
+      await getRenameEdits(macrosUri, new vscode.Position(0, 10), "tile"),
+    ).toEqual([
+      { ...location(macrosUri, 0, 9, 4), newText: "tile" },
+      { ...location(pageUri, 2, 30, 4), newText: "tile" },
+      { ...location(pageUri, 6, 44, 4), newText: "tile" },
+    ])
+
+    // Renaming the alias keeps the imported macro
+    expect(
+      await getRenameEdits(pageUri, new vscode.Position(6, 9), "box"),
+    ).toEqual([
+      { ...location(pageUri, 2, 38, 5), newText: "box" },
+      { ...location(pageUri, 6, 7, 5), newText: "box" },
+    ])
+  })
+
+  test("Renames keyword arguments of macro parameters", async () => {
+    expect(
+      await getRenameEdits(pageUri, new vscode.Position(6, 15), "heading_text"),
+    ).toEqual([
+      { ...location(macrosUri, 0, 14, 5), newText: "heading_text" },
+      { ...location(macrosUri, 1, 19, 5), newText: "heading_text" },
+      { ...location(pageUri, 6, 13, 5), newText: "heading_text" },
+    ])
+  })
+
+  test("Renames endblock names and overriding blocks", async () => {
+    expect(
+      await getRenameEdits(pageUri, new vscode.Position(3, 10), "main"),
+    ).toEqual([
+      { ...location(baseUri, 0, 15, 7), newText: "main" },
+      { ...location(baseUri, 0, 37, 7), newText: "main" },
+      { ...location(pageUri, 3, 9, 7), newText: "main" },
+      { ...location(pageUri, 8, 12, 7), newText: "main" },
+    ])
+  })
+
+  test("Rejects names which aren't identifiers", async () => {
+    for (const newName of [
+      "a-b",
+      "not",
+      "None",
+      "for",
+      "endblock",
+      "set",
+      "import",
+      "as",
+      "recursive",
+      "loop",
+      "self",
+      "caller",
+      "varargs",
+      "kwargs",
+    ]) {
+      await expect(
+        getRenameEdits(pageUri, new vscode.Position(3, 10), newName),
+      ).rejects.toThrow(`'${newName}' isn't a valid name`)
+    }
+  })
+
+  test("Prepares renaming the identifier under the cursor", async () => {
+    await activate(pageUri)
+    const result: { range: vscode.Range; placeholder: string } =
+      await vscode.commands.executeCommand(
+        "vscode.prepareRename",
+        pageUri,
+        new vscode.Position(6, 9),
+      )
+    expect({
+      range: rangeToJson(result.range),
+      placeholder: result.placeholder,
+    }).toEqual({
+      range: location(pageUri, 6, 7, 5).range,
+      placeholder: "panel",
+    })
+  })
+})
+
+const getRenameEdits = async (
+  uri: vscode.Uri,
+  position: vscode.Position,
+  newName: string,
+) => {
+  await activate(uri)
+  const edit: vscode.WorkspaceEdit = await vscode.commands.executeCommand(
+    "vscode.executeDocumentRenameProvider",
+    uri,
+    position,
+    newName,
+  )
+  return edit
+    .entries()
+    .flatMap(([editUri, edits]) =>
+      edits.map((edit) => ({
+        uri: editUri.toString(),
+        range: rangeToJson(edit.range),
+        newText: edit.newText,
+      })),
+    )
+    .sort(
+      (a, b) =>
+        a.uri.localeCompare(b.uri) ||
+        a.range[0].line - b.range[0].line ||
+        a.range[0].character - b.range[0].character,
+    )
+}
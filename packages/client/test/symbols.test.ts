@@ -0,0 +1,94 @@
+import { expect } from "expect"
+import * as vscode from "vscode"
+import { activate, getDocUri, rangeToJson } from "./helper"
+
+suite("Should provide document symbols", () => {
+  const pageUri = getDocUri("symbols/page.jinja")
+  const macrosUri = getDocUri("symbols/macros.jinja")
+
+  test("Nests macro parameters and the variables they define", async () => {
+    expect(await getSymbols(macrosUri)).toEqual([
+      {
+        name: "card",
+        detail: '(title, body = "")',
+        kind: vscode.SymbolKind.Function,
+        selectionRange: rangeToJson(new vscode.Range(0, 9, 0, 13)),
+        children: [
+          symbol("title", vscode.SymbolKind.Variable, 0, 14),
+          symbol("body", vscode.SymbolKind.Variable, 0, 21),
+          symbol("heading", vscode.SymbolKind.Variable, 1, 9),
+        ],
+      },
+      symbol("site", vscode.SymbolKind.Variable, 4, 7),
+    ])
+  })
+
+  test("Nests the variables of blocks and the names of imports", async () => {
+    expect(await getSymbols(pageUri)).toEqual([
+      {
+        ...symbol("ui", vscode.SymbolKind.Namespace, 1, 28),
+        detail: "macros.jinja",
+      },
+      {
+        name: "macros.jinja",
+        detail: "",
+        kind: vscode.SymbolKind.Namespace,
+        selectionRange: rangeToJson(new vscode.Range(2, 8, 2, 22)),
+        children: [
+          {
+            ...symbol("panel", vscode.SymbolKind.Variable, 2, 38),
+            detail: "card",
+          },
+          symbol("site", vscode.SymbolKind.Variable, 2, 45),
+        ],
+      },
+      {
+        ...symbol("content", vscode.SymbolKind.Module, 3, 9),
+        children: [
+          symbol("count", vscode.SymbolKind.Variable, 4, 9),
+          symbol("item", vscode.SymbolKind.Variable, 5, 9),
+        ],
+      },
+    ])
+  })
+})
+
+/**
+ * A symbol without children, whose name starts at the given position.
+ */
+const symbol = (
+  name: string,
+  kind: vscode.SymbolKind,
+  line: number,
+  character: number,
+) => ({
+  name,
+  detail: "",
+  kind,
+  selectionRange: rangeToJson(
+    new vscode.Range(line, character, line, character + name.length),
+  ),
+  children: [],
+})
+
+type SymbolJson = Pick<vscode.DocumentSymbol, "name" | "detail" | "kind"> & {
+  selectionRange: ReturnType<typeof rangeToJson>
+  children: SymbolJson[]
+}
+
+const toJson = (symbol: vscode.DocumentSymbol): SymbolJson => ({
+  name: symbol.name,
+  detail: symbol.detail,
+  kind: symbol.kind,
+  selectionRange: rangeToJson(symbol.selectionRange),
+  children: symbol.children.map(toJson),
+})
+
+const getSymbols = async (docUri: vscode.Uri) => {
+  await activate(docUri)
+  const symbols: vscode.DocumentSymbol[] = await vscode.commands.executeCommand(
+    "vscode.executeDocumentSymbolProvider",
+    docUri,
+  )
+  return symbols.map(toJson)
+}
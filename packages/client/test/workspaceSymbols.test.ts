@@ -0,0 +1,32 @@
+import { expect } from "expect"
+import * as vscode from "vscode"
+import { activate, getDocUri, rangeToJson } from "./helper"
+
+suite("Should provide workspace symbols", () => {
+  const pageUri = getDocUri("symbols/page.jinja")
+  const unopenedUri = getDocUri("symbols/unopened.jinja")
+
+  test("Finds macros of templates which aren't open", async () => {
+    await activate(pageUri)
+    const symbols: vscode.SymbolInformation[] =
+      await vscode.commands.executeCommand(
+        "vscode.executeWorkspaceSymbolProvider",
+        "unopenedwid",
+      )
+    expect(
+      symbols.map((symbol) => ({
+        name: symbol.name,
+        kind: symbol.kind,
+        uri: symbol.location.uri.toString(),
+        range: rangeToJson(symbol.location.range),
+      })),
+    ).toEqual([
+      {
+        name: "unopened_widget",
+        kind: vscode.SymbolKind.Function,
+        uri: unopenedUri.toString(),
+        range: rangeToJson(new vscode.Range(1, 9, 1, 24)),
+      },
+    ])
+  })
+})
@@ -41,7 +41,7 @@ export class Node {
       .map((token) => token.getEnd())
       .filter((x) => x !== undefined)
     if (ends.length !== 0) {
-      return Math.min(...ends)
+      return Math.max(...ends)
     }
   }
 
@@ -74,6 +74,16 @@ export class Node {
 }
 
 export class TokenNode extends Node {
+  /**
+   * The source text between the previous token and this one, set for the tokens of parsed documents.
+   */
+  leadingTrivia = ""
+
+  /**
+   * The source text of the token, which differs from its value for e.g. strings and comments.
+   */
+  text?: string
+
   constructor(public token: Token) {
     super()
     this.type = token.type
@@ -161,6 +171,16 @@ export class Program extends Statement {
   override type = "Program"
   override definesScope = true
 
+  /**
+   * The name of the template, set when it's loaded for rendering.
+   */
+  name?: string
+
+  /**
+   * The source of the template, set when it's loaded for rendering to locate runtime errors, or parsed as a document.
+   */
+  source?: string
+
   constructor(public body: Statement[]) {
     super()
     this.addChildren(...body)
@@ -208,12 +228,14 @@ export class For extends Statement {
     public elseOpenToken: TokenNode | undefined = undefined,
     public elseIdentifier: TokenNode | undefined = undefined,
     public elseCloseToken: TokenNode | undefined = undefined,
+    public recursive: TokenNode | undefined = undefined,
   ) {
     super()
     this.addChildren(
       loopvar,
       inToken,
       iterable,
+      recursive,
       ...body,
       elseOpenToken,
       elseIdentifier,
@@ -290,6 +312,8 @@ export class Raw extends Statement {
 export class Block extends Statement {
   override type = "Block"
   override definesScope = true
+  /** The name repeated after `endblock`, if any. */
+  endName: Identifier | undefined = undefined
 
   constructor(
     public name: Identifier,
@@ -583,6 +607,64 @@ export class FilterExpression extends Expression {
   }
 }
 
+/**
+ * A translatable block of the i18n extension, where `{{ name }}` refers to the bound variables.
+ * See https://jinja.palletsprojects.com/en/3.1.x/extensions/#i18n-extension for more information.
+ */
+export class Trans extends Statement {
+  override type = "Trans"
+  override definesScope = true
+
+  constructor(
+    public context: StringLiteral | undefined,
+    public bindings: {
+      name: Identifier
+      equalsToken: TokenNode | undefined
+      value: Expression | undefined
+    }[],
+    public trimmed: TokenNode | undefined,
+    public body: Statement[],
+    public pluralize: Pluralize | undefined,
+  ) {
+    super()
+    this.addChildren(context)
+    for (const binding of bindings) {
+      this.addChildren(binding.name, binding.equalsToken, binding.value)
+    }
+    this.addChildren(trimmed, ...body, pluralize)
+  }
+}
+
+/**
+ * The plural form of a translatable block, optionally naming the variable which decides between the forms.
+ */
+export class Pluralize extends Statement {
+  override type = "Pluralize"
+
+  constructor(
+    public count: Identifier | undefined,
+    public body: Statement[],
+  ) {
+    super()
+    this.addChildren(count, ...body)
+  }
+}
+
+/**
+ * A block which enables or disables autoescaping for its body.
+ */
+export class Autoescape extends Statement {
+  override type = "Autoescape"
+
+  constructor(
+    public value: Expression,
+    public body: Statement[],
+  ) {
+    super()
+    this.addChildren(value, ...body)
+  }
+}
+
 export class FilterStatement extends Statement {
   override type = "FilterStatement"
   override definesScope = true
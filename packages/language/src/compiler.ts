@@ -0,0 +1,987 @@
+/**
+ * @file Compiles templates to JavaScript functions
+ *
+ * The {@link Interpreter} dispatches on the type of each node every time it's evaluated. Compiling a template turns
+ * each node into a closure once, so that templates rendered many times only pay for what they do. Compiled templates
+ * have the semantics of the interpreter, sharing its helpers, but don't enforce the limits of sandboxes and can't
+ * wait for promises: sandboxed templates are interpreted, as are async and streaming renders.
+ */
+import type {
+  ArrayLiteral,
+  Autoescape,
+  BinaryExpression,
+  CallExpression,
+  CallStatement,
+  Expression,
+  Extends,
+  FilterExpression,
+  FilterStatement,
+  FloatLiteral,
+  For,
+  FromImport,
+  If,
+  Import,
+  Include,
+  IntegerLiteral,
+  KeywordArgumentExpression,
+  Macro,
+  MemberExpression,
+  ObjectLiteral,
+  Program,
+  SetStatement,
+  SliceExpression,
+  SpreadExpression,
+  Statement,
+  StringLiteral,
+  Ternary,
+  TestExpression,
+  Trans,
+  TupleLiteral,
+  UnaryExpression,
+} from "./ast"
+import {
+  Block,
+  Expression as ExpressionNode,
+  Identifier,
+  MemberExpression as MemberExpressionNode,
+  SelectExpression,
+} from "./ast"
+import { TemplateError, TemplateRuntimeError } from "./errors"
+import type { AnyRuntimeValue } from "./runtime"
+import {
+  addLocation,
+  applyBinaryOperator,
+  ArrayValue,
+  assign,
+  BooleanValue,
+  BreakControl,
+  bindCallerArguments,
+  bindMacroArguments,
+  callFunction,
+  Context,
+  ContinueControl,
+  createChangedFunction,
+  createLoopAssignment,
+  createLoopObject,
+  enterBlock,
+  Environment,
+  escapeValue,
+  exportModule,
+  findIncludedTemplate,
+  findTemplateContext,
+  FloatValue,
+  FunctionValue,
+  getMember,
+  getRootEnvironment,
+  getSandbox,
+  importNames,
+  IntegerValue,
+  Interpreter,
+  isAutoescaped,
+  isText,
+  KeywordArgumentsValue,
+  loadTemplate,
+  NullValue,
+  ObjectValue,
+  registerBlocks,
+  SafeStringValue,
+  sliceValue,
+  StringValue,
+  TemplateContext,
+  toLoopItems,
+  translateTrans,
+  TupleValue,
+  UndefinedValue,
+} from "./runtime"
+
+/**
+ * A compiled template, rendering it in an environment like {@link Interpreter.run}.
+ */
+export type CompiledTemplate = (environment: Environment) => string
+
+/**
+ * The state of a render shared by the compiled nodes.
+ */
+interface State {
+  /**
+   * Whether the output of expressions is currently escaped, which changes in autoescape blocks.
+   */
+  autoescape: boolean
+
+  /**
+   * The output rendered so far, which is captured e.g. by macros and kept when breaking out of loops.
+   */
+  output: string
+}
+
+type Evaluate = (state: State, environment: Environment) => AnyRuntimeValue
+type Render = (state: State, environment: Environment) => void
+type EvaluateArguments = (
+  state: State,
+  environment: Environment,
+) => [AnyRuntimeValue[], Map<string, AnyRuntimeValue>]
+
+/**
+ * The compiled templates and bodies, by their nodes. Templates loaded by name are cached by the environment,
+ * so they're compiled once too.
+ */
+const COMPILED_BODIES = new WeakMap<Statement[], Render>()
+const COMPILED_STATEMENTS = new WeakMap<Statement[], Render[]>()
+const COMPILED_PROGRAMS = new WeakMap<Program, Render>()
+
+/**
+ * Compile a template to a function rendering it. Sandboxed environments are rendered by the interpreter instead.
+ */
+export function compile(program: Program): CompiledTemplate {
+  // Like in the interpreter, errors from other templates end with the location of the rendered one
+  const render = locate(program, compileProgram(program))
+  return (environment) => {
+    if (getSandbox(environment) !== undefined) {
+      return (new Interpreter(environment).run(program) as StringValue).value
+    }
+    const state: State = { autoescape: false, output: "" }
+    render(state, environment)
+    return state.output
+  }
+}
+
+/**
+ * Render at once, e.g. the body of a macro, and return the output.
+ */
+function capture(state: State, render: () => void): StringValue {
+  const output = state.output
+  state.output = ""
+  try {
+    render()
+    return state.autoescape
+      ? new SafeStringValue(state.output)
+      : new StringValue(state.output)
+  } finally {
+    state.output = output
+  }
+}
+
+/**
+ * Run with autoescaping enabled or disabled, restoring the previous setting afterwards.
+ */
+function withAutoescape<T>(
+  state: State,
+  autoescape: boolean,
+  callback: () => T,
+): T {
+  const previous = state.autoescape
+  state.autoescape = autoescape
+  try {
+    return callback()
+  } finally {
+    state.autoescape = previous
+  }
+}
+
+/**
+ * Add the location of a node to the template errors thrown while running its compiled function.
+ */
+function locate<T extends Evaluate | Render>(node: Statement, compiled: T): T {
+  return ((state: State, environment: Environment) => {
+    try {
+      return compiled(state, environment)
+    } catch (error) {
+      if (error instanceof TemplateError) {
+        addLocation(error, node)
+      }
+      throw error
+    }
+  }) as T
+}
+
+function compileProgram(program: Program): Render {
+  let render = COMPILED_PROGRAMS.get(program)
+  if (render === undefined) {
+    render = (state, environment) =>
+      // Every template starts with the configured autoescaping, even when included in an autoescape block
+      withAutoescape(state, isAutoescaped(environment), () =>
+        renderTemplate(state, program, environment),
+      )
+    COMPILED_PROGRAMS.set(program, render)
+  }
+  return render
+}
+
+/**
+ * Render a template along with the templates it extends, using the environment as its top-level scope.
+ */
+function renderTemplate(
+  state: State,
+  program: Program,
+  environment: Environment,
+): void {
+  const context = new TemplateContext(environment)
+  environment.template = context
+  environment.setVariable("self", context.self)
+
+  let template: Program | undefined = program
+  while (template !== undefined) {
+    registerBlocks(template, context, (name, scope) =>
+      capture(state, () => renderBlock(state, name, 0, scope, context)),
+    )
+    context.parent = undefined
+    const statements = template.body
+    const renders = compileStatements(statements)
+    for (let i = 0; i < statements.length; ++i) {
+      if (context.parent === undefined) {
+        renders[i](state, environment)
+      } else if (
+        !(
+          statements[i] instanceof Block ||
+          statements[i] instanceof ExpressionNode
+        )
+      ) {
+        // Once a template extends another one, only its blocks and assignments matter
+        capture(state, () => renders[i](state, environment))
+      }
+    }
+    template = context.parent
+  }
+}
+
+/**
+ * Render a definition of a block, where `super()` renders the definition it overrides.
+ * @param depth The index of the definition, starting from the most derived one.
+ */
+function renderBlock(
+  state: State,
+  name: string,
+  depth: number,
+  environment: Environment,
+  context: TemplateContext,
+): void {
+  const [block, scope] = enterBlock(name, depth, environment, context, () =>
+    capture(state, () =>
+      renderBlock(state, name, depth + 1, environment, context),
+    ),
+  )
+  compileBody(block.body)(state, scope)
+}
+
+/**
+ * Compile each statement of a template, whose statements are rendered one by one to handle `extends`.
+ */
+function compileStatements(statements: Statement[]): Render[] {
+  let renders = COMPILED_STATEMENTS.get(statements)
+  if (renders === undefined) {
+    renders = statements.map(compileStatement)
+    COMPILED_STATEMENTS.set(statements, renders)
+  }
+  return renders
+}
+
+function compileBody(statements: Statement[]): Render {
+  let render = COMPILED_BODIES.get(statements)
+  if (render === undefined) {
+    const renders = statements.map(compileStatement)
+    switch (renders.length) {
+      case 0:
+        render = () => {}
+        break
+      case 1:
+        render = renders[0]
+        break
+      default:
+        render = (state, environment) => {
+          for (const render of renders) {
+            render(state, environment)
+          }
+        }
+    }
+    COMPILED_BODIES.set(statements, render)
+  }
+  return render
+}
+
+/**
+ * Compile a statement to a function appending its output.
+ */
+function compileStatement(statement: Statement): Render {
+  switch (statement.type) {
+    case "If":
+      return locate(statement, compileIf(statement as If))
+    case "For":
+      return locate(statement, compileFor(statement as For))
+    case "Block":
+      return locate(statement, compileBlock(statement as Block))
+    case "Include":
+      return locate(statement, compileInclude(statement as Include))
+    case "Autoescape":
+      return locate(statement, compileAutoescape(statement as Autoescape))
+    case "Comment":
+      return () => {}
+  }
+
+  if (isText(statement)) {
+    const text = (statement as StringLiteral).value
+    return (state) => {
+      state.output += text
+    }
+  }
+
+  const evaluate = compileExpression(statement)
+  if (!(statement instanceof ExpressionNode)) {
+    // The output of statements was already escaped, only expressions need to be escaped
+    return (state, environment) => {
+      const value = evaluate(state, environment)
+      if (value.type !== "NullValue") {
+        state.output += value.toString()
+      }
+    }
+  }
+  return (state, environment) => {
+    // Undefined values are printed according to their behavior, e.g. strict ones fail
+    const value = evaluate(state, environment)
+    if (value.type !== "NullValue") {
+      state.output += state.autoescape
+        ? escapeValue(value).value
+        : value.toString()
+    }
+  }
+}
+
+function compileIf(node: If): Render {
+  const test = compileExpression(node.test)
+  const body = compileBody(node.body)
+  const alternate = compileBody(node.alternate)
+  return (state, environment) =>
+    test(state, environment).__bool__().value
+      ? body(state, environment)
+      : alternate(state, environment)
+}
+
+function compileFor(node: For): Render {
+  let iterable, test: Evaluate | undefined
+  if (node.iterable instanceof SelectExpression) {
+    iterable = compileExpression(node.iterable.lhs)
+    test = compileExpression(node.iterable.test)
+  } else {
+    iterable = compileExpression(node.iterable)
+  }
+  const body = compileBody(node.body)
+  const defaultBlock = compileBody(node.defaultBlock)
+
+  /**
+   * Render the body of the loop for each item of the iterable.
+   * Recursive loops render it again when `loop` is called with the children of an item, one level deeper.
+   */
+  const renderLoop = (
+    state: State,
+    environment: Environment,
+    iterable: AnyRuntimeValue,
+    depth: number,
+  ): void => {
+    // Scope for the for loop
+    const scope = new Environment(environment)
+
+    const items: AnyRuntimeValue[] = []
+    const scopeUpdateFunctions: ((scope: Environment) => void)[] = []
+    for (const current of toLoopItems(iterable)) {
+      const scopeUpdateFunction = createLoopAssignment(node, current)
+      if (test) {
+        const loopScope = new Environment(scope)
+        scopeUpdateFunction(loopScope)
+        if (!test(state, loopScope).__bool__().value) {
+          continue
+        }
+      }
+      items.push(current)
+      scopeUpdateFunctions.push(scopeUpdateFunction)
+    }
+
+    const changed = createChangedFunction()
+    const recurse = (args: AnyRuntimeValue[]) => {
+      if (args.length !== 1) {
+        throw new TemplateRuntimeError(
+          `Recursive loop expects exactly one iterable: got ${args.length} arguments`,
+        )
+      }
+      return capture(state, () =>
+        renderLoop(state, environment, args[0], depth + 1),
+      )
+    }
+
+    for (let i = 0; i < items.length; ++i) {
+      const loop = createLoopObject(items, i, depth, scope, changed)
+      if (node.recursive) {
+        // The loop is callable, so its members are exposed like the builtins of a function
+        const loopFunction = new FunctionValue(recurse)
+        loopFunction.builtins = loop
+        scope.setVariable("loop", loopFunction)
+      } else {
+        scope.setVariable("loop", new ObjectValue(loop))
+      }
+
+      // Update scope for this iteration
+      scopeUpdateFunctions[i](scope)
+
+      try {
+        body(state, scope)
+      } catch (err) {
+        if (err instanceof ContinueControl) {
+          continue
+        }
+        if (err instanceof BreakControl) {
+          break
+        }
+        throw err
+      }
+    }
+
+    // no iteration took place, so we render the default block
+    if (items.length === 0) {
+      defaultBlock(state, scope)
+    }
+  }
+
+  return (state, environment) =>
+    renderLoop(state, environment, iterable(state, environment), 1)
+}
+
+function compileBlock(node: Block): Render {
+  const body = compileBody(node.body)
+  return (state, environment) => {
+    const context = findTemplateContext(environment)
+    if (!context?.blocks.get(node.name.value)?.includes(node)) {
+      body(state, new Environment(environment))
+      return
+    }
+    renderBlock(state, node.name.value, 0, environment, context)
+  }
+}
+
+function compileInclude(node: Include): Render {
+  const source = compileExpression(node.source)
+  return (state, environment) => {
+    const template = findIncludedTemplate(
+      source(state, environment),
+      node.ignoreMissing !== undefined,
+      environment,
+    )
+    if (template !== undefined) {
+      // Included templates have access to the current context by default
+      const scope = new Environment(
+        node.context?.value === "without"
+          ? getRootEnvironment(environment)
+          : environment,
+      )
+      compileProgram(template)(state, scope)
+    }
+  }
+}
+
+function compileAutoescape(node: Autoescape): Render {
+  const value = compileExpression(node.value)
+  const body = compileBody(node.body)
+  return (state, environment) => {
+    const autoescape = value(state, environment).__bool__().value
+    withAutoescape(state, autoescape, () => body(state, environment))
+  }
+}
+
+/**
+ * Compile a statement or an expression to a function evaluating it like {@link Interpreter.evaluate}.
+ */
+function compileExpression(statement: Statement | undefined): Evaluate {
+  if (!statement) {
+    return () => new UndefinedValue()
+  }
+  switch (statement.type) {
+    // Literals and variables can't fail, so their errors don't need a location
+    case "IntegerLiteral": {
+      const value = (statement as IntegerLiteral).value
+      return () => new IntegerValue(value)
+    }
+    case "FloatLiteral": {
+      const value = (statement as FloatLiteral).value
+      return () => new FloatValue(value)
+    }
+    case "StringLiteral": {
+      const value = (statement as StringLiteral).value
+      return () => new StringValue(value)
+    }
+    case "Identifier": {
+      const name = (statement as Identifier).value
+      return (_state, environment) => environment.lookupVariable(name)
+    }
+    case "Comment":
+      return () => new NullValue()
+  }
+  return locate(statement, compileNode(statement))
+}
+
+function compileNode(statement: Statement): Evaluate {
+  switch (statement.type) {
+    // Statements containing other ones are rendered at once
+    case "If":
+    case "For":
+    case "Block":
+    case "Include":
+    case "Autoescape": {
+      const render = compileStatement(statement)
+      return (state, environment) =>
+        capture(state, () => render(state, environment))
+    }
+
+    // Statements
+    case "Set":
+      return compileSet(statement as SetStatement)
+    case "Macro":
+      return compileMacro(statement as Macro)
+    case "CallStatement":
+      return compileCallStatement(statement as CallStatement)
+    case "Extends":
+      return compileExtends(statement as Extends)
+    case "Import":
+      return compileImport(statement as Import)
+    case "FromImport":
+      return compileFromImport(statement as FromImport)
+    case "Trans":
+      return compileTrans(statement as Trans)
+    case "FilterStatement":
+      return compileFilterStatement(statement as FilterStatement)
+
+    case "Break":
+      return () => {
+        throw new BreakControl()
+      }
+    case "Continue":
+      return () => {
+        throw new ContinueControl()
+      }
+
+    // Expressions
+    case "ArrayLiteral": {
+      const elements = (statement as ArrayLiteral).value.map(compileExpression)
+      return (state, environment) =>
+        new ArrayValue(elements.map((element) => element(state, environment)))
+    }
+    case "TupleLiteral": {
+      const elements = (statement as TupleLiteral).value.map(compileExpression)
+      return (state, environment) =>
+        new TupleValue(elements.map((element) => element(state, environment)))
+    }
+    case "ObjectLiteral": {
+      const entries = Array.from(
+        (statement as ObjectLiteral).value,
+        ([key, value]) => [compileExpression(key), compileExpression(value)],
+      )
+      return (state, environment) => {
+        const mapping = new Map()
+        for (const [key, value] of entries) {
+          const evaluatedKey = key(state, environment)
+          if (!(evaluatedKey instanceof StringValue)) {
+            throw new TemplateRuntimeError(
+              `Object keys must be strings: got ${evaluatedKey.type}`,
+            )
+          }
+          mapping.set(evaluatedKey.value, value(state, environment))
+        }
+        return new ObjectValue(mapping)
+      }
+    }
+    case "CallExpression":
+      return compileCallExpression(statement as CallExpression)
+    case "MemberExpression":
+      return compileMemberExpression(statement as MemberExpression)
+    case "UnaryExpression":
+      return compileUnaryExpression(statement as UnaryExpression)
+    case "BinaryExpression":
+      return compileBinaryExpression(statement as BinaryExpression)
+    case "FilterExpression": {
+      const node = statement as FilterExpression
+      const operand = compileExpression(node.operand)
+      const filter = compileFilter(node.filter)
+      return (state, environment) =>
+        filter(state, environment, operand(state, environment))
+    }
+    case "TestExpression":
+      return compileTestExpression(statement as TestExpression)
+    case "SelectExpression": {
+      const node = statement as SelectExpression
+      const test = compileExpression(node.test)
+      const lhs = compileExpression(node.lhs)
+      return (state, environment) =>
+        test(state, environment).__bool__().value
+          ? lhs(state, environment)
+          : new UndefinedValue()
+    }
+    case "Ternary": {
+      const node = statement as Ternary
+      const condition = compileExpression(node.condition)
+      const trueExpr = compileExpression(node.trueExpr)
+      const falseExpr = compileExpression(node.falseExpr)
+      return (state, environment) =>
+        condition(state, environment).__bool__().value
+          ? trueExpr(state, environment)
+          : falseExpr(state, environment)
+    }
+    default:
+      return () => {
+        throw new TemplateRuntimeError(`Unknown node type: ${statement.type}`)
+      }
+  }
+}
+
+function compileArguments(args: Expression[]): EvaluateArguments {
+  const compiled = args.map((argument): [Expression, Evaluate] => {
+    if (argument.type === "SpreadExpression") {
+      return [
+        argument,
+        compileExpression((argument as SpreadExpression).argument),
+      ]
+    } else if (argument.type === "KeywordArgumentExpression") {
+      return [
+        argument,
+        compileExpression((argument as KeywordArgumentExpression).value),
+      ]
+    }
+    return [argument, compileExpression(argument)]
+  })
+  return (state, environment) => {
+    // Accumulate args and kwargs
+    const positionalArguments: AnyRuntimeValue[] = []
+    const keywordArguments = new Map<string, AnyRuntimeValue>()
+
+    for (const [argument, evaluate] of compiled) {
+      if (argument.type === "SpreadExpression") {
+        const val = evaluate(state, environment)
+        if (!(val instanceof ArrayValue)) {
+          throw new TemplateRuntimeError(
+            `Cannot unpack non-iterable type: ${val.type}`,
+          )
+        }
+        for (const item of val.value) {
+          positionalArguments.push(item)
+        }
+      } else if (argument.type === "KeywordArgumentExpression") {
+        keywordArguments.set(
+          (argument as KeywordArgumentExpression).key.value,
+          evaluate(state, environment),
+        )
+      } else {
+        if (keywordArguments.size > 0) {
+          throw new TemplateRuntimeError(
+            "Positional arguments must come before keyword arguments",
+          )
+        }
+        positionalArguments.push(evaluate(state, environment))
+      }
+    }
+    return [positionalArguments, keywordArguments]
+  }
+}
+
+function compileCallExpression(node: CallExpression): Evaluate {
+  const args = compileArguments(node.args)
+  const callee = compileExpression(node.callee)
+  return (state, environment) => {
+    // Accumulate all keyword arguments into a single object, which will be
+    // used as the final argument in the call function.
+    const [positional, kwargs] = args(state, environment)
+    if (kwargs.size > 0) {
+      positional.push(new KeywordArgumentsValue(kwargs))
+    }
+    const fn = callee(state, environment)
+    const context = new Context(environment, state.autoescape)
+    return callFunction(fn, positional, environment, context)
+  }
+}
+
+function compileMemberExpression(node: MemberExpression): Evaluate {
+  const object = compileExpression(node.object)
+
+  if (!node.computed) {
+    const name = (node.property as Identifier).value
+    return (state, environment) =>
+      getMember(object(state, environment), new StringValue(name), environment)
+  }
+
+  if (node.property.type === "SliceExpression") {
+    const slice = node.property as SliceExpression
+    const start = compileExpression(slice.start)
+    const stop = compileExpression(slice.stop)
+    const step = compileExpression(slice.step)
+    return (state, environment) => {
+      const value = object(state, environment)
+      if (!(value instanceof ArrayValue || value instanceof StringValue)) {
+        throw new TemplateRuntimeError(
+          "Slice object must be an array or string",
+        )
+      }
+      return sliceValue(
+        value,
+        start(state, environment),
+        stop(state, environment),
+        step(state, environment),
+      )
+    }
+  }
+
+  const property = compileExpression(node.property)
+  return (state, environment) => {
+    const value = object(state, environment)
+    return getMember(value, property(state, environment), environment)
+  }
+}
+
+function compileUnaryExpression(node: UnaryExpression): Evaluate {
+  const argument = compileExpression(node.argument)
+  const operator = node.operator.value
+  return (state, environment) => {
+    const value = argument(state, environment)
+    if (operator !== "not") {
+      throw new TemplateRuntimeError(`Unknown operator: ${operator}`)
+    }
+    return new BooleanValue(!value.__bool__().value)
+  }
+}
+
+function compileBinaryExpression(node: BinaryExpression): Evaluate {
+  const left = compileExpression(node.left)
+  const right = compileExpression(node.right)
+  const operator = node.operator.value
+  switch (operator) {
+    case "and":
+      return (state, environment) => {
+        const value = left(state, environment)
+        return value.__bool__().value ? right(state, environment) : value
+      }
+    case "or":
+      return (state, environment) => {
+        const value = left(state, environment)
+        return value.__bool__().value ? value : right(state, environment)
+      }
+  }
+  return (state, environment) => {
+    const value = left(state, environment)
+    return applyBinaryOperator(
+      operator,
+      value,
+      right(state, environment),
+      state.autoescape,
+    )
+  }
+}
+
+/**
+ * Compile the filter of a filter expression or statement to a function applying it to an evaluated operand.
+ */
+function compileFilter(
+  filter: Identifier | CallExpression,
+): (
+  state: State,
+  environment: Environment,
+  operand: AnyRuntimeValue,
+) => AnyRuntimeValue {
+  if (filter instanceof Identifier) {
+    const name = filter.value
+    return (state, environment, operand) =>
+      new Context(environment, state.autoescape).callFilter(name, operand)
+  } else if (filter.callee instanceof Identifier) {
+    const name = filter.callee.value
+    const args = compileArguments(filter.args)
+    return (state, environment, operand) => {
+      const context = new Context(environment, state.autoescape)
+      const [positional, kwargs] = args(state, environment)
+      return context.callFilter(name, operand, positional, kwargs)
+    }
+  }
+  const type = filter.callee.type
+  return () => {
+    throw new TemplateRuntimeError(`Unknown filter: ${type}`)
+  }
+}
+
+function compileTestExpression(node: TestExpression): Evaluate {
+  const operand = compileExpression(node.operand)
+  let test: (
+    state: State,
+    environment: Environment,
+    operand: AnyRuntimeValue,
+  ) => boolean
+  if (node.test instanceof Identifier) {
+    const name = node.test.value
+    test = (state, environment, operand) =>
+      new Context(environment, state.autoescape).callTest(name, operand)
+  } else if (node.test.callee instanceof Identifier) {
+    const name = node.test.callee.value
+    const args = compileArguments(node.test.args)
+    test = (state, environment, operand) => {
+      const context = new Context(environment, state.autoescape)
+      const [positional, kwargs] = args(state, environment)
+      return context.callTest(name, operand, positional, kwargs)
+    }
+  } else {
+    const type = node.test.callee.type
+    test = () => {
+      throw new TemplateRuntimeError(`Unknown test: ${type}`)
+    }
+  }
+  return (state, environment) => {
+    const result = test(state, environment, operand(state, environment))
+    return new BooleanValue(node.negate ? !result : result)
+  }
+}
+
+function compileSet(node: SetStatement): Evaluate {
+  const value = node.value
+    ? compileExpression(node.value)
+    : compileCapture(node.body)
+  const object =
+    node.assignee instanceof MemberExpressionNode
+      ? compileExpression(node.assignee.object)
+      : undefined
+  return (state, environment) => {
+    const rhs = value(state, environment)
+    assign(node.assignee, rhs, environment, () => object!(state, environment))
+    return new NullValue()
+  }
+}
+
+/**
+ * Compile a body to a function rendering it at once and returning the output.
+ */
+function compileCapture(statements: Statement[]): Evaluate {
+  const body = compileBody(statements)
+  return (state, environment) => capture(state, () => body(state, environment))
+}
+
+function compileMacro(node: Macro): Evaluate {
+  const body = compileCapture(node.body)
+  const defaults = new Map<Expression, Evaluate>()
+  for (const argument of node.args) {
+    if (argument.type === "KeywordArgumentExpression") {
+      const value = (argument as KeywordArgumentExpression).value
+      defaults.set(value, compileExpression(value))
+    }
+  }
+  return (state, environment) => {
+    const autoescape = state.autoescape
+    environment.setVariable(
+      node.name.value,
+      new FunctionValue((args, scope) => {
+        const macroScope = new Environment(scope)
+
+        bindMacroArguments(node, args, macroScope, (expression) =>
+          defaults.get(expression)!(state, macroScope),
+        )
+        return withAutoescape(state, autoescape, () => body(state, macroScope))
+      }),
+    )
+
+    // Macros are not evaluated immediately, so we return null
+    return new NullValue()
+  }
+}
+
+function compileCallStatement(node: CallStatement): Evaluate {
+  const body = compileCapture(node.body)
+  const args = compileArguments(node.call.args)
+  const callee = compileExpression(node.call.callee)
+  return (state, environment) => {
+    const autoescape = state.autoescape
+    const callerFn = new FunctionValue(
+      (callerArgs: AnyRuntimeValue[], callerEnv: Environment) => {
+        const callBlockEnv = new Environment(callerEnv)
+        bindCallerArguments(node, callerArgs, callBlockEnv)
+        return withAutoescape(state, autoescape, () =>
+          body(state, callBlockEnv),
+        )
+      },
+    )
+
+    const [macroArgs, macroKwargs] = args(state, environment)
+    macroArgs.push(new KeywordArgumentsValue(macroKwargs))
+    const fn = callee(state, environment)
+    if (fn.type !== "FunctionValue") {
+      throw new TemplateRuntimeError(
+        `Cannot call something that is not a function: got ${fn.type}`,
+      )
+    }
+    const newEnv = new Environment(environment)
+    newEnv.setVariable("caller", callerFn)
+    return (fn as FunctionValue).value(macroArgs, newEnv)
+  }
+}
+
+function compileFilterStatement(node: FilterStatement): Evaluate {
+  const body = compileCapture(node.body)
+  const filter = compileFilter(node.filter)
+  return (state, environment) =>
+    filter(state, environment, body(state, environment))
+}
+
+function compileExtends(node: Extends): Evaluate {
+  const source = compileExpression(node.source)
+  return (state, environment) => {
+    const context = findTemplateContext(environment)
+    if (context.parent !== undefined) {
+      throw new TemplateRuntimeError("Extended multiple times")
+    }
+    context.parent = loadTemplate(source(state, environment), environment)
+    return new NullValue()
+  }
+}
+
+/**
+ * Compile the source of an import to a function evaluating the template as a module, whose top-level variables
+ * and macros are exported.
+ */
+function compileModule(
+  source: Expression,
+  context: Identifier | undefined,
+): (state: State, environment: Environment) => ObjectValue {
+  const name = compileExpression(source)
+  return (state, environment) => {
+    const template = loadTemplate(name(state, environment), environment)
+
+    // Imported templates don't have access to the current context by default
+    const scope = new Environment(
+      context?.value === "with" ? environment : getRootEnvironment(environment),
+    )
+    const predefined = new Set(scope.variables.keys()).add("self")
+    const render = compileProgram(template)
+    capture(state, () => render(state, scope))
+
+    return exportModule(scope, predefined)
+  }
+}
+
+function compileImport(node: Import): Evaluate {
+  const module = compileModule(node.source, node.context)
+  return (state, environment) => {
+    environment.setVariable(node.name.value, module(state, environment))
+    return new NullValue()
+  }
+}
+
+function compileFromImport(node: FromImport): Evaluate {
+  const module = compileModule(node.source, node.context)
+  return (state, environment) => {
+    importNames(node, module(state, environment), environment)
+    return new NullValue()
+  }
+}
+
+function compileTrans(node: Trans): Evaluate {
+  const bindings = node.bindings.map(({ name, value }) => ({
+    name: name.value,
+    value: value && compileExpression(value),
+  }))
+  return (state, environment) => {
+    const variables = new Map<string, AnyRuntimeValue>()
+    for (const { name, value } of bindings) {
+      variables.set(
+        name,
+        value ? value(state, environment) : environment.lookupVariable(name),
+      )
+    }
+    return translateTrans(node, variables, environment, state.autoescape)
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * The location of a node in a template.
+ */
+export interface SourceLocation {
+  /**
+   * The name of the template, if it was given one.
+   */
+  template?: string
+  /**
+   * The line of the start of the node, starting at 1.
+   */
+  line: number
+  /**
+   * The column of the start of the node, starting at 1.
+   */
+  column: number
+  start: number
+  end: number
+}
+
+/**
+ * The base class of errors raised while rendering templates, like Jinja's `TemplateError`.
+ */
+export class TemplateError extends Error {
+  override name = "TemplateError"
+
+  /**
+   * The node which raised the error, set once the error passes through the interpreter.
+   */
+  location?: SourceLocation
+
+  /**
+   * The macro calls, includes and blocks through which the error propagated, from the innermost one.
+   */
+  templateStack: SourceLocation[] = []
+
+  /**
+   * @returns The message followed by the locations of the error, like a stack trace.
+   */
+  override toString(): string {
+    const locations = this.location
+      ? [this.location, ...this.templateStack]
+      : this.templateStack
+    return [
+      `${this.name}: ${this.message}`,
+      ...locations.map(
+        ({ template, line, column }) =>
+          `    at ${template ?? "<template>"}:${line}:${column}`,
+      ),
+    ].join("\n")
+  }
+}
+
+/**
+ * Raised when a template fails while rendering, like Jinja's `TemplateRuntimeError`.
+ */
+export class TemplateRuntimeError extends TemplateError {
+  override name = "TemplateRuntimeError"
+}
+
+/**
+ * Raised when an undefined value is used in an unsupported way, like Jinja's `UndefinedError`.
+ */
+export class UndefinedError extends TemplateRuntimeError {
+  override name = "UndefinedError"
+}
+
+/**
+ * Raised when none of the templates to include, import or extend exist, like Jinja's `TemplateNotFound`.
+ */
+export class TemplateNotFound extends TemplateError {
+  override name = "TemplateNotFound"
+
+  constructor(public templates: string[]) {
+    super(`Template not found: ${templates.join(", ")}`)
+  }
+}
@@ -1,22 +1,30 @@
 import {
   ArrayLiteral,
+  Autoescape,
   BinaryExpression,
+  Block,
   CallExpression,
   CallStatement,
   Comment,
+  DoStatement,
   Expression,
+  Extends,
   FilterExpression,
   FilterStatement,
   FloatLiteral,
   For,
+  FromImport,
   Identifier,
   If,
+  Import,
+  Include,
   IntegerLiteral,
   KeywordArgumentExpression,
   Macro,
   MemberExpression,
   ObjectLiteral,
   Program,
+  Raw,
   SelectExpression,
   SetStatement,
   SliceExpression,
@@ -24,91 +32,396 @@ import {
   Statement,
   StringLiteral,
   Ternary,
+  TokenNode,
   TestExpression,
+  Trans,
   TupleLiteral,
   UnaryExpression,
+  With,
 } from "./ast"
+import type { TextEdit } from "./incremental"
+import { TOKEN_TYPES } from "./lexer"
+import { isText } from "./runtime"
 
 const NEWLINE = "\n"
-const OPEN_STATEMENT = "{%- "
-const CLOSE_STATEMENT = " -%}"
+const OPEN_STATEMENT = "{%-"
+const CLOSE_STATEMENT = "-%}"
+const OPEN_EXPRESSION = "{{-"
+const CLOSE_EXPRESSION = "-}}"
+
+// Like in the parser, `not` binds looser than comparisons, and tests and filters bind tighter than binary operators
+const NOT_PRECEDENCE = 2
+const TEST_PRECEDENCE = 7
+const FILTER_PRECEDENCE = 8
 
 function getBinaryOperatorPrecedence(expr: BinaryExpression): number {
   switch (expr.operator.token.type) {
     case "PowerBinaryOperator":
-      return 5
+      return 6
     case "MultiplicativeBinaryOperator":
-      return 4
+      return 5
     case "AdditiveBinaryOperator":
-      return 3
+      return 4
     case "ComparisonBinaryOperator":
-      return 2
+      return 3
     case "Identifier":
       if (expr.operator.value === "and") return 1
       if (expr.operator.value === "in" || expr.operator.value === "not in")
-        return 2
+        return 3
       return 0
   }
   return 0
 }
 
+/**
+ * Whether an expression can be the object of a member access or the callee of a call without parentheses.
+ */
+function isPostfixOperand(node: Expression): boolean {
+  return [
+    "Identifier",
+    "MemberExpression",
+    "CallExpression",
+    "StringLiteral",
+    "IntegerLiteral",
+    "FloatLiteral",
+    "ArrayLiteral",
+    "TupleLiteral",
+    "ObjectLiteral",
+  ].includes(node.type)
+}
+
+export interface FormatStyle {
+  /**
+   * The quotes of string literals, `"double"` by default.
+   */
+  quoteStyle?: "double" | "single"
+  /**
+   * Whether tags have spaces inside their delimiters, e.g. `{{ x }}` rather than `{{x}}`, true by default.
+   */
+  delimiterSpacing?: boolean
+  /**
+   * The line width above which tags are wrapped, breaking filter chains, the arguments of calls and macros, and
+   * literals over several lines. Tags aren't wrapped by default.
+   */
+  printWidth?: number
+  /**
+   * Whether arguments and literals wrapped over several lines have a trailing comma, false by default.
+   */
+  trailingComma?: boolean
+  /**
+   * Whether the `~` operator has spaces around it like other binary operators, true by default.
+   */
+  tildeSpacing?: boolean
+}
+
+export interface FormatOptions extends FormatStyle {
+  /**
+   * Only format inside tags and keep the text, comments and whitespace control of the template as written,
+   * so that it renders the same. This needs the `source` of the program.
+   */
+  preserveText?: boolean
+  /**
+   * Whether the template is rendered with `lstrip_blocks`, which allows re-indenting block tags on their own line
+   * when preserving text.
+   */
+  lstripBlocks?: boolean
+}
+
+/**
+ * The style options with their defaults, along with the indentation.
+ */
+type Style = Required<FormatStyle> & { indent: string }
+
+function resolveStyle(indent: string | number, style: FormatStyle): Style {
+  return {
+    indent: typeof indent === "number" ? " ".repeat(indent) : indent,
+    quoteStyle: style.quoteStyle ?? "double",
+    delimiterSpacing: style.delimiterSpacing ?? true,
+    printWidth: style.printWidth ?? Infinity,
+    trailingComma: style.trailingComma ?? false,
+    tildeSpacing: style.tildeSpacing ?? true,
+  }
+}
+
 export function format(
   program: Program,
   indent: string | number = "\t",
+  options: FormatOptions = {},
 ): string {
-  const indentStr = typeof indent === "number" ? " ".repeat(indent) : indent
-  const body = formatStatements(program.body, 0, indentStr)
+  if (options.preserveText) {
+    let out = ""
+    let position = 0
+    for (const edit of formatEdits(program, indent, options)) {
+      out += program.source.slice(position, edit.start) + edit.text
+      position = edit.end
+    }
+    return out + program.source.slice(position)
+  }
+  const style = resolveStyle(indent, options)
+  const body = formatStatements(program.body, 0, style)
   return body.replace(/\n$/, "")
 }
 
-function createStatement(...text: string[]): string {
-  return OPEN_STATEMENT + text.join(" ") + CLOSE_STATEMENT
+/**
+ * A tag with the given delimiters, e.g. `{%- if x -%}`.
+ */
+function createTag(
+  open: string,
+  words: string[],
+  close: string,
+  style: Style,
+): string {
+  const content = words.join(" ")
+  // A sign next to a delimiter would be read as whitespace control, e.g. `{{-5}}`
+  const openSpace = style.delimiterSpacing || /^[-+]/.test(content) ? " " : ""
+  const closeSpace = style.delimiterSpacing || /[-+]$/.test(content) ? " " : ""
+  return open + openSpace + content + closeSpace + close
+}
+
+function createStatement(style: Style, ...text: string[]): string {
+  return createTag(OPEN_STATEMENT, text, CLOSE_STATEMENT, style)
+}
+
+/**
+ * The opening tag of a statement or the tag of an expression, which is wrapped when it's longer than the print width.
+ */
+function formatHeaderTag(
+  node: Statement,
+  pad: string,
+  style: Style,
+  open = OPEN_STATEMENT,
+  close = CLOSE_STATEMENT,
+): string {
+  const tag = pad + createTag(open, formatHeader(node, style), close, style)
+  if (tag.length <= style.printWidth) {
+    return tag
+  }
+  return pad + createTag(open, formatHeader(node, style, pad), close, style)
 }
 
 function formatStatements(
   stmts: Statement[],
   depth: number,
-  indentStr: string,
+  style: Style,
 ): string {
-  return stmts
-    .map((stmt) => formatStatement(stmt, depth, indentStr))
-    .join(NEWLINE)
+  return stmts.map((stmt) => formatStatement(stmt, depth, style)).join(NEWLINE)
 }
 
-function formatStatement(
-  node: Statement,
-  depth: number,
-  indentStr: string,
-): string {
-  const pad = indentStr.repeat(depth)
+function formatStatement(node: Statement, depth: number, style: Style): string {
+  const pad = style.indent.repeat(depth)
   switch (node.type) {
     case "Program":
-      return formatStatements((node as Program).body, depth, indentStr)
+      return formatStatements((node as Program).body, depth, style)
     case "If":
-      return formatIf(node as If, depth, indentStr)
+      return formatIf(node as If, depth, style)
     case "For":
-      return formatFor(node as For, depth, indentStr)
     case "Set":
-      return formatSet(node as SetStatement, depth, indentStr)
     case "Macro":
-      return formatMacro(node as Macro, depth, indentStr)
-    case "Break":
-      return pad + createStatement("break")
-    case "Continue":
-      return pad + createStatement("continue")
     case "CallStatement":
-      return formatCallStatement(node as CallStatement, depth, indentStr)
     case "FilterStatement":
-      return formatFilterStatement(node as FilterStatement, depth, indentStr)
+    case "Autoescape":
+    case "Block":
+    case "With":
+      return formatBlockStatement(node, depth, style)
+    case "Trans":
+      return formatTrans(node as Trans, depth, style)
     case "Comment":
-      return pad + "{# " + (node as Comment).value + " #}"
+      // The value of comments includes the whitespace around them
+      return pad + "{#" + (node as Comment).value + "#}"
+    case "Raw":
+      return formatRaw(node as Raw, depth, style)
+    case "Break":
+    case "Continue":
+    case "Include":
+    case "Import":
+    case "FromImport":
+    case "Extends":
+    case "Do":
+      return formatHeaderTag(node, pad, style)
     default:
-      return pad + "{{- " + formatExpression(node as Expression) + " -}}"
+      return formatHeaderTag(
+        node,
+        pad,
+        style,
+        OPEN_EXPRESSION,
+        CLOSE_EXPRESSION,
+      )
   }
 }
 
-function formatIf(node: If, depth: number, indentStr: string): string {
-  const pad = indentStr.repeat(depth)
+/**
+ * The words of the opening tag of a statement, e.g. `for x in items`, or the expression of an expression tag.
+ *
+ * @param wrapPad The indentation of the tag when it's wrapped over several lines
+ */
+function formatHeader(
+  node: Statement,
+  style: Style,
+  wrapPad?: string,
+): string[] {
+  const expression = (expr: Expression) =>
+    wrapPad === undefined
+      ? printExpression(expr, style)
+      : formatWrapped(expr, style, wrapPad)
+
+  switch (node.type) {
+    case "If": {
+      const n = node as If
+      return [n.identifier?.value ?? "if", printExpression(n.test, style)]
+    }
+    case "For": {
+      const n = node as For
+      let formattedIterable = ""
+      if (n.iterable.type === "SelectExpression") {
+        // Handle special case: e.g., `for x in [1, 2, 3] if x > 2`
+        const iterable = n.iterable as SelectExpression
+        formattedIterable = `${printExpression(iterable.lhs, style)} if ${printExpression(
+          iterable.test,
+          style,
+        )}`
+      } else {
+        formattedIterable = printExpression(n.iterable, style)
+      }
+      return [
+        "for",
+        printExpression(n.loopvar, style),
+        "in",
+        formattedIterable,
+        ...(n.recursive ? ["recursive"] : []),
+      ]
+    }
+    case "Set": {
+      const n = node as SetStatement
+      const left = printExpression(n.assignee, style)
+      return ["set", n.value ? `${left} = ${expression(n.value)}` : left]
+    }
+    case "Macro": {
+      const n = node as Macro
+      return [
+        "macro",
+        n.name.value +
+          formatList(
+            "()",
+            n.args.map((arg) => printExpression(arg, style)),
+            style,
+            wrapPad,
+          ),
+      ]
+    }
+    case "CallStatement": {
+      const n = node as CallStatement
+      const params =
+        n.callerArgs && n.callerArgs.length > 0
+          ? `(${n.callerArgs.map((arg) => printExpression(arg, style)).join(", ")})`
+          : ""
+      return [`call${params}`, expression(n.call)]
+    }
+    case "FilterStatement": {
+      const n = node as FilterStatement
+      return [
+        "filter",
+        n.filter.type === "Identifier"
+          ? (n.filter as Identifier).value
+          : printExpression(n.filter as CallExpression, style),
+      ]
+    }
+    case "Autoescape":
+      return ["autoescape", printExpression((node as Autoescape).value, style)]
+    case "Block": {
+      const n = node as Block
+      const header = ["block", n.name.value]
+      if (n.scoped) {
+        header.push("scoped")
+      }
+      if (n.required) {
+        header.push("required")
+      }
+      return header
+    }
+    case "With": {
+      const assignments = (node as With).assignments
+        .map(
+          ({ assignee, value }) =>
+            `${printExpression(assignee, style)} = ${printExpression(value, style)}`,
+        )
+        .join(", ")
+      return ["with", ...(assignments ? [assignments] : [])]
+    }
+    case "Trans": {
+      const n = node as Trans
+      const header = ["trans"]
+      if (n.context) {
+        header.push(printExpression(n.context, style))
+      }
+      const parts = n.bindings.map(({ name, value }) =>
+        value ? `${name.value}=${printExpression(value, style)}` : name.value,
+      )
+      if (n.trimmed) {
+        parts.push(n.trimmed.value)
+      }
+      if (parts.length !== 0) {
+        header.push(parts.join(", "))
+      }
+      return header
+    }
+    case "Break":
+      return ["break"]
+    case "Continue":
+      return ["continue"]
+    case "Include": {
+      const n = node as Include
+      return [
+        "include",
+        printExpression(n.source, style),
+        ...(n.ignoreMissing ? ["ignore missing"] : []),
+        ...formatContext(n.context),
+      ]
+    }
+    case "Import": {
+      const n = node as Import
+      return [
+        "import",
+        printExpression(n.source, style),
+        "as",
+        n.name.value,
+        ...formatContext(n.context),
+      ]
+    }
+    case "FromImport": {
+      const n = node as FromImport
+      const imports = n.imports
+        .map(({ source, name }) =>
+          name ? `${source.value} as ${name.value}` : source.value,
+        )
+        .join(", ")
+      return [
+        "from",
+        printExpression(n.source, style),
+        "import",
+        imports,
+        ...formatContext(n.context),
+      ]
+    }
+    case "Extends":
+      return ["extends", printExpression((node as Extends).source, style)]
+    case "Raw":
+      return ["raw"]
+    case "Do":
+      return ["do", expression((node as DoStatement).expression)]
+    default:
+      return [expression(node as Expression)]
+  }
+}
+
+/**
+ * The `with context` or `without context` clause of includes and imports, if any.
+ */
+function formatContext(context: Identifier | undefined): string[] {
+  return context ? [`${context.value} context`] : []
+}
+
+function formatIf(node: If, depth: number, style: Style): string {
+  const pad = style.indent.repeat(depth)
 
   const clauses: { test: Expression; body: Statement[] }[] = []
   let current: If | undefined = node
@@ -124,18 +437,18 @@ function formatIf(node: If, depth: number, indentStr: string): string {
   // IF
   let out =
     pad +
-    createStatement("if", formatExpression(clauses[0].test)) +
+    createStatement(style, "if", printExpression(clauses[0].test, style)) +
     NEWLINE +
-    formatStatements(clauses[0].body, depth + 1, indentStr)
+    formatStatements(clauses[0].body, depth + 1, style)
 
   // ELIF(s)
   for (let i = 1; i < clauses.length; ++i) {
     out +=
       NEWLINE +
       pad +
-      createStatement("elif", formatExpression(clauses[i].test)) +
+      createStatement(style, "elif", printExpression(clauses[i].test, style)) +
       NEWLINE +
-      formatStatements(clauses[i].body, depth + 1, indentStr)
+      formatStatements(clauses[i].body, depth + 1, style)
   }
 
   // ELSE
@@ -143,131 +456,373 @@ function formatIf(node: If, depth: number, indentStr: string): string {
     out +=
       NEWLINE +
       pad +
-      createStatement("else") +
+      createStatement(style, "else") +
       NEWLINE +
-      formatStatements(current.alternate, depth + 1, indentStr)
+      formatStatements(current.alternate, depth + 1, style)
   }
 
   // ENDIF
-  out += NEWLINE + pad + createStatement("endif")
+  out += NEWLINE + pad + createStatement(style, "endif")
   return out
 }
 
-function formatFor(node: For, depth: number, indentStr: string): string {
-  const pad = indentStr.repeat(depth)
-  let formattedIterable = ""
-  if (node.iterable.type === "SelectExpression") {
-    // Handle special case: e.g., `for x in [1, 2, 3] if x > 2`
-    const n = node.iterable as SelectExpression
-    formattedIterable = `${formatExpression(n.lhs)} if ${formatExpression(
-      n.test,
-    )}`
-  } else {
-    formattedIterable = formatExpression(node.iterable)
+/**
+ * Statements with a body and a closing tag, e.g. `{% for %}...{% endfor %}`.
+ */
+function formatBlockStatement(
+  node: Statement,
+  depth: number,
+  style: Style,
+): string {
+  const pad = style.indent.repeat(depth)
+  const header = formatHeaderTag(node, pad, style)
+  const { body } = node as Statement & { body: Statement[] }
+  // Assignments like `{% set x = 1 %}` have no body or closing tag
+  if (node.type === "Set" && (node as SetStatement).value) {
+    return header
   }
-  let out =
-    pad +
-    createStatement(
-      "for",
-      formatExpression(node.loopvar),
-      "in",
-      formattedIterable,
-    ) +
-    NEWLINE +
-    formatStatements(node.body, depth + 1, indentStr)
 
-  if (node.defaultBlock.length > 0) {
+  let out = header + NEWLINE
+  if (body.length > 0 || !["Block", "With"].includes(node.type)) {
+    out += formatStatements(body, depth + 1, style) + NEWLINE
+  }
+  if (node.type === "For" && (node as For).defaultBlock.length > 0) {
     out +=
-      NEWLINE +
       pad +
-      createStatement("else") +
+      createStatement(style, "else") +
       NEWLINE +
-      formatStatements(node.defaultBlock, depth + 1, indentStr)
+      formatStatements((node as For).defaultBlock, depth + 1, style) +
+      NEWLINE
   }
-
-  out += NEWLINE + pad + createStatement("endfor")
+  // Blocks may repeat their name, e.g. `{% endblock content %}`
+  const endName = (node as Block).endName
+  out +=
+    pad +
+    createStatement(
+      style,
+      getEndName(node),
+      ...(endName ? [endName.value] : []),
+    )
   return out
 }
 
-function formatSet(
-  node: SetStatement,
-  depth: number,
-  indentStr: string,
-): string {
-  const pad = indentStr.repeat(depth)
-  const left = formatExpression(node.assignee)
-  const right = node.value ? formatExpression(node.value) : ""
-
-  const value =
-    pad + createStatement("set", `${left}${node.value ? " = " + right : ""}`)
-  if (node.body.length === 0) {
-    return value
+/**
+ * The name of the tag closing a statement, e.g. `endfor`.
+ */
+function getEndName(node: Statement): string {
+  switch (node.type) {
+    case "CallStatement":
+      return "endcall"
+    case "FilterStatement":
+      return "endfilter"
+    default:
+      return "end" + node.type.toLowerCase()
   }
+}
+
+function formatRaw(node: Raw, depth: number, style: Style): string {
+  const pad = style.indent.repeat(depth)
+  // The content of raw blocks is kept as is, so its whitespace isn't trimmed
+  const content = node.body
+    .map((stmt) => (stmt as StringLiteral).value)
+    .join("")
   return (
-    value +
-    NEWLINE +
-    formatStatements(node.body, depth + 1, indentStr) +
-    NEWLINE +
     pad +
-    createStatement("endset")
+    createTag(OPEN_STATEMENT, ["raw"], "%}", style) +
+    content +
+    createTag("{%", ["endraw"], CLOSE_STATEMENT, style)
   )
 }
 
-function formatMacro(node: Macro, depth: number, indentStr: string): string {
-  const pad = indentStr.repeat(depth)
-  const args = node.args.map(formatExpression).join(", ")
+function formatTrans(node: Trans, depth: number, style: Style): string {
+  const pad = style.indent.repeat(depth)
+
+  // The body is the translated message, so its text and whitespace are kept as is
+  const transStatement = (...text: string[]) =>
+    createTag("{%", text, "%}", style)
+  const formatBody = (body: Statement[]) =>
+    body
+      .map((stmt) =>
+        stmt.type === "Identifier"
+          ? createTag("{{", [(stmt as Identifier).value], "}}", style)
+          : stmt.type === "Comment"
+            ? `{# ${(stmt as Comment).value} #}`
+            : (stmt as StringLiteral).value,
+      )
+      .join("")
+
+  let out =
+    pad + transStatement(...formatHeader(node, style)) + formatBody(node.body)
+  if (node.pluralize) {
+    out += transStatement(
+      ...(node.pluralize.count
+        ? ["pluralize", node.pluralize.count.value]
+        : ["pluralize"]),
+    )
+    out += formatBody(node.pluralize.body)
+  }
+  out += transStatement("endtrans")
+  return out
+}
+
+/**
+ * The edits formatting the tags of a template while keeping everything between them as written (see the
+ * `preserveText` option of {@link format}), in order and with offsets into its source.
+ */
+export function formatEdits(
+  program: Program,
+  indent: string | number = "\t",
+  options: FormatOptions = {},
+): TextEdit[] {
+  const source = program.source
+  if (source === undefined) {
+    throw new Error("Formatting while preserving text needs the source")
+  }
+  const style = resolveStyle(indent, options)
+  const edits: TextEdit[] = []
+
+  /**
+   * The formatted line up to an offset, which starts in the text of an earlier edit when that edit wrapped a tag.
+   * Edits are added in order, so the ones before the offset are already known.
+   */
+  const getLinePrefix = (offset: number) => {
+    let prefix = ""
+    let end = offset
+    for (let i = edits.length - 1; i >= 0; --i) {
+      const edit = edits[i]
+      const newline = source.lastIndexOf("\n", end - 1)
+      if (newline >= edit.end) {
+        return source.slice(newline + 1, end) + prefix
+      }
+      prefix = source.slice(edit.end, end) + prefix
+      const editNewline = edit.text.lastIndexOf("\n")
+      if (editNewline !== -1) {
+        return edit.text.slice(editNewline + 1) + prefix
+      }
+      prefix = edit.text + prefix
+      end = edit.start
+    }
+    return source.slice(source.lastIndexOf("\n", end - 1) + 1, end) + prefix
+  }
+
+  const addTag = (
+    open: TokenNode | undefined,
+    close: TokenNode | undefined,
+    getWords: (wrapPad?: string) => string[],
+    depth?: number,
+  ) => {
+    // Line statements end at the end of their line, so they're kept as written
+    if (!open || !close || close.value === "" || close.value === ":") {
+      return
+    }
+    // The indentation of a tag on its own line can only change when whitespace control removes it
+    const lineStart = source.lastIndexOf("\n", open.start - 1) + 1
+    const linePrefix = getLinePrefix(open.start)
+    let pad = linePrefix.match(/^[ \t]*/)[0]
+    let column = linePrefix.length
+    const stripped = open.value.endsWith("-")
+      ? true
+      : !open.value.endsWith("+") && options.lstripBlocks
+    if (depth !== undefined && stripped && pad.length === column) {
+      pad = style.indent.repeat(depth)
+      column = pad.length
+      edits.push({ start: lineStart, end: open.start, text: pad })
+    }
+
+    let text = createTag(open.value, getWords(), close.value, style)
+    if (column + text.length > style.printWidth) {
+      text = createTag(open.value, getWords(pad), close.value, style)
+    }
+    edits.push({ start: open.start, end: close.end, text })
+  }
+
+  const visit = (node: Statement, depth: number) => {
+    switch (node.type) {
+      case "Comment":
+      case "ErrorNode":
+      case "MissingNode":
+        return
+      case "StringLiteral":
+        if (isText(node)) {
+          return
+        }
+    }
+    const getHeader = (wrapPad?: string) => formatHeader(node, style, wrapPad)
+    if (node.openToken?.type !== TOKEN_TYPES.OpenStatement) {
+      addTag(node.openToken, node.closeToken, getHeader)
+      return
+    }
+
+    const closeToken =
+      node.type === "If" ? (node as If).test.closeToken : node.closeToken
+    addTag(node.openToken, closeToken, getHeader, depth)
+    switch (node.type) {
+      case "If": {
+        const n = node as If
+        n.body.forEach((stmt) => visit(stmt, depth + 1))
+        if (n.alternate[0]?.identifier?.value === "elif") {
+          visit(n.alternate[0], depth)
+        } else {
+          addTag(n.elseOpenToken, n.elseCloseToken, () => ["else"], depth)
+          n.alternate.forEach((stmt) => visit(stmt, depth + 1))
+        }
+        break
+      }
+      case "For": {
+        const n = node as For
+        n.body.forEach((stmt) => visit(stmt, depth + 1))
+        addTag(n.elseOpenToken, n.elseCloseToken, () => ["else"], depth)
+        n.defaultBlock.forEach((stmt) => visit(stmt, depth + 1))
+        break
+      }
+      case "Raw":
+      case "Trans":
+        // Their body is kept as written
+        break
+      default:
+        ;(node as Statement & { body?: Statement[] }).body?.forEach((stmt) =>
+          visit(stmt, depth + 1),
+        )
+    }
+    const closerIdentifier = node.closerIdentifier
+    if (closerIdentifier) {
+      const endName = (node as Block).endName
+      addTag(
+        node.closerOpenToken,
+        node.closerCloseToken,
+        () =>
+          endName
+            ? [closerIdentifier.value, endName.value]
+            : [closerIdentifier.value],
+        depth,
+      )
+    }
+  }
+  program.body.forEach((stmt) => visit(stmt, 0))
+
+  return edits
+    .sort((a, b) => a.start - b.start)
+    .filter((edit) => source.slice(edit.start, edit.end) !== edit.text)
+}
+
+/**
+ * Items between brackets, one per line after the given indentation when it's set.
+ */
+function formatList(
+  brackets: string,
+  items: string[],
+  style: Style,
+  wrapPad?: string,
+  trailingComma = style.trailingComma,
+): string {
+  if (wrapPad === undefined || items.length === 0) {
+    return brackets[0] + items.join(", ") + brackets[1]
+  }
+  const itemPad = NEWLINE + wrapPad + style.indent
   return (
-    pad +
-    createStatement("macro", `${node.name.value}(${args})`) +
-    NEWLINE +
-    formatStatements(node.body, depth + 1, indentStr) +
+    brackets[0] +
+    itemPad +
+    items.join("," + itemPad) +
+    (trailingComma ? "," : "") +
     NEWLINE +
-    pad +
-    createStatement("endmacro")
+    wrapPad +
+    brackets[1]
   )
 }
 
-function formatCallStatement(
-  node: CallStatement,
-  depth: number,
-  indentStr: string,
-): string {
-  const pad = indentStr.repeat(depth)
-  const params =
-    node.callerArgs && node.callerArgs.length > 0
-      ? `(${node.callerArgs.map(formatExpression).join(", ")})`
-      : ""
-  const callExpr = formatExpression(node.call)
-  let out = pad + createStatement(`call${params}`, callExpr) + NEWLINE
-  out += formatStatements(node.body, depth + 1, indentStr) + NEWLINE
-  out += pad + createStatement("endcall")
-  return out
+/**
+ * Format an expression over several lines, breaking its filter chain or the arguments or items of a call or literal.
+ */
+function formatWrapped(node: Expression, style: Style, pad: string): string {
+  switch (node.type) {
+    case "FilterExpression": {
+      const filters: string[] = []
+      let operand: Expression = node
+      while (operand.type === "FilterExpression") {
+        const n = operand as FilterExpression
+        filters.unshift(printFilter(n, style))
+        operand = n.operand
+      }
+      return (
+        printExpression(operand, style, FILTER_PRECEDENCE) +
+        filters
+          .map((filter) => NEWLINE + pad + style.indent + "| " + filter)
+          .join("")
+      )
+    }
+    case "CallExpression": {
+      const n = node as CallExpression
+      const callee = printExpression(n.callee, style)
+      return (
+        (isPostfixOperand(n.callee) ? callee : `(${callee})`) +
+        formatList(
+          "()",
+          n.args.map((arg) => printExpression(arg, style)),
+          style,
+          pad,
+        )
+      )
+    }
+    case "ArrayLiteral":
+    case "TupleLiteral": {
+      const items = (node as ArrayLiteral | TupleLiteral).value.map((item) =>
+        printExpression(item, style),
+      )
+      // Tuples can't end with a trailing comma
+      return node.type === "ArrayLiteral"
+        ? formatList("[]", items, style, pad)
+        : formatList("()", items, style, pad, false)
+    }
+    case "ObjectLiteral": {
+      const entries = Array.from((node as ObjectLiteral).value.entries()).map(
+        ([k, v]) =>
+          `${printExpression(k, style)}: ${printExpression(v, style)}`,
+      )
+      return formatList("{}", entries, style, pad)
+    }
+    default:
+      return printExpression(node, style)
+  }
 }
 
-function formatFilterStatement(
-  node: FilterStatement,
-  depth: number,
-  indentStr: string,
-): string {
-  const pad = indentStr.repeat(depth)
-  const spec =
-    node.filter.type === "Identifier"
-      ? (node.filter as Identifier).value
-      : formatExpression(node.filter as CallExpression)
-  let out = pad + createStatement("filter", spec) + NEWLINE
-  out += formatStatements(node.body, depth + 1, indentStr) + NEWLINE
-  out += pad + createStatement("endfilter")
-  return out
+function printFilter(node: FilterExpression, style: Style): string {
+  return node.filter.type === "CallExpression"
+    ? printExpression(node.filter, style)
+    : (node.filter as Identifier).value
+}
+
+function printString(value: string, style: Style): string {
+  const json = JSON.stringify(value)
+  if (style.quoteStyle === "double") {
+    return json
+  }
+  // Unescape double quotes and escape single quotes instead
+  const escaped = json
+    .slice(1, -1)
+    .replace(/\\.|'/g, (match) =>
+      match === '\\"' ? '"' : match === "'" ? "\\'" : match,
+    )
+  return `'${escaped}'`
 }
 
 export function formatExpression(
   node: Expression,
+  style: FormatStyle = {},
+): string {
+  return printExpression(node, resolveStyle("\t", style))
+}
+
+function printExpression(
+  node: Expression,
+  style: Style,
   parentPrec: number = -1,
 ): string {
+  const print = (expr: Expression, prec?: number) =>
+    printExpression(expr, style, prec)
   switch (node.type) {
     case "SpreadExpression": {
       const n = node as SpreadExpression
-      return `*${formatExpression(n.argument)}`
+      return `*${print(n.argument)}`
     }
     case "Identifier":
       return (node as Identifier).value
@@ -276,48 +831,48 @@ export function formatExpression(
     case "FloatLiteral":
       return `${(node as FloatLiteral).value}`
     case "StringLiteral":
-      return JSON.stringify((node as StringLiteral).value)
+      return printString((node as StringLiteral).value, style)
     case "BinaryExpression": {
       const n = node as BinaryExpression
       const thisPrecedence = getBinaryOperatorPrecedence(n)
-      const left = formatExpression(n.left, thisPrecedence)
-      const right = formatExpression(n.right, thisPrecedence + 1)
-      const expr = `${left} ${n.operator.value} ${right}`
+      const left = print(n.left, thisPrecedence)
+      const right = print(n.right, thisPrecedence + 1)
+      const expr =
+        n.operator.value === "~" && !style.tildeSpacing
+          ? `${left}~${right}`
+          : `${left} ${n.operator.value} ${right}`
       return thisPrecedence < parentPrec ? `(${expr})` : expr
     }
     case "UnaryExpression": {
       const n = node as UnaryExpression
+      // Binary operands are wrapped for readability, e.g. `not (a == b)`, but not chained negations
       const val =
         n.operator.value +
         (n.operator.value === "not" ? " " : "") +
-        formatExpression(n.argument, Infinity)
-      return val
+        print(
+          n.argument,
+          n.argument.type === "UnaryExpression"
+            ? NOT_PRECEDENCE
+            : TEST_PRECEDENCE,
+        )
+      return NOT_PRECEDENCE < parentPrec ? `(${val})` : val
     }
     case "CallExpression": {
       const n = node as CallExpression
-      const args = n.args.map(formatExpression).join(", ")
-      return `${formatExpression(n.callee)}(${args})`
+      const args = n.args.map((arg) => print(arg)).join(", ")
+      const callee = print(n.callee)
+      return isPostfixOperand(n.callee)
+        ? `${callee}(${args})`
+        : `(${callee})(${args})`
     }
     case "MemberExpression": {
       const n = node as MemberExpression
-      let obj = formatExpression(n.object)
+      let obj = print(n.object)
       // only wrap if it's not a simple or chained access/call
-      if (
-        ![
-          "Identifier",
-          "MemberExpression",
-          "CallExpression",
-          "StringLiteral",
-          "IntegerLiteral",
-          "FloatLiteral",
-          "ArrayLiteral",
-          "TupleLiteral",
-          "ObjectLiteral",
-        ].includes(n.object.type)
-      ) {
+      if (!isPostfixOperand(n.object)) {
         obj = `(${obj})`
       }
-      let prop = formatExpression(n.property)
+      let prop = print(n.property)
       if (!n.computed && n.property.type !== "Identifier") {
         prop = `(${prop})`
       }
@@ -325,56 +880,51 @@ export function formatExpression(
     }
     case "FilterExpression": {
       const n = node as FilterExpression
-      const operand = formatExpression(n.operand, Infinity)
-      if (n.filter.type === "CallExpression") {
-        return `${operand} | ${formatExpression(n.filter)}`
-      }
-      return `${operand} | ${(n.filter as Identifier).value}`
+      const expr = `${print(n.operand, FILTER_PRECEDENCE)} | ${printFilter(n, style)}`
+      return FILTER_PRECEDENCE < parentPrec ? `(${expr})` : expr
     }
     case "SelectExpression": {
       const n = node as SelectExpression
-      return `${formatExpression(n.lhs)} if ${formatExpression(n.test)}`
+      return `${print(n.lhs)} if ${print(n.test)}`
     }
     case "TestExpression": {
       const n = node as TestExpression
-      if (!(n.test instanceof Identifier)) {
-        throw new Error("Unsupported in format")
-      }
-      return `${formatExpression(n.operand)} is${n.negate ? " not" : ""} ${
-        n.test.value
-      }`
+      const test = n.test instanceof Identifier ? n.test.value : print(n.test)
+      const expr = `${print(n.operand, TEST_PRECEDENCE)} is${n.negate ? " not" : ""} ${test}`
+      return TEST_PRECEDENCE < parentPrec ? `(${expr})` : expr
     }
     case "ArrayLiteral":
     case "TupleLiteral": {
       const elems = (
         (node as ArrayLiteral | TupleLiteral).value as Expression[]
-      ).map(formatExpression)
+      ).map((elem) => print(elem))
       const brackets = node.type === "ArrayLiteral" ? "[]" : "()"
       return `${brackets[0]}${elems.join(", ")}${brackets[1]}`
     }
     case "ObjectLiteral": {
       const entries = Array.from((node as ObjectLiteral).value.entries()).map(
-        ([k, v]) => `${formatExpression(k)}: ${formatExpression(v)}`,
+        ([k, v]) => `${print(k)}: ${print(v)}`,
       )
       return `{${entries.join(", ")}}`
     }
     case "SliceExpression": {
       const n = node as SliceExpression
-      const s = n.start ? formatExpression(n.start) : ""
-      const t = n.stop ? formatExpression(n.stop) : ""
-      const st = n.step ? `:${formatExpression(n.step)}` : ""
+      const s = n.start ? print(n.start) : ""
+      const t = n.stop ? print(n.stop) : ""
+      const st = n.step ? `:${print(n.step)}` : ""
       return `${s}:${t}${st}`
     }
     case "KeywordArgumentExpression": {
       const n = node as KeywordArgumentExpression
-      return `${n.key.value}=${formatExpression(n.value)}`
+      return `${n.key.value}=${print(n.value)}`
     }
     case "Ternary": {
       const n = node as Ternary
-      const expr = `${formatExpression(n.trueExpr)} if ${formatExpression(
+      // Conditional expressions can only be chained in their false branch without parentheses
+      const expr = `${print(n.trueExpr, 0)} if ${print(
         n.condition,
         0,
-      )} else ${formatExpression(n.falseExpr)}`
+      )} else ${print(n.falseExpr)}`
       return parentPrec > -1 ? `(${expr})` : expr
     }
     default:
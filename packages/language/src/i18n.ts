@@ -0,0 +1,43 @@
+/**
+ * Translates the messages of trans blocks and of the gettext globals, like Python's `gettext.GNUTranslations`.
+ */
+export interface Translations {
+  gettext(message: string): string
+  ngettext(singular: string, plural: string, n: number): string
+  pgettext?(context: string, message: string): string
+  npgettext?(
+    context: string,
+    singular: string,
+    plural: string,
+    n: number,
+  ): string
+}
+
+/**
+ * Returns the messages untranslated, like Python's `gettext.NullTranslations`.
+ */
+export const NULL_TRANSLATIONS: Required<Translations> = {
+  gettext: (message) => message,
+  ngettext: (singular, plural, n) => (n === 1 ? singular : plural),
+  pgettext: (_context, message) => message,
+  npgettext: (_context, singular, plural, n) => (n === 1 ? singular : plural),
+}
+
+/**
+ * Translate a message, falling back to ignoring the context if the translations don't support it.
+ */
+export function translate(
+  translations: Translations,
+  context: string | undefined,
+  singular: string,
+  plural?: { message: string; n: number },
+): string {
+  if (plural === undefined) {
+    return context !== undefined && translations.pgettext
+      ? translations.pgettext(context, singular)
+      : translations.gettext(singular)
+  }
+  return context !== undefined && translations.npgettext
+    ? translations.npgettext(context, singular, plural.message, plural.n)
+    : translations.ngettext(singular, plural.message, plural.n)
+}
@@ -0,0 +1,318 @@
+import type { ErrorNode, Statement } from "./ast"
+import { MissingNode, Program, TokenNode } from "./ast"
+import type {
+  LexerCheckpoint,
+  LexerError,
+  PreprocessOptions,
+  Token,
+} from "./lexer"
+import { tokenizeWithCheckpoints } from "./lexer"
+import type { ParsedStatement } from "./parser"
+import { parseStatements } from "./parser"
+import { attachTrivia, getTrailingTrivia } from "./trivia"
+
+/**
+ * A change of the source, with offsets into the source as it was before the change.
+ */
+export interface TextEdit {
+  start: number
+  end: number
+  text: string
+}
+
+/**
+ * A parsed source, which can be updated after it changes using `reparseDocument`.
+ */
+export interface ParsedDocument {
+  source: string
+  options: PreprocessOptions
+  program: Program
+  tokens: TokenNode[]
+  lexerErrors: LexerError[]
+  parserErrors: ErrorNode[]
+  checkpoints: LexerCheckpoint[]
+  statements: ParsedStatement[]
+  /** The source after the last token, see `printDocument`. */
+  trailingTrivia: string
+}
+
+/**
+ * The top-level statements which were replaced when reparsing a document.
+ */
+export interface DocumentChange {
+  /** The index in the program body of the first replaced statement. */
+  index: number
+  removed: Statement[]
+  added: Statement[]
+}
+
+/**
+ * Returns the index of the first item matching the predicate, assuming every item after it matches as well.
+ */
+function partitionPoint<T>(items: T[], predicate: (item: T) => boolean) {
+  let low = 0
+  let high = items.length
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2)
+    if (predicate(items[middle])) {
+      high = middle
+    } else {
+      low = middle + 1
+    }
+  }
+  return low
+}
+
+/**
+ * Combine consecutive edits into a single changed range.
+ */
+function mergeEdits(edits: TextEdit[]) {
+  let region: { start: number; oldEnd: number; newEnd: number } | undefined
+  for (const edit of edits) {
+    const delta = edit.text.length - (edit.end - edit.start)
+    if (region === undefined) {
+      region = { start: edit.start, oldEnd: edit.end, newEnd: edit.end + delta }
+      continue
+    }
+    // The edit is relative to the source after the previous edits
+    const end = Math.max(region.newEnd, edit.end)
+    region = {
+      start: Math.min(region.start, edit.start),
+      oldEnd: region.oldEnd + end - region.newEnd,
+      newEnd: end + delta,
+    }
+  }
+  return region
+}
+
+function createProgram(statements: ParsedStatement[], source: string) {
+  const program = new Program([])
+  program.source = source
+  for (const { node } of statements) {
+    program.body.push(node)
+    program.addChild(node)
+  }
+  return program
+}
+
+function isSameToken(a: Token | undefined, b: Token | undefined) {
+  return a?.type === b?.type && a?.value === b?.value
+}
+
+/**
+ * Tokenize and parse a source, keeping the information needed to reparse it incrementally.
+ */
+export function parseDocument(
+  source: string,
+  options: PreprocessOptions = {},
+): ParsedDocument {
+  const { tokens, errors, checkpoints } = tokenizeWithCheckpoints(
+    source,
+    options,
+  )
+  const tokenNodes = tokens.map((token) => new TokenNode(token))
+  attachTrivia(tokenNodes, source)
+  const { statements } = parseStatements(tokenNodes)
+  return {
+    source,
+    options,
+    program: createProgram(statements, source),
+    tokens: tokenNodes,
+    lexerErrors: errors,
+    parserErrors: statements.flatMap((statement) => statement.errors),
+    checkpoints,
+    statements,
+    trailingTrivia: getTrailingTrivia(tokenNodes, source),
+  }
+}
+
+/**
+ * Update a parsed document after its source was edited, lexing and parsing only the top-level statements around the edits.
+ * Tokens, errors and statements after the edits are reused, so the previous document must not be used afterwards.
+ * @param edits The edits (in order) which turned the previous source into the given one.
+ */
+export function reparseDocument(
+  previous: ParsedDocument,
+  source: string,
+  edits: TextEdit[],
+): { document: ParsedDocument; change: DocumentChange } {
+  const region = mergeEdits(edits)
+  if (
+    region === undefined ||
+    region.start > region.oldEnd ||
+    region.oldEnd > previous.source.length ||
+    previous.checkpoints.length === 0 ||
+    source.length !== previous.source.length + region.newEnd - region.oldEnd ||
+    source.slice(0, region.start) !== previous.source.slice(0, region.start) ||
+    source.slice(region.newEnd) !== previous.source.slice(region.oldEnd)
+  ) {
+    if (source === previous.source) {
+      return {
+        document: previous,
+        change: { index: 0, removed: [], added: [] },
+      }
+    }
+    // The edits don't describe the change, so reparse everything
+    const document = parseDocument(source, previous.options)
+    return {
+      document,
+      change: {
+        index: 0,
+        removed: previous.program.body,
+        added: document.program.body,
+      },
+    }
+  }
+  const delta = region.newEnd - region.oldEnd
+  const { checkpoints, statements } = previous
+
+  // The lexer may have looked at the character following a checkpoint, so resume from one strictly before the edit
+  const restartIndex = Math.max(
+    0,
+    partitionPoint(checkpoints, (c) => c.position >= region.start) - 1,
+  )
+  const restart = checkpoints[restartIndex]
+  let resyncIndex: number | undefined = undefined
+  const lexed = tokenizeWithCheckpoints(
+    source,
+    previous.options,
+    {
+      tokens: previous.tokens
+        .slice(0, restart.tokenIndex)
+        .map((node) => node.token),
+      errors: previous.lexerErrors.slice(0, restart.errorIndex),
+      checkpoint: restart,
+    },
+    (checkpoint, tokens) => {
+      if (checkpoint.position <= region.newEnd) {
+        return false
+      }
+      // Stop once the lexer reaches the same state as before at the same (shifted) position
+      const index = partitionPoint(
+        checkpoints,
+        (c) => c.position >= checkpoint.position - delta,
+      )
+      const old = checkpoints[index]
+      if (
+        old?.position === checkpoint.position - delta &&
+        old.tokenStart === checkpoint.tokenStart - delta &&
+        old.curlyBracketDepth === checkpoint.curlyBracketDepth &&
+        isSameToken(tokens.at(-1), previous.tokens[old.tokenIndex - 1]?.token)
+      ) {
+        resyncIndex = index
+        return true
+      }
+      return false
+    },
+  )
+
+  const tokens = previous.tokens
+    .slice(0, restart.tokenIndex)
+    .concat(
+      lexed.tokens
+        .slice(restart.tokenIndex)
+        .map((token) => new TokenNode(token)),
+    )
+  const lexerErrors = lexed.errors
+  const newCheckpoints = checkpoints
+    .slice(0, restartIndex)
+    .concat(lexed.checkpoints)
+  const resync = checkpoints[resyncIndex]
+  const stop = lexed.stoppedAt
+  const tokenDelta = resync ? stop.tokenIndex - resync.tokenIndex : 0
+  if (resync) {
+    for (const node of previous.tokens.slice(resync.tokenIndex)) {
+      node.token.start += delta
+      node.token.end += delta
+      tokens.push(node)
+    }
+    for (const error of previous.lexerErrors.slice(resync.errorIndex)) {
+      error.start += delta
+      error.end += delta
+      lexerErrors.push(error)
+    }
+    const errorDelta = stop.errorIndex - resync.errorIndex
+    for (const checkpoint of checkpoints.slice(resyncIndex)) {
+      newCheckpoints.push({
+        tokenIndex: checkpoint.tokenIndex + tokenDelta,
+        errorIndex: checkpoint.errorIndex + errorDelta,
+        position: checkpoint.position + delta,
+        tokenStart: checkpoint.tokenStart + delta,
+        curlyBracketDepth: checkpoint.curlyBracketDepth,
+      })
+    }
+  }
+
+  // The trivia of the first reused token depends on the relexed tokens
+  attachTrivia(
+    tokens,
+    source,
+    restart.tokenIndex,
+    Math.min(tokens.length, lexed.tokens.length + 1),
+  )
+
+  // Statements which ended before the first relexed token are kept, as the parser looks at most one token ahead
+  const statementIndex = partitionPoint(
+    statements,
+    (statement) => statement.end >= restart.tokenIndex,
+  )
+  let resyncStatementIndex: number | undefined = undefined
+  const parsed = parseStatements(
+    tokens,
+    statements[statementIndex]?.start ?? restart.tokenIndex,
+    (current) => {
+      if (resync === undefined || current < stop.tokenIndex) {
+        return false
+      }
+      // Stop once the parser reaches the (shifted) start of a previous top-level statement
+      const index = partitionPoint(
+        statements,
+        (statement) => statement.start >= current - tokenDelta,
+      )
+      if (statements[index]?.start === current - tokenDelta) {
+        resyncStatementIndex = index
+        return true
+      }
+      return false
+    },
+  )
+
+  const reused =
+    resyncStatementIndex === undefined
+      ? []
+      : statements.slice(resyncStatementIndex)
+  for (const statement of reused) {
+    statement.start += tokenDelta
+    statement.end += tokenDelta
+    for (const error of statement.errors) {
+      if (error instanceof MissingNode) {
+        error.offset += delta
+      }
+    }
+  }
+  const newStatements = statements
+    .slice(0, statementIndex)
+    .concat(parsed.statements, reused)
+
+  return {
+    document: {
+      source,
+      options: previous.options,
+      program: createProgram(newStatements, source),
+      tokens,
+      lexerErrors,
+      parserErrors: newStatements.flatMap((statement) => statement.errors),
+      checkpoints: newCheckpoints,
+      statements: newStatements,
+      trailingTrivia: getTrailingTrivia(tokens, source),
+    },
+    change: {
+      index: statementIndex,
+      removed: previous.program.body.slice(
+        statementIndex,
+        resyncStatementIndex,
+      ),
+      added: parsed.statements.map((statement) => statement.node),
+    },
+  }
+}
@@ -12,55 +12,301 @@
  */
 import type { Program } from "./ast"
 import * as ast from "./ast"
-import { format, formatExpression } from "./format"
-import { LexerError, tokenize } from "./lexer"
+import type { CompiledTemplate } from "./compiler"
+import { compile } from "./compiler"
+import type { SourceLocation } from "./errors"
+import {
+  TemplateError,
+  TemplateNotFound,
+  TemplateRuntimeError,
+  UndefinedError,
+} from "./errors"
+import type { FormatOptions, FormatStyle } from "./format"
+import { format, formatEdits, formatExpression } from "./format"
+import type { Translations } from "./i18n"
+import { NULL_TRANSLATIONS } from "./i18n"
+import type { DocumentChange, ParsedDocument, TextEdit } from "./incremental"
+import { parseDocument, reparseDocument } from "./incremental"
+import type { PreprocessOptions } from "./lexer"
+import { DEFAULT_DELIMITERS, LexerError, tokenize } from "./lexer"
+import type { TemplateLoader } from "./loaders"
+import { FileSystemLoader, InMemoryLoader } from "./loaders"
 import { parse } from "./parser"
-import type { StringValue } from "./runtime"
-import { Environment, Interpreter, setupGlobals } from "./runtime"
+import type { SandboxOptions } from "./sandbox"
+import { isSafeAttribute, MAX_RANGE, SecurityError } from "./sandbox"
+import { printDocument, printTokens } from "./trivia"
+import type {
+  CallableOptions,
+  Filter,
+  Parameter,
+  StringValue,
+  Test,
+  UndefinedBehavior,
+} from "./runtime"
+import { Context, Environment, Interpreter, setupGlobals } from "./runtime"
+import { escapeRegExp } from "./utils"
+
+export interface TemplateOptions extends PreprocessOptions {
+  /**
+   * The name of the template, shown in the locations of runtime errors.
+   */
+  name?: string
+  /**
+   * The loader used to find included, imported and extended templates.
+   */
+  loader?: TemplateLoader
+  /**
+   * Whether to escape the output of expressions for HTML, like Jinja's `autoescape` option.
+   */
+  autoescape?: boolean
+  /**
+   * The translations used by trans blocks and the gettext globals of the i18n extension.
+   */
+  translations?: Translations
+  /**
+   * How undefined variables and attributes behave, like Jinja's `undefined` option. Defaults to `default`.
+   */
+  undefinedBehavior?: UndefinedBehavior
+  /**
+   * Render untrusted templates in a sandbox with these limits, like Jinja's `SandboxedEnvironment`.
+   */
+  sandbox?: SandboxOptions
+  /**
+   * Whether `render` compiles the template to a JavaScript function the first time, which renders it faster
+   * afterwards. Defaults to true. Sandboxed templates, async and streaming renders are interpreted.
+   */
+  compile?: boolean
+}
+
+export interface RenderOptions {
+  /**
+   * Overrides the undefined behavior of the template for this render.
+   */
+  undefinedBehavior?: UndefinedBehavior
+}
 
 export class Template {
   parsed: Program
+  options: PreprocessOptions
+  loader?: TemplateLoader
+  autoescape: boolean
+  translations?: Translations
+  undefinedBehavior: UndefinedBehavior
+  sandbox?: SandboxOptions
+  compile: boolean
+
+  /**
+   * The function rendering the template, compiled on the first render.
+   */
+  private compiled?: CompiledTemplate
+
+  /**
+   * Add the custom filters, tests and globals to the environment of each render.
+   */
+  private setup: ((env: Environment) => void)[] = []
 
   /**
    * @param {string} template The template string
+   * @param {TemplateOptions} options Lexer options, e.g. custom delimiters, and the template loader
    */
-  constructor(template: string) {
-    const tokens = tokenize(template, {
+  constructor(
+    template: string,
+    {
+      name,
+      loader,
+      autoescape = false,
+      translations,
+      undefinedBehavior = "default",
+      sandbox,
+      compile = true,
+      ...options
+    }: TemplateOptions = {},
+  ) {
+    this.options = {
       lstrip_blocks: true,
       trim_blocks: true,
-    })
+      ...options,
+    }
+    this.loader = loader
+    this.autoescape = autoescape
+    this.translations = translations
+    this.undefinedBehavior = undefinedBehavior
+    this.sandbox = sandbox
+    this.compile = compile
+    const tokens = tokenize(template, this.options)
     this.parsed = parse(tokens, false)
+    this.parsed.name = name
+    this.parsed.source = template
   }
 
-  render(items?: Record<string, unknown>): string {
+  render(items?: Record<string, unknown>, options?: RenderOptions): string {
+    if (this.compile) {
+      this.compiled ??= compile(this.parsed)
+      return this.compiled(this.createContext(items, options))
+    }
+    const interpreter = new Interpreter(this.createContext(items, options))
+
+    const result = interpreter.run(this.parsed) as StringValue
+    return result.value
+  }
+
+  /**
+   * Render the template, waiting for the promises returned by globals, filters, tests and methods, and for
+   * the async iterables they return, like Jinja's `render_async`.
+   */
+  async renderAsync(
+    items?: Record<string, unknown>,
+    options?: RenderOptions,
+  ): Promise<string> {
+    const interpreter = new Interpreter(this.createContext(items, options))
+
+    const result = await interpreter.runAsync(this.parsed)
+    return result.value
+  }
+
+  /**
+   * Render the template in chunks produced as it's rendered, like Jinja's `Template.generate`.
+   * The output of blocks and includes is produced as they go, and the output of macro calls once they return.
+   */
+  generate(
+    items?: Record<string, unknown>,
+    options?: RenderOptions,
+  ): Generator<string, void, undefined> {
+    const interpreter = new Interpreter(this.createContext(items, options))
+    return interpreter.generate(this.parsed)
+  }
+
+  /**
+   * Render the template in chunks like {@link generate}, waiting for promises like {@link renderAsync}.
+   */
+  generateAsync(
+    items?: Record<string, unknown>,
+    options?: RenderOptions,
+  ): AsyncGenerator<string, void, undefined> {
+    const interpreter = new Interpreter(this.createContext(items, options))
+    return interpreter.generateAsync(this.parsed)
+  }
+
+  private createContext(
+    items?: Record<string, unknown>,
+    { undefinedBehavior = this.undefinedBehavior }: RenderOptions = {},
+  ): Environment {
     // Create a new environment for this template
     const env = new Environment()
+    env.loader = this.loader
+    env.options = this.options
+    env.autoescape = this.autoescape
+    env.translations = this.translations
+    env.undefinedBehavior = undefinedBehavior
+    env.sandbox = this.sandbox
     setupGlobals(env)
+    for (const setup of this.setup) {
+      setup(env)
+    }
 
-    // Add user-defined variables
+    // Add user-defined variables, which templates imported without context can't access
+    const context = new Environment(env)
     if (items) {
       for (const [key, value] of Object.entries(items)) {
-        env.set(key, value)
+        context.set(key, value)
       }
     }
+    return context
+  }
 
-    const interpreter = new Interpreter(env)
+  /**
+   * Add a filter to the renders of this template, see {@link Environment.addFilter}.
+   */
+  addFilter(
+    name: string,
+    filter: (...args: never[]) => unknown,
+    options?: CallableOptions,
+  ): this {
+    this.setup.push((env) => env.addFilter(name, filter, options))
+    return this
+  }
 
-    const result = interpreter.run(this.parsed) as StringValue
-    return result.value
+  /**
+   * Add a test to the renders of this template, see {@link Environment.addTest}.
+   */
+  addTest(
+    name: string,
+    test: (...args: never[]) => unknown,
+    options?: CallableOptions,
+  ): this {
+    this.setup.push((env) => env.addTest(name, test, options))
+    return this
   }
 
-  format(options?: { indent: string | number }): string {
-    return format(this.parsed, options?.indent || "\t")
+  /**
+   * Add a global variable or function to the renders of this template, see {@link Environment.addGlobal}.
+   */
+  addGlobal(name: string, value: unknown, options?: CallableOptions): this {
+    this.setup.push((env) => env.addGlobal(name, value, options))
+    return this
+  }
+
+  /**
+   * Format the template, see {@link format}. With `preserveText`, only the inside of its tags is formatted so that it
+   * renders the same.
+   */
+  format(
+    options?: FormatStyle & {
+      indent?: string | number
+      preserveText?: boolean
+    },
+  ): string {
+    return format(this.parsed, options?.indent || "\t", {
+      ...options,
+      lstripBlocks: this.options.lstrip_blocks,
+    })
   }
 }
 
+export type {
+  CallableOptions,
+  CompiledTemplate,
+  DocumentChange,
+  Filter,
+  FormatOptions,
+  FormatStyle,
+  Parameter,
+  ParsedDocument,
+  PreprocessOptions,
+  SandboxOptions,
+  SourceLocation,
+  TemplateLoader,
+  Test,
+  TextEdit,
+  Translations,
+  UndefinedBehavior,
+}
 export {
   ast,
+  compile,
+  Context,
+  DEFAULT_DELIMITERS,
   Environment,
+  escapeRegExp,
+  FileSystemLoader,
+  format,
+  formatEdits,
   formatExpression,
+  InMemoryLoader,
   Interpreter,
+  isSafeAttribute,
   LexerError,
+  MAX_RANGE,
+  NULL_TRANSLATIONS,
   parse,
+  parseDocument,
+  printDocument,
+  printTokens,
+  reparseDocument,
+  SecurityError,
+  TemplateError,
+  TemplateNotFound,
+  TemplateRuntimeError,
   tokenize,
+  UndefinedError,
 }
@@ -1,3 +1,5 @@
+import { escapeRegExp } from "./utils"
+
 /**
  * Represents tokens that our language understands in parsing.
  */
@@ -75,19 +77,6 @@ function isInteger(char: string): boolean {
  * A data structure which contains a list of rules to test
  */
 const ORDERED_MAPPING_TABLE: [string, TokenType][] = [
-  // Control sequences
-  ["{%-", TOKEN_TYPES.OpenStatement],
-  ["-%}", TOKEN_TYPES.CloseStatement],
-  ["{{-", TOKEN_TYPES.OpenExpression],
-  ["-}}", TOKEN_TYPES.CloseExpression],
-  ["{%+", TOKEN_TYPES.OpenStatement],
-  ["+%}", TOKEN_TYPES.CloseStatement],
-  ["{{+", TOKEN_TYPES.OpenExpression],
-  ["+}}", TOKEN_TYPES.CloseExpression],
-  ["{%", TOKEN_TYPES.OpenStatement],
-  ["%}", TOKEN_TYPES.CloseStatement],
-  ["{{", TOKEN_TYPES.OpenExpression],
-  ["}}", TOKEN_TYPES.CloseExpression],
   // Single character tokens
   ["(", TOKEN_TYPES.OpenParen],
   [")", TOKEN_TYPES.CloseParen],
@@ -134,6 +123,68 @@ const ESCAPE_CHARACTERS = new Map([
 export interface PreprocessOptions {
   trim_blocks?: boolean
   lstrip_blocks?: boolean
+  block_start_string?: string
+  block_end_string?: string
+  variable_start_string?: string
+  variable_end_string?: string
+  comment_start_string?: string
+  comment_end_string?: string
+  line_statement_prefix?: string
+  line_comment_prefix?: string
+}
+
+export type Delimiters = Pick<
+  PreprocessOptions,
+  | "block_start_string"
+  | "block_end_string"
+  | "variable_start_string"
+  | "variable_end_string"
+  | "comment_start_string"
+  | "comment_end_string"
+>
+
+/**
+ * The delimiters used by Jinja unless configured otherwise.
+ */
+export const DEFAULT_DELIMITERS: Readonly<Required<Delimiters>> = Object.freeze(
+  {
+    block_start_string: "{%",
+    block_end_string: "%}",
+    variable_start_string: "{{",
+    variable_end_string: "}}",
+    comment_start_string: "{#",
+    comment_end_string: "#}",
+  },
+)
+
+/**
+ * Build the control sequences (with their whitespace control variants) for the given delimiters.
+ * Like Jinja, longer sequences take precedence so delimiters may share a prefix.
+ */
+function getControlSequences(
+  delimiters: Required<Delimiters>,
+): [string, TokenType][] {
+  const {
+    block_start_string: blockStart,
+    block_end_string: blockEnd,
+    variable_start_string: variableStart,
+    variable_end_string: variableEnd,
+  } = delimiters
+  const sequences: [string, TokenType][] = [
+    [`${blockStart}-`, TOKEN_TYPES.OpenStatement],
+    [`-${blockEnd}`, TOKEN_TYPES.CloseStatement],
+    [`${variableStart}-`, TOKEN_TYPES.OpenExpression],
+    [`-${variableEnd}`, TOKEN_TYPES.CloseExpression],
+    [`${blockStart}+`, TOKEN_TYPES.OpenStatement],
+    [`+${blockEnd}`, TOKEN_TYPES.CloseStatement],
+    [`${variableStart}+`, TOKEN_TYPES.OpenExpression],
+    [`+${variableEnd}`, TOKEN_TYPES.CloseExpression],
+    [blockStart, TOKEN_TYPES.OpenStatement],
+    [blockEnd, TOKEN_TYPES.CloseStatement],
+    [variableStart, TOKEN_TYPES.OpenExpression],
+    [variableEnd, TOKEN_TYPES.CloseExpression],
+  ]
+  return sequences.sort((a, b) => b[0].length - a[0].length)
 }
 
 /**
@@ -156,14 +207,147 @@ export function tokenize(
   options: PreprocessOptions = {},
   safe = false,
 ): Token[] | [Token[], LexerError[]] {
-  const tokens: Token[] = []
-  const errors: LexerError[] = []
+  const { tokens, errors } = tokenizeWithCheckpoints(source, options)
+
+  if (!safe) {
+    if (errors.length !== 0) {
+      throw new SyntaxError("Lexing failed")
+    }
+    return tokens
+  }
+
+  return [tokens, errors]
+}
+
+/**
+ * A position between tokens where the lexer is outside of any Jinja statement, expression or raw block,
+ * so lexing can be resumed from it.
+ */
+export interface LexerCheckpoint {
+  /** The number of tokens lexed before this checkpoint. */
+  tokenIndex: number
+  /** The number of errors found before this checkpoint. */
+  errorIndex: number
+  /** The offset the lexer continues from. */
+  position: number
+  /** The offset the next token starts at. */
+  tokenStart: number
+  curlyBracketDepth: number
+}
+
+export interface TokenizeResult {
+  tokens: Token[]
+  errors: LexerError[]
+  checkpoints: LexerCheckpoint[]
+  /** The checkpoint at which `shouldStop` stopped the lexer, if any. */
+  stoppedAt?: LexerCheckpoint
+}
 
-  let cursorPosition = 0
-  let previousCursorPosition = 0
-  let curlyBracketDepth = 0
+/**
+ * Like `tokenize`, but also records checkpoints to allow lexing only part of a changed source.
+ * @param resumeFrom The tokens and errors before a checkpoint (which are extended in place) to resume lexing from.
+ * @param shouldStop Called on each new checkpoint, lexing stops once it returns true.
+ */
+export function tokenizeWithCheckpoints(
+  source: string,
+  options: PreprocessOptions = {},
+  resumeFrom?: {
+    tokens: Token[]
+    errors: LexerError[]
+    checkpoint: LexerCheckpoint
+  },
+  shouldStop?: (checkpoint: LexerCheckpoint, tokens: Token[]) => boolean,
+): TokenizeResult {
+  const tokens: Token[] = resumeFrom?.tokens ?? []
+  const errors: LexerError[] = resumeFrom?.errors ?? []
+  const checkpoints: LexerCheckpoint[] = []
+
+  let cursorPosition = resumeFrom?.checkpoint.position ?? 0
+  let previousCursorPosition = resumeFrom?.checkpoint.tokenStart ?? 0
+  let curlyBracketDepth = resumeFrom?.checkpoint.curlyBracketDepth ?? 0
   let insideRaw = false
+  // Whether the last tokens depend on the source around the current position, so lexing can't resume from it
+  let canResume = true
+  let insideLineStatement = false
+  let lineStatementDepth = 0
+
+  const delimiters = {
+    block_start_string:
+      options.block_start_string || DEFAULT_DELIMITERS.block_start_string,
+    block_end_string:
+      options.block_end_string || DEFAULT_DELIMITERS.block_end_string,
+    variable_start_string:
+      options.variable_start_string || DEFAULT_DELIMITERS.variable_start_string,
+    variable_end_string:
+      options.variable_end_string || DEFAULT_DELIMITERS.variable_end_string,
+    comment_start_string:
+      options.comment_start_string || DEFAULT_DELIMITERS.comment_start_string,
+    comment_end_string:
+      options.comment_end_string || DEFAULT_DELIMITERS.comment_end_string,
+  }
+  const {
+    block_start_string: blockStart,
+    block_end_string: blockEnd,
+    variable_start_string: variableStart,
+    variable_end_string: variableEnd,
+    comment_start_string: commentStart,
+    comment_end_string: commentEnd,
+  } = delimiters
+  const mappingTable = [
+    ...getControlSequences(delimiters),
+    ...ORDERED_MAPPING_TABLE,
+  ]
+  const lineStatementPrefix = options.line_statement_prefix || undefined
+  const lineCommentPrefix = options.line_comment_prefix || undefined
+  const endRawRegex = new RegExp(
+    `${escapeRegExp(blockStart)}[-+]?[ \\t]*endraw[ \\t]*[-+]?${escapeRegExp(blockEnd)}` +
+      (lineStatementPrefix
+        ? `|^[ \\t\\v]*${escapeRegExp(lineStatementPrefix)}[ \\t]*endraw\\b`
+        : ""),
+    "m",
+  )
+  const startDelimiters = [blockStart, variableStart, commentStart].sort(
+    (a, b) => b.length - a.length,
+  )
+  const startOfJinjaAt = (position: number) =>
+    startDelimiters.find((delimiter) => source.startsWith(delimiter, position))
+
+  const lineStatementStartRegex = lineStatementPrefix
+    ? new RegExp(`[ \\t\\v]*${escapeRegExp(lineStatementPrefix)}`, "y")
+    : undefined
+  const lineStatementEndRegex = new RegExp(
+    "([ \\t\\v]*)(:?)[ \\t\\v]*(?:\\r?\\n|$" +
+      (lineCommentPrefix ? `|(?=${escapeRegExp(lineCommentPrefix)})` : "") +
+      ")",
+    "y",
+  )
+  const isLineCommentAt = (position: number) =>
+    lineCommentPrefix !== undefined &&
+    source.startsWith(lineCommentPrefix, position)
+  /**
+   * Returns the leading whitespace and prefix of a line statement starting at the given position, if any.
+   * Like Jinja, a longer line comment prefix takes precedence over the line statement prefix.
+   */
+  const lineStatementAt = (position: number) => {
+    if (
+      lineStatementStartRegex === undefined ||
+      (position > 0 && source[position - 1] !== "\n")
+    ) {
+      return undefined
+    }
+    lineStatementStartRegex.lastIndex = position
+    const match = lineStatementStartRegex.exec(source)?.[0]
+    if (
+      match === undefined ||
+      (isLineCommentAt(position + match.length - lineStatementPrefix.length) &&
+        lineCommentPrefix.length > lineStatementPrefix.length)
+    ) {
+      return undefined
+    }
+    return match
+  }
 
+  const whitespaceRegex = /[ \t]+/y
   const createToken = (value: string, type: TokenType) => {
     const result = new Token(
       value,
@@ -172,7 +356,8 @@ export function tokenize(
       cursorPosition,
     )
     previousCursorPosition = cursorPosition
-    const match = /^[ \t]+/.exec(source.slice(previousCursorPosition))
+    whitespaceRegex.lastIndex = previousCursorPosition
+    const match = whitespaceRegex.exec(source)
     if (match) {
       previousCursorPosition += match[0].length
     }
@@ -233,6 +418,28 @@ export function tokenize(
   main: while (cursorPosition < source.length) {
     // First, consume all text that is outside of a Jinja statement or expression
     const lastTokenType = tokens.at(-1)?.type
+    if (
+      (lastTokenType === undefined ||
+        lastTokenType === TOKEN_TYPES.CloseStatement ||
+        lastTokenType === TOKEN_TYPES.CloseExpression ||
+        lastTokenType === TOKEN_TYPES.Comment) &&
+      !insideRaw &&
+      !insideLineStatement &&
+      canResume
+    ) {
+      const checkpoint: LexerCheckpoint = {
+        tokenIndex: tokens.length,
+        errorIndex: errors.length,
+        position: cursorPosition,
+        tokenStart: previousCursorPosition,
+        curlyBracketDepth,
+      }
+      if (shouldStop?.(checkpoint, tokens)) {
+        return { tokens, errors, checkpoints, stoppedAt: checkpoint }
+      }
+      checkpoints.push(checkpoint)
+    }
+    canResume = true
     if (
       lastTokenType === undefined ||
       lastTokenType === TOKEN_TYPES.CloseStatement ||
@@ -241,11 +448,10 @@ export function tokenize(
       insideRaw
     ) {
       let text = ""
+      const textStart = cursorPosition
       if (insideRaw) {
         const rawStart = cursorPosition
-        const match = /{%[ \t]*endraw[ \t]*%}/.exec(
-          source.slice(cursorPosition),
-        )
+        const match = endRawRegex.exec(source.slice(cursorPosition))
         if (match) {
           cursorPosition += match.index
         } else {
@@ -256,12 +462,9 @@ export function tokenize(
         while (
           cursorPosition < source.length &&
           // Keep going until we hit the next Jinja statement or expression
-          !(
-            source[cursorPosition] === "{" &&
-            (source[cursorPosition + 1] === "%" ||
-              source[cursorPosition + 1] === "{" ||
-              source[cursorPosition + 1] === "#")
-          )
+          startOfJinjaAt(cursorPosition) === undefined &&
+          lineStatementAt(cursorPosition) === undefined &&
+          !isLineCommentAt(cursorPosition)
         ) {
           // Consume text
           text += source[cursorPosition++]
@@ -270,11 +473,16 @@ export function tokenize(
 
       // There is some text to add
       if (text.length > 0) {
+        const nextStart = startOfJinjaAt(cursorPosition)
+
         // Handle whitespace control
         if (tokens.at(-1)?.value?.startsWith("-")) {
           text = text.trimStart()
         }
-        if (source[cursorPosition + 2] === "-") {
+        if (
+          nextStart !== undefined &&
+          source[cursorPosition + nextStart.length] === "-"
+        ) {
           text = text.trimEnd()
         }
         if (
@@ -283,10 +491,12 @@ export function tokenize(
         ) {
           text = text.slice(0, -1)
         }
+        if (isLineCommentAt(cursorPosition)) {
+          text = text.replace(/[ \t\v]*$/, "")
+        }
         if (
           options.lstrip_blocks &&
-          (source[cursorPosition + 1] === "%" ||
-            source[cursorPosition + 1] === "#")
+          (nextStart === blockStart || nextStart === commentStart)
         ) {
           const lastLineIndex = text.lastIndexOf("\n")
           if (/^[ \t]*$/.test(text.slice(lastLineIndex + 1))) {
@@ -294,26 +504,75 @@ export function tokenize(
           }
         }
 
-        tokens.push(createToken(text, TOKEN_TYPES.Text))
+        // Text removed entirely by whitespace control isn't a token
+        if (text.length > 0 || insideRaw) {
+          // Text starts right after the previous tag, including its leading whitespace
+          previousCursorPosition = textStart
+          tokens.push(createToken(text, TOKEN_TYPES.Text))
+        } else {
+          // Whether the text is removed depends on the tags around it
+          canResume = false
+        }
         insideRaw = false
         continue
       }
     }
 
+    if (
+      !insideLineStatement &&
+      (lastTokenType === undefined ||
+        lastTokenType === TOKEN_TYPES.CloseStatement ||
+        lastTokenType === TOKEN_TYPES.CloseExpression ||
+        lastTokenType === TOKEN_TYPES.Comment ||
+        lastTokenType === TOKEN_TYPES.Text)
+    ) {
+      // Possibly consume a line comment, which ends at the end of the line
+      if (isLineCommentAt(cursorPosition)) {
+        const commentStart = cursorPosition
+        cursorPosition += lineCommentPrefix.length
+        while (
+          cursorPosition < source.length &&
+          source[cursorPosition] !== "\n"
+        ) {
+          ++cursorPosition
+        }
+        previousCursorPosition = commentStart
+        tokens.push(
+          createToken(
+            source
+              .slice(commentStart + lineCommentPrefix.length, cursorPosition)
+              .replace(/\r$/, ""),
+            TOKEN_TYPES.Comment,
+          ),
+        )
+        continue
+      }
+
+      // Possibly start a line statement, which is treated like an opening tag
+      const lineStatement = lineStatementAt(cursorPosition)
+      if (lineStatement !== undefined) {
+        cursorPosition += lineStatement.length - lineStatementPrefix.length
+        previousCursorPosition = cursorPosition
+        cursorPosition += lineStatementPrefix.length
+        tokens.push(createToken(lineStatementPrefix, TOKEN_TYPES.OpenStatement))
+        insideLineStatement = true
+        lineStatementDepth = 0
+        continue
+      }
+    }
+
     // Possibly consume a comment
-    if (source[cursorPosition] === "{" && source[cursorPosition + 1] === "#") {
-      cursorPosition += 2 // Skip the opening {#
+    if (source.startsWith(commentStart, cursorPosition)) {
+      previousCursorPosition = cursorPosition
+      cursorPosition += commentStart.length // Skip the opening {#
       if (source[cursorPosition] === "-") {
         cursorPosition++
       }
 
       let comment = ""
-      while (
-        source[cursorPosition] !== "#" ||
-        source[cursorPosition + 1] !== "}"
-      ) {
+      while (!source.startsWith(commentEnd, cursorPosition)) {
         // Check for end of input
-        if (cursorPosition + 2 >= source.length) {
+        if (cursorPosition + commentEnd.length >= source.length) {
           errors.push(
             new LexerError(
               "Missing end of comment tag",
@@ -328,8 +587,8 @@ export function tokenize(
         }
         comment += source[cursorPosition++]
       }
-      if (cursorPosition + 2 < source.length) {
-        cursorPosition += 2 // Skip the closing #}
+      if (cursorPosition + commentEnd.length <= source.length) {
+        cursorPosition += commentEnd.length // Skip the closing #}
       }
       if (comment[comment.length - 1] === "-") {
         comment = comment.slice(0, -1)
@@ -344,6 +603,31 @@ export function tokenize(
       continue
     }
 
+    // A line statement ends at the end of its line (with an optional colon), unless brackets are still open
+    if (insideLineStatement && lineStatementDepth === 0) {
+      lineStatementEndRegex.lastIndex = cursorPosition
+      const match = lineStatementEndRegex.exec(source)
+      if (match) {
+        const end = lineStatementEndRegex.lastIndex
+        previousCursorPosition = cursorPosition + match[1].length
+        cursorPosition = previousCursorPosition + match[2].length
+        tokens.push(createToken(match[2], TOKEN_TYPES.CloseStatement))
+        cursorPosition = end
+        previousCursorPosition = end
+        insideLineStatement = false
+        // A line statement ended by a line comment depends on the comment after it
+        canResume = match[0].endsWith("\n") || end === source.length
+        if (
+          tokens.at(-2)?.type === "Identifier" &&
+          tokens.at(-2).value === "raw" &&
+          tokens.at(-3)?.type === "OpenStatement"
+        ) {
+          insideRaw = true
+        }
+        continue
+      }
+    }
+
     // Consume (and ignore) all whitespace inside Jinja statements or expressions
     consumeWhile((char) => /\s/.test(char))
     if (cursorPosition >= source.length) {
@@ -365,8 +649,9 @@ export function tokenize(
         case TOKEN_TYPES.StringLiteral:
         case TOKEN_TYPES.CloseParen:
         case TOKEN_TYPES.CloseSquareBracket:
-          // Part of a binary operator
-          // a - 1, 1 - 1, true - 1, "apple" - 1, (1) - 1, a[1] - 1
+        case TOKEN_TYPES.CloseCurlyBracket:
+          // Part of a binary operator or of a delimiter
+          // a - 1, 1 - 1, true - 1, "apple" - 1, (1) - 1, a[1] - 1, {} -}}
           // Continue parsing normally
           break
 
@@ -391,9 +676,9 @@ export function tokenize(
     }
 
     // Try to match one of the tokens in the mapping table
-    for (const [seq, type] of ORDERED_MAPPING_TABLE) {
+    for (const [seq, type] of mappingTable) {
       // inside an object literal, don't treat "}}" as expression-end
-      if (seq === "}}" && curlyBracketDepth > 0) {
+      if (seq === variableEnd && curlyBracketDepth > 0) {
         continue
       }
       const slice = source.slice(cursorPosition, cursorPosition + seq.length)
@@ -406,6 +691,21 @@ export function tokenize(
         } else if (type === TOKEN_TYPES.CloseCurlyBracket) {
           --curlyBracketDepth
         }
+        if (insideLineStatement) {
+          if (
+            type === TOKEN_TYPES.OpenParen ||
+            type === TOKEN_TYPES.OpenSquareBracket ||
+            type === TOKEN_TYPES.OpenCurlyBracket
+          ) {
+            ++lineStatementDepth
+          } else if (
+            type === TOKEN_TYPES.CloseParen ||
+            type === TOKEN_TYPES.CloseSquareBracket ||
+            type === TOKEN_TYPES.CloseCurlyBracket
+          ) {
+            --lineStatementDepth
+          }
+        }
         cursorPosition += seq.length
         tokens.push(createToken(seq, type))
 
@@ -494,12 +794,11 @@ export function tokenize(
     previousCursorPosition = cursorPosition
   }
 
-  if (!safe) {
-    if (errors.length !== 0) {
-      throw new SyntaxError("Lexing failed")
-    }
-    return tokens
+  // A line statement on the last line is closed by the end of input
+  if (insideLineStatement) {
+    previousCursorPosition = cursorPosition
+    tokens.push(createToken("", TOKEN_TYPES.CloseStatement))
   }
 
-  return [tokens, errors]
+  return { tokens, errors, checkpoints }
 }
@@ -0,0 +1,60 @@
+import * as fs from "fs"
+import * as path from "path"
+
+/**
+ * Finds the sources of templates referenced by name, e.g. in include, import and extends statements.
+ */
+export interface TemplateLoader {
+  /**
+   * @returns The source of the template, or undefined if it doesn't exist.
+   */
+  getSource(name: string): string | undefined
+}
+
+/**
+ * Loads templates from a mapping of names to sources.
+ */
+export class InMemoryLoader implements TemplateLoader {
+  templates: Map<string, string>
+
+  constructor(templates: Record<string, string> | Map<string, string> = {}) {
+    this.templates =
+      templates instanceof Map ? templates : new Map(Object.entries(templates))
+  }
+
+  getSource(name: string): string | undefined {
+    return this.templates.get(name)
+  }
+}
+
+/**
+ * Loads templates from files, looking for them in each of the search paths in order.
+ * Like Jinja, names are always separated by `/` and may not escape the search paths.
+ */
+export class FileSystemLoader implements TemplateLoader {
+  searchPaths: string[]
+
+  constructor(
+    searchPath: string | string[],
+    public encoding: BufferEncoding = "utf-8",
+  ) {
+    this.searchPaths =
+      typeof searchPath === "string" ? [searchPath] : searchPath
+  }
+
+  getSource(name: string): string | undefined {
+    const pieces = name.split("/").filter((piece) => piece && piece !== ".")
+    if (
+      pieces.length === 0 ||
+      pieces.some((piece) => piece === ".." || piece.includes(path.sep))
+    ) {
+      return undefined
+    }
+    for (const searchPath of this.searchPaths) {
+      const filePath = path.join(searchPath, ...pieces)
+      if (fs.existsSync(filePath) && fs.statSync(filePath).isFile()) {
+        return fs.readFileSync(filePath, this.encoding)
+      }
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import {
   ArrayLiteral,
+  Autoescape,
   BinaryExpression,
   Block,
   Break,
@@ -27,6 +28,7 @@ import {
   MissingNode,
   Node,
   ObjectLiteral,
+  Pluralize,
   Program,
   Raw,
   SelectExpression,
@@ -38,6 +40,7 @@ import {
   Ternary,
   TestExpression,
   TokenNode,
+  Trans,
   TupleLiteral,
   UnaryExpression,
   UnexpectedToken,
@@ -60,10 +63,47 @@ export function parse(
   rawTokens: Token[],
   safe = false,
 ): Program | [Program, TokenNode[], ErrorNode[]] {
+  const tokens = rawTokens.map((token) => new TokenNode(token))
+  const { statements, errors } = parseStatements(tokens)
   const program = new Program([])
-  let current = 0
+  for (const { node } of statements) {
+    program.body.push(node)
+    program.addChild(node)
+  }
+
+  if (!safe) {
+    if (errors.length !== 0) {
+      throw new SyntaxError("Parsing failed")
+    }
+    return program
+  }
+
+  return [program, tokens.sort((a, b) => a.start - b.start), errors]
+}
+
+/**
+ * A top-level statement along with the range of tokens it was parsed from.
+ */
+export interface ParsedStatement {
+  node: Statement
+  /** The index of the first token of the statement. */
+  start: number
+  /** The index after the last token of the statement. */
+  end: number
+  errors: ErrorNode[]
+}
+
+/**
+ * Parse top-level statements starting from the given token, which allows reparsing only part of a document.
+ * @param shouldStop Called with the index of the next token before each statement, parsing stops once it returns true.
+ */
+export function parseStatements(
+  tokens: TokenNode[],
+  start = 0,
+  shouldStop?: (current: number) => boolean,
+): { statements: ParsedStatement[]; errors: ErrorNode[] } {
+  let current = start
   const errors: ErrorNode[] = []
-  const tokens = rawTokens.map((token) => new TokenNode(token))
 
   function createErrorToken() {
     return new TokenNode(new Token("error", "Error", 0, 0))
@@ -97,7 +137,7 @@ export function parse(
     }
 
     if (!isIdentifier(name)) {
-      createMissingNode(name, tokens[current].start)
+      createMissingNode(name, tokens[current]?.start)
       current++
       return createErrorToken()
     }
@@ -331,6 +371,22 @@ export function parse(
         expect(TOKEN_TYPES.CloseStatement, "'%}'")
         result = new Continue()
         break
+      case "trans":
+        ++current
+        result = parseTransStatement()
+        break
+      case "autoescape": {
+        ++current // consume 'autoescape'
+        const value = parseExpression()
+        closeToken = expect(TOKEN_TYPES.CloseStatement, "'%}'")
+        const autoescapeBody: Statement[] = []
+        while (current < tokens.length && !isStatement("endautoescape")) {
+          autoescapeBody.push(parseAny())
+        }
+        result = new Autoescape(value, autoescapeBody)
+        expectCloserStatement(result, "endautoescape")
+        break
+      }
       case "filter": {
         ++current // consume 'filter'
         let filterNode = parsePrimaryExpression()
@@ -391,7 +447,7 @@ export function parse(
           new Token(
             tokens[current].value,
             TOKEN_TYPES.Identifier,
-            tokens[current].start,
+            tokens[current]?.start,
             tokens[current + 1].end,
           ),
         ),
@@ -411,7 +467,7 @@ export function parse(
           new Token(
             "ignore missing",
             TOKEN_TYPES.Identifier,
-            tokens[current].start,
+            tokens[current]?.start,
             tokens[current + 1].end,
           ),
         ),
@@ -465,7 +521,7 @@ export function parse(
       if (tokens[current]?.type !== "Identifier") {
         missing = createMissingNode(
           "identifier to import",
-          tokens[current].start,
+          tokens[current]?.start,
         )
         missing.addChildren(...eatUntil(TOKEN_TYPES.CloseStatement, "'%}'"))
         break
@@ -495,7 +551,10 @@ export function parse(
     }
 
     if (imports.length === 0 && !missing) {
-      missing = createMissingNode("identifier to import", tokens[current].start)
+      missing = createMissingNode(
+        "identifier to import",
+        tokens[current]?.start,
+      )
       missing.addChildren(...eatUntil(TOKEN_TYPES.CloseStatement, "'%}'"))
     }
 
@@ -520,7 +579,12 @@ export function parse(
     const body: Statement[] = []
     const closeToken = expect(TOKEN_TYPES.CloseStatement, "'%}'")
     while (current < tokens.length && !isStatement("endraw")) {
-      current++
+      // The content of raw blocks is lexed as text
+      if (is(TOKEN_TYPES.Text)) {
+        body.push(parseText())
+      } else {
+        current++
+      }
     }
     const raw = new Raw(body)
     raw.addChild(closeToken, "closeToken")
@@ -571,7 +635,10 @@ export function parse(
           tokens[current],
         )
       }
-      current++
+      block.addChild(
+        new Identifier(tokens[current].value, tokens[current++]),
+        "endName",
+      )
     }
     block.addChild(
       expect(TOKEN_TYPES.CloseStatement, "'%}'"),
@@ -733,7 +800,7 @@ export function parse(
     ) {
       const missingNode = createMissingNode(
         "identifier/tuple for the loop variable",
-        tokens[loopVariableStart].start,
+        tokens[loopVariableStart]?.start,
         loopVariable,
       )
       eatUntil(TOKEN_TYPES.CloseStatement, "'%}'")
@@ -744,7 +811,7 @@ export function parse(
     if (!isIdentifier("in")) {
       createMissingNode(
         "'in' keyword following loop variable",
-        tokens[current].start,
+        tokens[current]?.start,
       )
     } else {
       inToken = tokens[current++]
@@ -753,6 +820,12 @@ export function parse(
     // `messages` in `for message in messages`
     const iterable = parseExpression()
 
+    // (Optional) `recursive` in `for item in tree recursive`
+    let recursive: TokenNode | undefined = undefined
+    if (isIdentifier("recursive")) {
+      recursive = tokens[current++]
+    }
+
     const closeToken = expect(TOKEN_TYPES.CloseStatement, "'%}'")
 
     // Body of for loop
@@ -786,6 +859,7 @@ export function parse(
       elseOpenToken,
       elseIdentifier,
       elseCloseToken,
+      recursive,
     )
     result.addChild(closeToken, "closeToken")
     return result
@@ -817,6 +891,78 @@ export function parse(
     return result
   }
 
+  function parseTransStatement(): Trans {
+    let context: StringLiteral | undefined = undefined
+    if (is(TOKEN_TYPES.StringLiteral)) {
+      context = parsePrimaryExpression() as StringLiteral
+    }
+
+    const bindings: {
+      name: Identifier
+      equalsToken: TokenNode | undefined
+      value: Expression | undefined
+    }[] = []
+    let trimmed: TokenNode | undefined = undefined
+    while (current < tokens.length && !is(TOKEN_TYPES.CloseStatement)) {
+      if (bindings.length !== 0) {
+        expect(TOKEN_TYPES.Comma, "','")
+      }
+      if (
+        trimmed === undefined &&
+        (isIdentifier("trimmed") || isIdentifier("notrimmed"))
+      ) {
+        trimmed = tokens[current++]
+        continue
+      }
+      const name = expect(TOKEN_TYPES.Identifier, "identifier")
+      if (name.type === "Error") {
+        eatUntil(TOKEN_TYPES.CloseStatement, "'%}'", false)
+        break
+      }
+      let equalsToken: TokenNode | undefined = undefined
+      let value: Expression | undefined = undefined
+      if (is(TOKEN_TYPES.Equals)) {
+        equalsToken = tokens[current++]
+        value = parseExpression()
+      }
+      bindings.push({
+        name: new Identifier(name.value, name),
+        equalsToken,
+        value,
+      })
+    }
+    const closeToken = expect(TOKEN_TYPES.CloseStatement, "'%}'")
+
+    const body: Statement[] = []
+    while (current < tokens.length && !isStatement("pluralize", "endtrans")) {
+      body.push(parseAny())
+    }
+
+    let pluralize: Pluralize | undefined = undefined
+    if (isStatement("pluralize")) {
+      const openToken = tokens[current++]
+      const identifier = tokens[current++]
+      let count: Identifier | undefined = undefined
+      if (is(TOKEN_TYPES.Identifier)) {
+        count = new Identifier(tokens[current].value, tokens[current++])
+      }
+      const pluralizeCloseToken = expect(TOKEN_TYPES.CloseStatement, "'%}'")
+      const pluralBody: Statement[] = []
+      while (current < tokens.length && !isStatement("endtrans")) {
+        pluralBody.push(parseAny())
+      }
+      pluralize = new Pluralize(count, pluralBody)
+      pluralize.addChild(openToken, "openToken")
+      pluralize.addChild(identifier, "identifier")
+      pluralize.addChild(pluralizeCloseToken, "closeToken")
+    }
+
+    const result = new Trans(context, bindings, trimmed, body, pluralize)
+    result.addChild(closeToken, "closeToken")
+    expectCloserStatement(result, "endtrans")
+    return result
+  }
+
   function parseExpression(): Statement {
     // Choose parse function with lowest precedence
     return parseIfExpression()
@@ -890,7 +1036,7 @@ export function parse(
           new Token(
             "not in",
             TOKEN_TYPES.Identifier,
-            tokens[current].start,
+            tokens[current]?.start,
             tokens[current + 1].end,
           ),
         )
@@ -1032,7 +1178,7 @@ export function parse(
       // []
       return createMissingNode(
         "at least one argument for member/slice expression",
-        tokens[current].start,
+        tokens[current]?.start,
       )
     }
 
@@ -1041,7 +1187,7 @@ export function parse(
         // TODO: this is not really a missing node, but unexpected token(s)
         return createMissingNode(
           "at most three argument for slice expression",
-          tokens[current].start,
+          tokens[current]?.start,
         )
       }
       return new SliceExpression(...slices)
@@ -1244,25 +1390,25 @@ export function parse(
         if (!alreadyCreated) {
           current--
           if (!ignoreFailure) {
-            return createMissingNode("expression", token.start)
+            return createMissingNode("expression", token?.start)
           }
         }
         return new MissingNode("expression", token?.start)
     }
   }
 
-  while (current < tokens.length) {
+  const statements: ParsedStatement[] = []
+  while (current < tokens.length && !shouldStop?.(current)) {
+    const statementStart = current
+    const errorsStart = errors.length
     const node = parseAny()
-    program.body.push(node)
-    program.addChild(node)
+    statements.push({
+      node,
+      start: statementStart,
+      end: current,
+      errors: errors.slice(errorsStart),
+    })
   }
 
-  if (!safe) {
-    if (errors.length !== 0) {
-      throw new SyntaxError("Parsing failed")
-    }
-    return program
-  }
-
-  return [program, tokens.sort((a, b) => a.start - b.start), errors]
+  return { statements, errors }
 }
@@ -1,19 +1,27 @@
 import {
   ArrayLiteral,
+  Autoescape,
   BinaryExpression,
+  Block,
   CallExpression,
   CallStatement,
+  Comment,
   Expression,
+  Extends,
   FilterExpression,
   FilterStatement,
   FloatLiteral,
   For,
+  FromImport,
   Identifier,
   If,
+  Import,
+  Include,
   IntegerLiteral,
   KeywordArgumentExpression,
   Macro,
   MemberExpression,
+  Node,
   ObjectLiteral,
   Program,
   SelectExpression,
@@ -24,10 +32,46 @@ import {
   StringLiteral,
   Ternary,
   TestExpression,
+  Trans,
   TupleLiteral,
   UnaryExpression,
 } from "./ast"
-import { range, replace, slice, strftime_now, titleCase } from "./utils"
+import type { SourceLocation } from "./errors"
+import {
+  TemplateError,
+  TemplateNotFound,
+  TemplateRuntimeError,
+  UndefinedError,
+} from "./errors"
+import type { Translations } from "./i18n"
+import { NULL_TRANSLATIONS, translate } from "./i18n"
+import type { PreprocessOptions } from "./lexer"
+import { TOKEN_TYPES, tokenize } from "./lexer"
+import type { TemplateLoader } from "./loaders"
+import { parse } from "./parser"
+import type { SandboxOptions } from "./sandbox"
+import { isSafeAttribute, MAX_RANGE, SecurityError } from "./sandbox"
+import {
+  center,
+  escapeHtml,
+  escapeJSONForHtml,
+  filesizeformat,
+  range,
+  replace,
+  slice,
+  splitLines,
+  strftime_now,
+  stripTags,
+  titleCase,
+  titleCaseWords,
+  toFixed,
+  toFloat,
+  toInt,
+  truncate,
+  urlize,
+  urlQuote,
+  wrap,
+} from "./utils"
 
 export type AnyRuntimeValue =
   | IntegerValue
@@ -41,21 +85,48 @@ export type AnyRuntimeValue =
   | UndefinedValue
 
 // Control-flow exceptions for loop break/continue
-class BreakControl extends Error {}
-class ContinueControl extends Error {}
+export class BreakControl extends Error {}
+export class ContinueControl extends Error {}
+
+/**
+ * Rendering statements produces their output in chunks, along with the promises to wait for when running
+ * asynchronously.
+ */
+type Rendering = Generator<string | Promise<void>, void>
+
+// Thrown when rendering asynchronously and a function returns a promise, which settles once its result is recorded
+class PendingCall extends Error {
+  constructor(public promise: Promise<void>) {
+    super()
+  }
+}
 
 /**
  * Abstract base class for all Runtime values.
  * Should not be instantiated directly.
  */
 abstract class RuntimeValue<T> {
-  type = "RuntimeValue"
-  value: T
+  // The fields are only declared here, since defining them on the instances of every subclass is slow.
+  // Each subclass sets its `type`, and the constructor sets the value.
+  declare type: string
+  declare value: T
+
+  declare private ownBuiltins?: Map<string, AnyRuntimeValue>
 
   /**
-   * A collection of built-in functions for this type.
+   * A collection of built-in functions for this type, created when first accessed since most values don't use them.
    */
-  builtins = new Map<string, AnyRuntimeValue>()
+  get builtins(): Map<string, AnyRuntimeValue> {
+    return (this.ownBuiltins ??= this.createBuiltins())
+  }
+
+  set builtins(builtins: Map<string, AnyRuntimeValue>) {
+    this.ownBuiltins = builtins
+  }
+
+  protected createBuiltins(): Map<string, AnyRuntimeValue> {
+    return new Map()
+  }
 
   /**
    * Creates a new RuntimeValue.
@@ -102,183 +173,237 @@ export class FloatValue extends RuntimeValue<number> {
 export class StringValue extends RuntimeValue<string> {
   override type = "StringValue"
 
-  override builtins = new Map<string, AnyRuntimeValue>([
-    [
-      "upper",
-      new FunctionValue(() => {
-        return new StringValue(this.value.toUpperCase())
-      }),
-    ],
-    [
-      "lower",
-      new FunctionValue(() => {
-        return new StringValue(this.value.toLowerCase())
-      }),
-    ],
-    [
-      "strip",
-      new FunctionValue(() => {
-        return new StringValue(this.value.trim())
-      }),
-    ],
-    [
-      "title",
-      new FunctionValue(() => {
-        return new StringValue(titleCase(this.value))
-      }),
-    ],
-    [
-      "capitalize",
-      new FunctionValue(() => {
-        return new StringValue(
-          this.value.charAt(0).toUpperCase() + this.value.slice(1),
-        )
-      }),
-    ],
-    ["length", new IntegerValue(this.value.length)],
-    [
-      "rstrip",
-      new FunctionValue(() => {
-        return new StringValue(this.value.trimEnd())
-      }),
-    ],
-    [
-      "lstrip",
-      new FunctionValue(() => {
-        return new StringValue(this.value.trimStart())
-      }),
-    ],
-    [
-      "startswith",
-      new FunctionValue((args) => {
-        if (args.length === 0) {
-          throw new Error("startswith() requires at least one argument")
-        }
-        const pattern = args[0]
-        if (pattern instanceof StringValue) {
-          return new BooleanValue(this.value.startsWith(pattern.value))
-        } else if (pattern instanceof ArrayValue) {
-          for (const item of pattern.value) {
-            if (!(item instanceof StringValue)) {
-              throw new Error("startswith() tuple elements must be strings")
-            }
-            if (this.value.startsWith(item.value)) {
-              return new BooleanValue(true)
-            }
+  protected override createBuiltins(): Map<string, AnyRuntimeValue> {
+    return new Map<string, AnyRuntimeValue>([
+      [
+        "upper",
+        new FunctionValue(() => {
+          return new StringValue(this.value.toUpperCase())
+        }),
+      ],
+      [
+        "lower",
+        new FunctionValue(() => {
+          return new StringValue(this.value.toLowerCase())
+        }),
+      ],
+      [
+        "strip",
+        new FunctionValue(() => {
+          return new StringValue(this.value.trim())
+        }),
+      ],
+      [
+        "title",
+        new FunctionValue(() => {
+          return new StringValue(titleCase(this.value))
+        }),
+      ],
+      [
+        "capitalize",
+        new FunctionValue(() => {
+          return new StringValue(
+            this.value.charAt(0).toUpperCase() +
+              this.value.slice(1).toLowerCase(),
+          )
+        }),
+      ],
+      ["length", new IntegerValue(this.value.length)],
+      [
+        "rstrip",
+        new FunctionValue(() => {
+          return new StringValue(this.value.trimEnd())
+        }),
+      ],
+      [
+        "lstrip",
+        new FunctionValue(() => {
+          return new StringValue(this.value.trimStart())
+        }),
+      ],
+      [
+        "startswith",
+        new FunctionValue((args) => {
+          if (args.length === 0) {
+            throw new TemplateRuntimeError(
+              "startswith() requires at least one argument",
+            )
           }
-          return new BooleanValue(false)
-        }
-        throw new Error(
-          "startswith() argument must be a string or tuple of strings",
-        )
-      }),
-    ],
-    [
-      "endswith",
-      new FunctionValue((args) => {
-        if (args.length === 0) {
-          throw new Error("endswith() requires at least one argument")
-        }
-        const pattern = args[0]
-        if (pattern instanceof StringValue) {
-          return new BooleanValue(this.value.endsWith(pattern.value))
-        } else if (pattern instanceof ArrayValue) {
-          for (const item of pattern.value) {
-            if (!(item instanceof StringValue)) {
-              throw new Error("endswith() tuple elements must be strings")
+          const pattern = args[0]
+          if (pattern instanceof StringValue) {
+            return new BooleanValue(this.value.startsWith(pattern.value))
+          } else if (pattern instanceof ArrayValue) {
+            for (const item of pattern.value) {
+              if (!(item instanceof StringValue)) {
+                throw new TemplateRuntimeError(
+                  "startswith() tuple elements must be strings",
+                )
+              }
+              if (this.value.startsWith(item.value)) {
+                return new BooleanValue(true)
+              }
             }
-            if (this.value.endsWith(item.value)) {
-              return new BooleanValue(true)
+            return new BooleanValue(false)
+          }
+          throw new TemplateRuntimeError(
+            "startswith() argument must be a string or tuple of strings",
+          )
+        }),
+      ],
+      [
+        "endswith",
+        new FunctionValue((args) => {
+          if (args.length === 0) {
+            throw new TemplateRuntimeError(
+              "endswith() requires at least one argument",
+            )
+          }
+          const pattern = args[0]
+          if (pattern instanceof StringValue) {
+            return new BooleanValue(this.value.endsWith(pattern.value))
+          } else if (pattern instanceof ArrayValue) {
+            for (const item of pattern.value) {
+              if (!(item instanceof StringValue)) {
+                throw new TemplateRuntimeError(
+                  "endswith() tuple elements must be strings",
+                )
+              }
+              if (this.value.endsWith(item.value)) {
+                return new BooleanValue(true)
+              }
             }
+            return new BooleanValue(false)
+          }
+          throw new TemplateRuntimeError(
+            "endswith() argument must be a string or tuple of strings",
+          )
+        }),
+      ],
+      [
+        "split",
+        // follows Python's `str.split(sep=None, maxsplit=-1)` function behavior
+        // https://docs.python.org/3.13/library/stdtypes.html#str.split
+        new FunctionValue((args) => {
+          const sep = args[0] ?? new NullValue()
+          if (!(sep instanceof StringValue || sep instanceof NullValue)) {
+            throw new TemplateRuntimeError(
+              "sep argument must be a string or null",
+            )
+          }
+          const maxsplit = args[1] ?? new IntegerValue(-1)
+          if (!(maxsplit instanceof IntegerValue)) {
+            throw new TemplateRuntimeError("maxsplit argument must be a number")
           }
-          return new BooleanValue(false)
-        }
-        throw new Error(
-          "endswith() argument must be a string or tuple of strings",
-        )
-      }),
-    ],
-    [
-      "split",
-      // follows Python's `str.split(sep=None, maxsplit=-1)` function behavior
-      // https://docs.python.org/3.13/library/stdtypes.html#str.split
-      new FunctionValue((args) => {
-        const sep = args[0] ?? new NullValue()
-        if (!(sep instanceof StringValue || sep instanceof NullValue)) {
-          throw new Error("sep argument must be a string or null")
-        }
-        const maxsplit = args[1] ?? new IntegerValue(-1)
-        if (!(maxsplit instanceof IntegerValue)) {
-          throw new Error("maxsplit argument must be a number")
-        }
 
-        let result = []
-        if (sep instanceof NullValue) {
-          // If sep is not specified or is None, runs of consecutive whitespace are regarded as a single separator, and the
-          // result will contain no empty strings at the start or end if the string has leading or trailing whitespace.
-          // Trailing whitespace may be present when maxsplit is specified and there aren't sufficient matches in the string.
-          const text = this.value.trimStart()
-          for (const { 0: match, index } of text.matchAll(/\S+/g)) {
-            if (
-              maxsplit.value !== -1 &&
-              result.length >= maxsplit.value &&
-              index !== undefined
-            ) {
-              result.push(match + text.slice(index + match.length))
-              break
+          let result = []
+          if (sep instanceof NullValue) {
+            // If sep is not specified or is None, runs of consecutive whitespace are regarded as a single separator, and the
+            // result will contain no empty strings at the start or end if the string has leading or trailing whitespace.
+            // Trailing whitespace may be present when maxsplit is specified and there aren't sufficient matches in the string.
+            const text = this.value.trimStart()
+            for (const { 0: match, index } of text.matchAll(/\S+/g)) {
+              if (
+                maxsplit.value !== -1 &&
+                result.length >= maxsplit.value &&
+                index !== undefined
+              ) {
+                result.push(match + text.slice(index + match.length))
+                break
+              }
+              result.push(match)
+            }
+          } else {
+            // If sep is specified, consecutive delimiters are not grouped together and are deemed to delimit empty strings.
+            if (sep.value === "") {
+              throw new TemplateRuntimeError("empty separator")
+            }
+            result = this.value.split(sep.value)
+            if (maxsplit.value !== -1 && result.length > maxsplit.value) {
+              // Follow Python's behavior: If maxsplit is given, at most maxsplit splits are done,
+              // with any remaining text returned as the final element of the list.
+              result.push(result.splice(maxsplit.value).join(sep.value))
             }
-            result.push(match)
           }
-        } else {
-          // If sep is specified, consecutive delimiters are not grouped together and are deemed to delimit empty strings.
-          if (sep.value === "") {
-            throw new Error("empty separator")
+          return new ArrayValue(result.map((part) => new StringValue(part)))
+        }),
+      ],
+      [
+        "replace",
+        new FunctionValue((args): StringValue => {
+          if (args.length < 2) {
+            throw new TemplateRuntimeError(
+              "replace() requires at least two arguments",
+            )
           }
-          result = this.value.split(sep.value)
-          if (maxsplit.value !== -1 && result.length > maxsplit.value) {
-            // Follow Python's behavior: If maxsplit is given, at most maxsplit splits are done,
-            // with any remaining text returned as the final element of the list.
-            result.push(result.splice(maxsplit.value).join(sep.value))
+          const oldValue = args[0]
+          const newValue = args[1]
+          if (
+            !(
+              oldValue instanceof StringValue && newValue instanceof StringValue
+            )
+          ) {
+            throw new TemplateRuntimeError(
+              "replace() arguments must be strings",
+            )
           }
-        }
-        return new ArrayValue(result.map((part) => new StringValue(part)))
-      }),
-    ],
-    [
-      "replace",
-      new FunctionValue((args): StringValue => {
-        if (args.length < 2) {
-          throw new Error("replace() requires at least two arguments")
-        }
-        const oldValue = args[0]
-        const newValue = args[1]
-        if (
-          !(oldValue instanceof StringValue && newValue instanceof StringValue)
-        ) {
-          throw new Error("replace() arguments must be strings")
-        }
 
-        let count: AnyRuntimeValue | undefined
-        if (args.length > 2) {
-          if (args[2].type === "KeywordArgumentsValue") {
-            count =
-              (args[2] as KeywordArgumentsValue).value.get("count") ??
-              new NullValue()
+          let count: AnyRuntimeValue | undefined
+          if (args.length > 2) {
+            if (args[2].type === "KeywordArgumentsValue") {
+              count =
+                (args[2] as KeywordArgumentsValue).value.get("count") ??
+                new NullValue()
+            } else {
+              count = args[2]
+            }
           } else {
-            count = args[2]
+            count = new NullValue()
           }
-        } else {
-          count = new NullValue()
-        }
-        if (!(count instanceof IntegerValue || count instanceof NullValue)) {
-          throw new Error("replace() count argument must be a number or null")
-        }
-        return new StringValue(
-          replace(this.value, oldValue.value, newValue.value, count.value),
-        )
-      }),
-    ],
-  ])
+          if (!(count instanceof IntegerValue || count instanceof NullValue)) {
+            throw new TemplateRuntimeError(
+              "replace() count argument must be a number or null",
+            )
+          }
+          return new StringValue(
+            replace(this.value, oldValue.value, newValue.value, count.value),
+          )
+        }),
+      ],
+    ])
+  }
+}
+
+/**
+ * Represents a string which is safe to output without escaping, like Python's `markupsafe.Markup`.
+ */
+export class SafeStringValue extends StringValue {
+  override type = "SafeStringValue"
+
+  /**
+   * Like the methods of `markupsafe.Markup`, the built-in methods return safe strings, and `replace` escapes the
+   * string it inserts.
+   */
+  protected override createBuiltins(): Map<string, AnyRuntimeValue> {
+    const builtins = super.createBuiltins()
+    for (const [name, builtin] of builtins) {
+      if (!(builtin instanceof FunctionValue)) {
+        continue
+      }
+      builtins.set(
+        name,
+        new FunctionValue((args, scope, context) => {
+          if (name === "replace" && args[1] instanceof StringValue) {
+            args = [args[0], escapeValue(args[1]), ...args.slice(2)]
+          }
+          const result = builtin.value(args, scope, context)
+          return result instanceof ArrayValue
+            ? new ArrayValue(result.value.map((x) => preserveSafety(this, x)))
+            : preserveSafety(this, result)
+        }),
+      )
+    }
+    return builtins
+  }
 }
 
 /**
@@ -306,23 +431,24 @@ export class ObjectValue extends RuntimeValue<Map<string, AnyRuntimeValue>> {
     return new BooleanValue(this.value.size > 0)
   }
 
-  override builtins: Map<string, AnyRuntimeValue> = new Map<
-    string,
-    AnyRuntimeValue
-  >([
-    [
-      "get",
-      new FunctionValue(([key, defaultValue]) => {
-        if (!(key instanceof StringValue)) {
-          throw new Error(`Object key must be a string: got ${key.type}`)
-        }
-        return this.value.get(key.value) ?? defaultValue ?? new NullValue()
-      }),
-    ],
-    ["items", new FunctionValue(() => this.items())],
-    ["keys", new FunctionValue(() => this.keys())],
-    ["values", new FunctionValue(() => this.values())],
-  ])
+  protected override createBuiltins(): Map<string, AnyRuntimeValue> {
+    return new Map<string, AnyRuntimeValue>([
+      [
+        "get",
+        new FunctionValue(([key, defaultValue]) => {
+          if (!(key instanceof StringValue)) {
+            throw new TemplateRuntimeError(
+              `Object key must be a string: got ${key.type}`,
+            )
+          }
+          return this.value.get(key.value) ?? defaultValue ?? new NullValue()
+        }),
+      ],
+      ["items", new FunctionValue(() => this.items())],
+      ["keys", new FunctionValue(() => this.keys())],
+      ["values", new FunctionValue(() => this.values())],
+    ])
+  }
 
   items(): ArrayValue {
     return new ArrayValue(
@@ -353,9 +479,11 @@ export class KeywordArgumentsValue extends ObjectValue {
  */
 export class ArrayValue extends RuntimeValue<AnyRuntimeValue[]> {
   override type = "ArrayValue"
-  override builtins = new Map<string, AnyRuntimeValue>([
-    ["length", new IntegerValue(this.value.length)],
-  ])
+  protected override createBuiltins(): Map<string, AnyRuntimeValue> {
+    return new Map<string, AnyRuntimeValue>([
+      ["length", new IntegerValue(this.value.length)],
+    ])
+  }
 
   /**
    * NOTE: necessary to override since all JavaScript arrays are considered truthy,
@@ -382,7 +510,11 @@ export class TupleValue extends ArrayValue {
  * Represents a Function value at runtime.
  */
 export class FunctionValue extends RuntimeValue<
-  (args: AnyRuntimeValue[], scope: Environment) => AnyRuntimeValue
+  (
+    args: AnyRuntimeValue[],
+    scope: Environment,
+    context?: Context,
+  ) => AnyRuntimeValue
 > {
   override type = "FunctionValue"
 }
@@ -395,15 +527,101 @@ export class NullValue extends RuntimeValue<null> {
 }
 
 /**
- * Represents an Undefined value at runtime.
+ * How undefined values behave, like the `Undefined` classes of Jinja:
+ * - `default` values are empty when printed or iterated, but fail on other operations such as attribute access.
+ * - `strict` values fail on every operation except for the `defined` tests and the `default` filter.
+ * - `chainable` values are like the default ones, but attribute access returns another undefined value.
+ * - `debug` values are like the default ones, but are printed as `{{ name }}` for debugging.
+ */
+export type UndefinedBehavior = "default" | "strict" | "chainable" | "debug"
+
+const PYTHON_TYPE_NAMES: Record<string, string> = {
+  StringValue: "str",
+  SafeStringValue: "Markup",
+  IntegerValue: "int",
+  FloatValue: "float",
+  BooleanValue: "bool",
+  ObjectValue: "dict",
+  KeywordArgumentsValue: "dict",
+  ArrayValue: "list",
+  TupleValue: "tuple",
+  FunctionValue: "function",
+  NullValue: "NoneType",
+}
+
+/**
+ * Represents an Undefined value at runtime, following the default behavior.
  */
 export class UndefinedValue extends RuntimeValue<undefined> {
   override type = "UndefinedValue"
+
+  /**
+   * @param hint Why the value is undefined, used instead of a generated message.
+   * @param object The object which is missing the attribute, if any.
+   * @param name The name of the missing variable or attribute.
+   */
+  constructor(
+    public hint?: string,
+    public object?: AnyRuntimeValue,
+    public name?: string,
+  ) {
+    super(undefined)
+  }
+
+  /**
+   * The error raised by operations which undefined values don't support.
+   */
+  error(): UndefinedError {
+    if (this.hint !== undefined) {
+      return new UndefinedError(this.hint)
+    }
+    if (this.object === undefined) {
+      return new UndefinedError(`'${this.name}' is undefined`)
+    }
+    return new UndefinedError(
+      `'${PYTHON_TYPE_NAMES[this.object.type] ?? this.object.type} object' has no attribute '${this.name}'`,
+    )
+  }
+
+  override toString(): string {
+    return ""
+  }
+}
+
+export class StrictUndefinedValue extends UndefinedValue {
+  override __bool__(): BooleanValue {
+    throw this.error()
+  }
+
+  override toString(): string {
+    throw this.error()
+  }
+}
+
+export class ChainableUndefinedValue extends UndefinedValue {}
+
+export class DebugUndefinedValue extends UndefinedValue {
+  override toString(): string {
+    if (this.hint !== undefined) {
+      return `{{ undefined value printed: ${this.hint} }}`
+    }
+    if (this.object === undefined) {
+      return `{{ ${this.name} }}`
+    }
+    return `{{ no such element: ${PYTHON_TYPE_NAMES[this.object.type] ?? this.object.type} object['${this.name}'] }}`
+  }
 }
 
 /**
  * Represents the current environment (scope) at runtime.
  */
+/**
+ * The templates most recently loaded by {@link Environment.getTemplate}, by their name, source and lexer options,
+ * like Jinja's template cache. Templates rendered again are neither parsed nor compiled again.
+ */
+const PARSED_TEMPLATES = new Map<string, Program>()
+const PARSED_TEMPLATES_SIZE = 400
+
 export class Environment {
   /**
    * The variables declared in this environment.
@@ -416,7 +634,7 @@ export class Environment {
           return new ObjectValue(new Map())
         }
         if (args.length !== 1 || !(args[0] instanceof ObjectValue)) {
-          throw new Error(
+          throw new TemplateRuntimeError(
             "`namespace` expects either zero arguments or a single object argument",
           )
         }
@@ -426,76 +644,84 @@ export class Environment {
   ])
 
   /**
-   * The tests available in this environment.
+   * The filters added to this environment, which are available in it and its child scopes besides the built-in ones.
    */
-  tests: Map<string, (...value: AnyRuntimeValue[]) => boolean> = new Map([
-    ["boolean", (operand) => operand.type === "BooleanValue"],
-    ["callable", (operand) => operand instanceof FunctionValue],
-    [
-      "odd",
-      (operand) => {
-        if (!(operand instanceof IntegerValue)) {
-          throw new Error(`cannot odd on ${operand.type}`)
-        }
-        return operand.value % 2 !== 0
-      },
-    ],
-    [
-      "even",
-      (operand) => {
-        if (!(operand instanceof IntegerValue)) {
-          throw new Error(`cannot even on ${operand.type}`)
-        }
-        return operand.value % 2 === 0
-      },
-    ],
-    [
-      "false",
-      (operand) =>
-        operand.type === "BooleanValue" && !(operand as BooleanValue).value,
-    ],
-    [
-      "true",
-      (operand) =>
-        operand.type === "BooleanValue" && (operand as BooleanValue).value,
-    ],
-    ["none", (operand) => operand.type === "NullValue"],
-    ["string", (operand) => operand.type === "StringValue"],
-    [
-      "number",
-      (operand) =>
-        operand instanceof IntegerValue || operand instanceof FloatValue,
-    ],
-    ["integer", (operand) => operand instanceof IntegerValue],
-    [
-      "iterable",
-      (operand) =>
-        operand.type === "ArrayValue" || operand.type === "StringValue",
-    ],
-    ["mapping", (operand) => operand.type === "ObjectValue"],
-    [
-      "lower",
-      (operand) => {
-        const str = (operand as StringValue).value
-        return operand.type === "StringValue" && str === str.toLowerCase()
-      },
-    ],
-    [
-      "upper",
-      (operand) => {
-        const str = (operand as StringValue).value
-        return operand.type === "StringValue" && str === str.toUpperCase()
-      },
-    ],
-    ["none", (operand) => operand.type === "NullValue"],
-    ["defined", (operand) => operand.type !== "UndefinedValue"],
-    ["undefined", (operand) => operand.type === "UndefinedValue"],
-    ["equalto", (a, b) => a.value === b.value],
-    ["eq", (a, b) => a.value === b.value],
-  ])
+  filters: Map<string, Filter> = new Map()
+
+  /**
+   * The tests added to this environment, available like its filters.
+   */
+  tests: Map<string, Test> = new Map()
+
+  /**
+   * The loader used to find included, imported and extended templates.
+   * Environments without a loader use the one of their parent.
+   */
+  loader?: TemplateLoader
+
+  /**
+   * The lexer options used to parse loaded templates, inherited like the loader.
+   */
+  options?: PreprocessOptions
+
+  /**
+   * Whether the output of expressions is escaped, inherited like the loader.
+   */
+  autoescape?: boolean
+
+  /**
+   * The translations used by trans blocks and the gettext globals, inherited like the loader.
+   */
+  translations?: Translations
+
+  /**
+   * How undefined variables and attributes behave, inherited like the loader.
+   */
+  undefinedBehavior?: UndefinedBehavior
+
+  /**
+   * The limits of sandboxed rendering, inherited like the loader. Templates are only sandboxed if set.
+   */
+  sandbox?: SandboxOptions
+
+  /**
+   * The template rendered in this environment, set on the top-level scope of each template.
+   */
+  template?: TemplateContext
 
   constructor(public parent?: Environment) {}
 
+  /**
+   * Load and parse a template using the closest loader.
+   * @param options The lexer options, defaulting to the closest ones set.
+   * @returns The parsed template, or undefined if it doesn't exist.
+   */
+  getTemplate(
+    name: string,
+    options: PreprocessOptions | undefined = this.options,
+  ): Program | undefined {
+    if (this.loader === undefined) {
+      return this.parent?.getTemplate(name, options ?? this.parent.options)
+    }
+    const source = this.loader.getSource(name)
+    if (source !== undefined) {
+      // Templates are parsed again only when their source changes
+      const key = JSON.stringify([name, source, options ?? {}])
+      let program = PARSED_TEMPLATES.get(key)
+      if (program === undefined) {
+        program = parse(tokenize(source, options ?? {}), false)
+        program.name = name
+        program.source = source
+      }
+      PARSED_TEMPLATES.delete(key)
+      PARSED_TEMPLATES.set(key, program)
+      if (PARSED_TEMPLATES.size > PARSED_TEMPLATES_SIZE) {
+        PARSED_TEMPLATES.delete(PARSED_TEMPLATES.keys().next().value)
+      }
+      return program
+    }
+  }
+
   /**
    * Set the value of a variable in the current environment.
    */
@@ -544,59 +770,2170 @@ export class Environment {
       return this.parent.resolve(name)
     }
 
-    throw new Error(`Unknown variable: ${name}`)
+    throw new TemplateRuntimeError(`Unknown variable: ${name}`)
   }
 
   lookupVariable(name: string): AnyRuntimeValue {
     try {
-      return this.resolve(name).variables.get(name) ?? new UndefinedValue()
+      return (
+        this.resolve(name).variables.get(name) ??
+        this.createUndefined(undefined, undefined, name)
+      )
     } catch {
-      return new UndefinedValue()
+      return this.createUndefined(undefined, undefined, name)
     }
   }
-}
-
-export function setupGlobals(env: Environment): void {
-  // Declare global variables
-  env.set("false", false)
-  env.set("true", true)
-  env.set("none", null)
-  env.set("raise_exception", (args: string) => {
-    throw new Error(args)
-  })
-  env.set("range", range)
-  env.set("strftime_now", strftime_now)
-
-  // NOTE: According to the Jinja docs: The special constants true, false, and none are indeed lowercase.
-  // Because that caused confusion in the past, (True used to expand to an undefined variable that was considered false),
-  // all three can now also be written in title case (True, False, and None). However, for consistency, (all Jinja identifiers are lowercase)
-  // you should use the lowercase versions.
-  env.set("True", true)
-  env.set("False", false)
-  env.set("None", null)
-}
-
-export class Interpreter {
-  global: Environment
 
-  constructor(env?: Environment) {
-    this.global = env ?? new Environment()
+  /**
+   * Add a filter, like Jinja's `Environment.filters`. The filter is called with the filtered value followed by the
+   * arguments bound to its parameters.
+   */
+  addFilter(
+    name: string,
+    filter: (...args: never[]) => unknown,
+    options: CallableOptions = {},
+  ): void {
+    const call = createCallable(name, filter, options, this)
+    this.filters.set(name, (operand, args, kwargs, context) =>
+      toRuntimeValue(call([operand], args, kwargs, context), options),
+    )
   }
 
   /**
-   * Run the program.
+   * Add a test, like Jinja's `Environment.tests`. The test is called with the tested value followed by the
+   * arguments bound to its parameters, and its result is converted to a boolean.
    */
-  run(program: Program): AnyRuntimeValue {
-    return this.evaluate(program, this.global)
+  addTest(
+    name: string,
+    test: (...args: never[]) => unknown,
+    options: CallableOptions = {},
+  ): void {
+    const call = createCallable(name, test, options, this)
+    this.tests.set(
+      name,
+      (operand, args, kwargs, context) =>
+        toRuntimeValue(
+          call([operand], args, kwargs, context),
+          options,
+        ).__bool__().value,
+    )
   }
 
   /**
-   * Evaluates expressions following the binary operation type.
+   * Add a global variable, like Jinja's `Environment.globals`. Functions are called with the arguments bound to
+   * their parameters, while other values are converted like the variables of templates.
    */
-  private evaluateBinaryExpression(
-    node: BinaryExpression,
-    environment: Environment,
-  ): AnyRuntimeValue {
+  addGlobal(name: string, value: unknown, options: CallableOptions = {}): void {
+    if (typeof value !== "function") {
+      this.setVariable(
+        name,
+        value instanceof RuntimeValue ? value : convertToRuntimeValues(value),
+      )
+      return
+    }
+    const call = createCallable(name, value as () => unknown, options, this)
+    this.setVariable(
+      name,
+      new FunctionValue((args, scope, context) => {
+        const last = args.at(-1)
+        return toRuntimeValue(
+          last instanceof KeywordArgumentsValue
+            ? call(
+                [],
+                args.slice(0, -1),
+                last.value,
+                context ?? new Context(scope, false),
+              )
+            : call([], args, new Map(), context ?? new Context(scope, false)),
+          options,
+        )
+      }),
+    )
+  }
+
+  /**
+   * Create an undefined value following the closest undefined behavior set.
+   */
+  createUndefined(
+    hint?: string,
+    object?: AnyRuntimeValue,
+    name?: string,
+  ): UndefinedValue {
+    switch (getUndefinedBehavior(this)) {
+      case "strict":
+        return new StrictUndefinedValue(hint, object, name)
+      case "chainable":
+        return new ChainableUndefinedValue(hint, object, name)
+      case "debug":
+        return new DebugUndefinedValue(hint, object, name)
+      default:
+        return new UndefinedValue(hint, object, name)
+    }
+  }
+}
+
+/**
+ * A filter, called with the filtered value and the arguments of the filter expression.
+ */
+export type Filter = (
+  operand: AnyRuntimeValue,
+  args: AnyRuntimeValue[],
+  kwargs: Map<string, AnyRuntimeValue>,
+  context: Context,
+) => AnyRuntimeValue
+
+/**
+ * A test, called with the tested value and the arguments of the test expression.
+ */
+export type Test = (
+  operand: AnyRuntimeValue,
+  args: AnyRuntimeValue[],
+  kwargs: Map<string, AnyRuntimeValue>,
+  context: Context,
+) => boolean
+
+/**
+ * A parameter of a filter, test or global function, which is optional if it has a default value.
+ * Like in Python, a `*name` parameter collects the remaining positional arguments and a `**name` parameter the
+ * remaining keyword arguments.
+ */
+export type Parameter = string | [name: string, defaultValue: unknown]
+
+/**
+ * Options of the filters, tests and global functions added to an environment.
+ */
+export interface CallableOptions {
+  /**
+   * The parameters to which arguments are bound like in Python, so that they can be passed by keyword.
+   * Without parameters, the positional arguments are passed as given and keyword arguments are rejected.
+   */
+  parameters?: Parameter[]
+  /**
+   * Pass the context or the environment the callable was added to as the first argument, like Jinja's
+   * `pass_context` and `pass_environment` decorators.
+   */
+  pass?: "context" | "environment"
+  /**
+   * Pass the arguments and return the result as runtime values, e.g. to keep safe strings safe, rather than
+   * converting them to and from JavaScript values.
+   */
+  runtimeValues?: boolean
+}
+
+/**
+ * The state of a render passed to filters, tests and global functions, like Jinja's `Context`.
+ */
+export class Context {
+  constructor(
+    /**
+     * The scope in which the callable is called.
+     */
+    public scope: Environment,
+    /**
+     * Whether the output is currently escaped, like Jinja's `EvalContext.autoescape`.
+     */
+    public autoescape: boolean,
+    /**
+     * The calls made while evaluating the current expression when rendering asynchronously.
+     */
+    public calls?: CallLog,
+  ) {}
+
+  /**
+   * Look up a variable of the template, like Jinja's `Context.resolve`.
+   */
+  resolve(name: string): AnyRuntimeValue {
+    return this.scope.lookupVariable(name)
+  }
+
+  /**
+   * Apply a filter by name, like Jinja's `Environment.call_filter`.
+   */
+  callFilter(
+    name: string,
+    operand: AnyRuntimeValue,
+    args: AnyRuntimeValue[] = [],
+    kwargs: Map<string, AnyRuntimeValue> = new Map(),
+  ): AnyRuntimeValue {
+    const filter = findFilter(this.scope, name)
+    if (!filter) {
+      throw new TemplateRuntimeError(`Unknown filter: ${name}`)
+    }
+    return filter(operand, args, kwargs, this)
+  }
+
+  /**
+   * Apply a test by name, like Jinja's `Environment.call_test`.
+   */
+  callTest(
+    name: string,
+    operand: AnyRuntimeValue,
+    args: AnyRuntimeValue[] = [],
+    kwargs: Map<string, AnyRuntimeValue> = new Map(),
+  ): boolean {
+    const test = findTest(this.scope, name)
+    if (!test) {
+      throw new TemplateRuntimeError(`Unknown test: ${name}`)
+    }
+    return test(operand, args, kwargs, this)
+  }
+}
+
+/**
+ * The calls made while evaluating an expression when rendering asynchronously. When a function returns a promise,
+ * the expression is evaluated again once it settles, and the calls that were already made return their results.
+ */
+export class CallLog {
+  private results: { value: unknown; next: number }[] = []
+
+  /**
+   * The position of the next call.
+   */
+  index = 0
+
+  /**
+   * Make a call, or return its result if it was already made.
+   */
+  call<T>(call: () => T): T {
+    const index = this.index++
+    const recorded = this.results[index]
+    if (recorded) {
+      // Skip the calls made by the call
+      this.index = recorded.next
+      return recorded.value as T
+    }
+    const value = call()
+    this.results[index] = { value, next: this.index }
+    return value
+  }
+
+  /**
+   * Call a JavaScript function, and wait for its result if it's a promise or an async iterable.
+   */
+  await(call: () => unknown): unknown {
+    const index = this.index
+    return this.call(() => {
+      const result = call()
+      if (!isAsync(result)) {
+        return result
+      }
+      const next = this.index
+      throw new PendingCall(
+        settle(result).then((value) => {
+          this.results[index] = { value, next }
+        }),
+      )
+    })
+  }
+}
+
+function isAsync(
+  value: unknown,
+): value is PromiseLike<unknown> | AsyncIterable<unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (typeof (value as PromiseLike<unknown>).then === "function" ||
+      Symbol.asyncIterator in value)
+  )
+}
+
+/**
+ * Wait for a promise, or collect the items of an async iterable into an array.
+ */
+async function settle(
+  value: PromiseLike<unknown> | AsyncIterable<unknown>,
+): Promise<unknown> {
+  if (!(Symbol.asyncIterator in value)) {
+    return await value
+  }
+  const items = []
+  for await (const item of value) {
+    items.push(item)
+  }
+  return items
+}
+
+/**
+ * Call a JavaScript function from a template, whose result can only be a promise when rendering asynchronously.
+ */
+function callJavaScript(
+  context: Context | undefined,
+  call: () => unknown,
+): unknown {
+  if (context?.calls) {
+    return context.calls.await(call)
+  }
+  const result = call()
+  if (isAsync(result)) {
+    throw new TemplateRuntimeError(
+      "Cannot wait for the result of an async function: render the template with renderAsync",
+    )
+  }
+  return result
+}
+
+function findFilter(
+  environment: Environment,
+  name: string,
+): Filter | undefined {
+  return (
+    environment.filters.get(name) ??
+    (environment.parent
+      ? findFilter(environment.parent, name)
+      : BUILTINS.filters.get(name))
+  )
+}
+
+function findTest(environment: Environment, name: string): Test | undefined {
+  return (
+    environment.tests.get(name) ??
+    (environment.parent
+      ? findTest(environment.parent, name)
+      : BUILTINS.tests.get(name))
+  )
+}
+
+/**
+ * Wrap a filter, test or global function so that it's called with its arguments bound to its parameters.
+ * @returns A function taking the values passed before the arguments, e.g. the filtered value, and the arguments.
+ */
+function createCallable(
+  name: string,
+  callable: (...args: never[]) => unknown,
+  { parameters, pass, runtimeValues = false }: CallableOptions,
+  environment: Environment,
+): (
+  leading: AnyRuntimeValue[],
+  args: AnyRuntimeValue[],
+  kwargs: Map<string, AnyRuntimeValue>,
+  context: Context,
+) => unknown {
+  const bound = parameters?.map((parameter): [string, AnyRuntimeValue?] =>
+    typeof parameter === "string"
+      ? [parameter]
+      : [
+          parameter[0],
+          parameter[1] instanceof RuntimeValue
+            ? (parameter[1] as AnyRuntimeValue)
+            : convertToRuntimeValues(parameter[1]),
+        ],
+  )
+  return (leading, args, kwargs, context) => {
+    if (!bound && kwargs.size > 0) {
+      throw new TemplateRuntimeError(
+        `${name}() got an unexpected keyword argument '${kwargs.keys().next().value}'`,
+      )
+    }
+    const values = [
+      ...leading,
+      ...(bound ? bindArguments(name, bound, args, kwargs) : args),
+    ]
+    return callJavaScript(context, () =>
+      (callable as (...args: unknown[]) => unknown)(
+        ...(pass === "context"
+          ? [context]
+          : pass === "environment"
+            ? [environment]
+            : []),
+        ...(runtimeValues
+          ? values
+          : values.map((value) => toJavaScript(value, context.scope))),
+      ),
+    )
+  }
+}
+
+/**
+ * Convert the result of a filter, test or global function to a runtime value.
+ */
+function toRuntimeValue(
+  result: unknown,
+  { runtimeValues = false }: CallableOptions,
+): AnyRuntimeValue {
+  if (runtimeValues) {
+    if (!(result instanceof RuntimeValue)) {
+      throw new TemplateRuntimeError(
+        `Expected a runtime value: got ${typeof result}`,
+      )
+    }
+    return result as AnyRuntimeValue
+  }
+  return convertToRuntimeValues(result ?? null)
+}
+
+/**
+ * Convert a runtime value to a JavaScript value, the reverse of {@link convertToRuntimeValues}.
+ * @param scope The scope in which functions are called.
+ */
+function toJavaScript(value: AnyRuntimeValue, scope: Environment): unknown {
+  if (value instanceof ArrayValue) {
+    return value.value.map((item) => toJavaScript(item, scope))
+  } else if (value instanceof ObjectValue) {
+    return Object.fromEntries(
+      Array.from(value.value, ([key, item]) => [
+        key,
+        toJavaScript(item, scope),
+      ]),
+    )
+  } else if (value instanceof FunctionValue) {
+    return (...args: unknown[]) =>
+      toJavaScript(value.value(args.map(convertToRuntimeValues), scope), scope)
+  } else if (value instanceof UndefinedValue) {
+    return undefined
+  }
+  return value.value
+}
+
+/**
+ * The blocks of a template being rendered, collected from it and the templates it extends.
+ */
+export class TemplateContext {
+  /**
+   * The definitions of each block, from the most derived template to the base one.
+   */
+  blocks = new Map<string, Block[]>()
+
+  /**
+   * The `self` variable, with a function rendering each block.
+   */
+  self = new ObjectValue(new Map())
+
+  /**
+   * The template extended by the template currently being evaluated.
+   */
+  parent?: Program
+
+  /**
+   * @param environment The top-level scope shared by the template and the templates it extends.
+   */
+  constructor(public environment: Environment) {}
+}
+
+export function findTemplateContext(
+  environment: Environment | undefined,
+): TemplateContext | undefined {
+  if (environment !== undefined) {
+    return environment.template ?? findTemplateContext(environment.parent)
+  }
+}
+
+export function isAutoescaped(environment: Environment): boolean {
+  return (
+    environment.autoescape ??
+    (environment.parent ? isAutoescaped(environment.parent) : false)
+  )
+}
+
+function getUndefinedBehavior(environment: Environment): UndefinedBehavior {
+  return (
+    environment.undefinedBehavior ??
+    (environment.parent ? getUndefinedBehavior(environment.parent) : "default")
+  )
+}
+
+export function getSandbox(
+  environment: Environment,
+): SandboxOptions | undefined {
+  return (
+    environment.sandbox ??
+    (environment.parent ? getSandbox(environment.parent) : undefined)
+  )
+}
+
+function getTranslations(environment: Environment): Translations {
+  return (
+    environment.translations ??
+    (environment.parent
+      ? getTranslations(environment.parent)
+      : NULL_TRANSLATIONS)
+  )
+}
+
+const FORMAT_SPECIFIER =
+  /%(?:\(([^)]*)\))?([-+ 0#]*)(\*|\d+)?(?:\.(\*|\d+))?[hlL]?([diouxXeEfFgGcrsa%])/g
+
+/**
+ * Format a message like Python's `%` operator, as done by the `format` filter and with gettext messages.
+ * @param values The values of the conversions, or of the named ones such as `%(name)s`.
+ * @param convert Convert the values of `%s` conversions to strings.
+ */
+function formatMessage(
+  message: string,
+  values: AnyRuntimeValue[] | Map<string, AnyRuntimeValue>,
+  convert: (value: AnyRuntimeValue) => string = (value) => value.toString(),
+): string {
+  let index = 0
+  const next = () => {
+    if (values instanceof Map || index >= values.length) {
+      throw new TemplateRuntimeError("not enough arguments for format string")
+    }
+    return values[index++]
+  }
+  const result = message.replace(
+    FORMAT_SPECIFIER,
+    (match, name, flags, width, precision, conversion) => {
+      if (conversion === "%") {
+        return "%"
+      }
+      const toNumber = (value: string | undefined) =>
+        value === "*" ? Number(next().value) : value && Number(value)
+      width = toNumber(width)
+      precision = toNumber(precision)
+      let value
+      if (name === undefined) {
+        value = next()
+      } else if (!(values instanceof Map)) {
+        throw new TemplateRuntimeError("format requires a mapping")
+      } else {
+        value = values.get(name)
+        if (value === undefined) {
+          throw new TemplateRuntimeError(
+            `Missing value for placeholder in message: ${match}`,
+          )
+        }
+      }
+      return formatConversion(
+        value,
+        conversion,
+        flags,
+        width,
+        precision,
+        convert,
+      )
+    },
+  )
+  if (Array.isArray(values) && index < values.length) {
+    throw new TemplateRuntimeError(
+      "not all arguments converted during string formatting",
+    )
+  }
+  return result
+}
+
+/**
+ * Format a value following a conversion specifier of Python's `%` operator, e.g. `%-5d` or `%.2f`.
+ */
+function formatConversion(
+  value: AnyRuntimeValue,
+  conversion: string,
+  flags: string,
+  width: number | undefined,
+  precision: number | undefined,
+  convert: (value: AnyRuntimeValue) => string,
+): string {
+  let sign = ""
+  let prefix = ""
+  let body: string
+  const isNumeric = "diouxXeEfFgG".includes(conversion)
+  if (isNumeric) {
+    const isInteger = "oxX".includes(conversion)
+    if (
+      !(
+        value instanceof IntegerValue ||
+        value instanceof BooleanValue ||
+        (value instanceof FloatValue && !isInteger)
+      )
+    ) {
+      throw new TemplateRuntimeError(
+        `%${conversion} format: ${isInteger ? "an integer" : "a real number"} is required, not ${getPythonTypeName(value)}`,
+      )
+    }
+    let number = Number(value.value)
+    if (number < 0 || Object.is(number, -0)) {
+      sign = "-"
+      number = -number
+    } else if (flags.includes("+")) {
+      sign = "+"
+    } else if (flags.includes(" ")) {
+      sign = " "
+    }
+    const alternate = flags.includes("#")
+    switch (conversion.toLowerCase()) {
+      case "o":
+        body = number.toString(8)
+        prefix = alternate ? "0o" : ""
+        break
+      case "x":
+        body = number.toString(16)
+        prefix = alternate ? "0x" : ""
+        break
+      case "e":
+        body = formatExponential(number, precision ?? 6)
+        break
+      case "f":
+        body = toFixed(number, precision ?? 6)
+        break
+      case "g":
+        body = formatGeneral(number, precision ?? 6, alternate)
+        break
+      default:
+        body = Math.trunc(number)
+          .toString()
+          .padStart(precision ?? 0, "0")
+    }
+    if (conversion === conversion.toUpperCase()) {
+      body = body.toUpperCase()
+      prefix = prefix.toUpperCase()
+    }
+  } else if (conversion === "c") {
+    if (value instanceof IntegerValue) {
+      body = String.fromCodePoint(value.value)
+    } else if (value instanceof StringValue && [...value.value].length === 1) {
+      body = value.value
+    } else {
+      throw new TemplateRuntimeError(
+        "%c requires an int or a unicode character",
+      )
+    }
+  } else {
+    body = conversion === "s" ? convert(value) : toRepr(value)
+    body = precision === undefined ? body : body.slice(0, precision)
+  }
+
+  const padding = (width ?? 0) - sign.length - prefix.length - body.length
+  if (padding <= 0) {
+    return sign + prefix + body
+  } else if (flags.includes("-")) {
+    return sign + prefix + body + " ".repeat(padding)
+  } else if (flags.includes("0") && isNumeric) {
+    return sign + prefix + "0".repeat(padding) + body
+  }
+  return " ".repeat(padding) + sign + prefix + body
+}
+
+/**
+ * Format a non-negative number like Python's `%e` conversion, whose exponent has at least two digits.
+ */
+function formatExponential(value: number, precision: number): string {
+  if (!Number.isFinite(value)) {
+    return toFixed(value, 0)
+  }
+  return value.toExponential(precision).replace(/e([+-])(\d)$/, "e$10$2")
+}
+
+/**
+ * Format a non-negative number like Python's `%g` conversion, using the shorter of the `%e` and `%f` formats.
+ * @param alternate Whether to keep the trailing zeros.
+ */
+function formatGeneral(
+  value: number,
+  precision: number,
+  alternate: boolean,
+): string {
+  if (!Number.isFinite(value)) {
+    return toFixed(value, 0)
+  }
+  const significant = precision === 0 ? 1 : precision
+  const exponent =
+    value === 0 ? 0 : Number(value.toExponential(significant - 1).split("e")[1])
+  const body =
+    exponent >= -4 && exponent < significant
+      ? toFixed(value, significant - 1 - exponent)
+      : formatExponential(value, significant - 1)
+  return alternate
+    ? body
+    : body.replace(/(\.\d*?)0+(?=e|$)/, "$1").replace(/\.(?=e|$)/, "")
+}
+
+/**
+ * Build the message of a trans block in the format of gettext, where `{{ name }}` becomes `%(name)s`.
+ */
+function getTransMessage(body: Statement[]) {
+  let message = ""
+  const names: string[] = []
+  for (const statement of body) {
+    if (isText(statement)) {
+      message += (statement as StringLiteral).value.replaceAll("%", "%%")
+    } else if (statement instanceof Identifier) {
+      names.push(statement.value)
+      message += `%(${statement.value})s`
+    } else if (!(statement instanceof Comment)) {
+      throw new TemplateRuntimeError(
+        `Only text and variables are allowed in trans blocks: got ${statement.type}`,
+      )
+    }
+  }
+  return { message, names }
+}
+
+/**
+ * Find the location of a node in the source of its template, if the template was loaded for rendering.
+ */
+function getLocation(node: Node): SourceLocation | undefined {
+  let program: Program | undefined = undefined
+  for (
+    let current: Node | undefined = node;
+    current;
+    current = current.parent
+  ) {
+    if (current instanceof Program) {
+      program = current
+      break
+    }
+  }
+  const start = node.getStart()
+  const end = node.getEnd()
+  if (
+    program?.source === undefined ||
+    start === undefined ||
+    end === undefined
+  ) {
+    return undefined
+  }
+  const lines = program.source.slice(0, start).split("\n")
+  return {
+    template: program.name,
+    line: lines.length,
+    column: lines[lines.length - 1].length + 1,
+    start,
+    end,
+  }
+}
+
+/**
+ * Add the location of a node to an error propagating through it.
+ * The innermost node is the location of the error, and nodes which don't contain the previous location,
+ * e.g. calls of macros defined elsewhere or includes, are added to the template stack.
+ */
+export function addLocation(error: TemplateError, node: Node) {
+  const location = getLocation(node)
+  if (location === undefined) {
+    return
+  }
+  const previous = error.templateStack.at(-1) ?? error.location
+  if (previous === undefined) {
+    error.location = location
+  } else if (
+    previous.template !== location.template ||
+    previous.start < location.start ||
+    previous.end > location.end
+  ) {
+    error.templateStack.push(location)
+  }
+}
+
+/**
+ * Convert a value to a safe string, escaping it unless it's already safe.
+ */
+export function escapeValue(value: AnyRuntimeValue): SafeStringValue {
+  return value instanceof SafeStringValue
+    ? value
+    : new SafeStringValue(escapeHtml(value.toString()))
+}
+
+/**
+ * Keep the result of a string filter safe if it was applied to a safe string, like the methods of `markupsafe.Markup`.
+ */
+function preserveSafety(
+  operand: AnyRuntimeValue,
+  result: AnyRuntimeValue,
+): AnyRuntimeValue {
+  return operand instanceof SafeStringValue && result.type === "StringValue"
+    ? new SafeStringValue((result as StringValue).value)
+    : result
+}
+
+function getPythonTypeName(value: AnyRuntimeValue): string {
+  return PYTHON_TYPE_NAMES[value.type] ?? value.type
+}
+
+/**
+ * Convert a value to a string like Jinja's `soft_str`, keeping safe strings safe.
+ * NOTE: Arrays and objects are converted to JSON, as when printing them.
+ */
+function softString(value: AnyRuntimeValue): StringValue {
+  if (value instanceof StringValue) {
+    return value
+  }
+  return new StringValue(
+    value instanceof ArrayValue || value instanceof ObjectValue
+      ? toJSON(value)
+      : value.toString(),
+  )
+}
+
+/**
+ * Represent a string like Python's `repr()`, quoted with single quotes unless it only contains those.
+ */
+function reprString(value: string): string {
+  const quote = value.includes("'") && !value.includes('"') ? '"' : "'"
+  // eslint-disable-next-line no-control-regex
+  const escaped = value.replace(/[\\\n\r\t\x00-\x1f\x7f'"]/g, (c) => {
+    switch (c) {
+      case "\\":
+        return "\\\\"
+      case "\n":
+        return "\\n"
+      case "\r":
+        return "\\r"
+      case "\t":
+        return "\\t"
+      case "'":
+      case '"':
+        return c === quote ? "\\" + c : c
+      default:
+        return "\\x" + c.charCodeAt(0).toString(16).padStart(2, "0")
+    }
+  })
+  return quote + escaped + quote
+}
+
+/**
+ * Represent a value like Python's `repr()`, as done by the `%r` conversion.
+ * @param sortKeys Whether to sort the keys of objects, as done by `pprint`.
+ */
+function toRepr(value: AnyRuntimeValue, sortKeys = false): string {
+  if (value instanceof SafeStringValue) {
+    return `Markup(${reprString(value.value)})`
+  } else if (value instanceof StringValue) {
+    return reprString(value.value)
+  } else if (value instanceof BooleanValue) {
+    return value.value ? "True" : "False"
+  } else if (value instanceof NullValue) {
+    return "None"
+  } else if (value instanceof UndefinedValue) {
+    return "Undefined"
+  } else if (value instanceof ArrayValue) {
+    const items = value.value.map((item) => toRepr(item, sortKeys))
+    if (value instanceof TupleValue) {
+      return items.length === 1 ? `(${items[0]},)` : `(${items.join(", ")})`
+    }
+    return `[${items.join(", ")}]`
+  } else if (value instanceof ObjectValue) {
+    return `{${getEntries(value, sortKeys)
+      .map(([key, item]) => `${reprString(key)}: ${toRepr(item, sortKeys)}`)
+      .join(", ")}}`
+  } else if (value instanceof FunctionValue) {
+    return "<function>"
+  }
+  return value.toString()
+}
+
+function getEntries(
+  object: ObjectValue,
+  sortKeys: boolean,
+): [string, AnyRuntimeValue][] {
+  const entries = Array.from(object.value.entries())
+  return sortKeys
+    ? entries.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    : entries
+}
+
+/**
+ * Pretty print a value like Python's `pprint.pformat()`, putting the items of containers which don't fit in 80
+ * characters on separate lines.
+ * @param indent The column at which the value starts.
+ * @param allowance The number of characters which must follow the value on its last line.
+ */
+function pformat(value: AnyRuntimeValue, indent = 0, allowance = 0): string {
+  const repr = toRepr(value, true)
+  if (repr.length <= 80 - indent - allowance) {
+    return repr
+  }
+  if (value instanceof ObjectValue) {
+    const entries = getEntries(value, true)
+    return `{${entries
+      .map(([key, item], i) => {
+        const keyRepr = reprString(key)
+        const last = i === entries.length - 1
+        return `${keyRepr}: ${pformat(item, indent + keyRepr.length + 3, last ? allowance + 1 : 1)}`
+      })
+      .join(",\n" + " ".repeat(indent + 1))}}`
+  } else if (value instanceof ArrayValue) {
+    const close =
+      value instanceof TupleValue
+        ? value.value.length === 1
+          ? ",)"
+          : ")"
+        : "]"
+    return `${value instanceof TupleValue ? "(" : "["}${value.value
+      .map((item, i) =>
+        pformat(
+          item,
+          indent + 1,
+          i === value.value.length - 1 ? allowance + close.length : 1,
+        ),
+      )
+      .join(",\n" + " ".repeat(indent + 1))}${close}`
+  }
+  return repr
+}
+
+/**
+ * The items of an iterable value, where strings are iterated by character and objects by key.
+ */
+function toIterable(value: AnyRuntimeValue): AnyRuntimeValue[] {
+  if (value instanceof ArrayValue) {
+    return value.value
+  } else if (value instanceof StringValue) {
+    return Array.from(value.value, (c) => new StringValue(c))
+  } else if (value instanceof ObjectValue) {
+    return Array.from(value.value.keys(), (key) => new StringValue(key))
+  } else if (value instanceof UndefinedValue) {
+    if (value instanceof StrictUndefinedValue) {
+      throw value.error()
+    }
+    return []
+  }
+  throw new TemplateRuntimeError(
+    `'${getPythonTypeName(value)}' object is not iterable`,
+  )
+}
+
+/**
+ * Compare values like Python's `<` operator, for sorting.
+ * @returns A negative number if a comes before b, a positive one if it comes after it, and zero if they're equal.
+ */
+function compareValues(a: AnyRuntimeValue, b: AnyRuntimeValue): number {
+  const isNumber = (value: AnyRuntimeValue) =>
+    value instanceof IntegerValue ||
+    value instanceof FloatValue ||
+    value instanceof BooleanValue
+  if (isNumber(a) && isNumber(b)) {
+    return Number(a.value) - Number(b.value)
+  } else if (a instanceof StringValue && b instanceof StringValue) {
+    return a.value < b.value ? -1 : a.value > b.value ? 1 : 0
+  } else if (a instanceof ArrayValue && b instanceof ArrayValue) {
+    for (let i = 0; i < Math.min(a.value.length, b.value.length); ++i) {
+      const result = compareValues(a.value[i], b.value[i])
+      if (result !== 0) {
+        return result
+      }
+    }
+    return a.value.length - b.value.length
+  }
+  throw new TemplateRuntimeError(
+    `'<' not supported between instances of '${getPythonTypeName(a)}' and '${getPythonTypeName(b)}'`,
+  )
+}
+
+/**
+ * A key which is the same for equal values, like Python's `hash()`.
+ */
+function getHashKey(value: AnyRuntimeValue): string {
+  if (
+    value instanceof IntegerValue ||
+    value instanceof FloatValue ||
+    value instanceof BooleanValue
+  ) {
+    return `number:${Number(value.value)}`
+  } else if (value instanceof StringValue) {
+    return `string:${value.value}`
+  } else if (value instanceof ArrayValue) {
+    return `array:${JSON.stringify(value.value.map(getHashKey))}`
+  } else if (value instanceof ObjectValue) {
+    throw new TemplateRuntimeError(
+      `unhashable type: '${getPythonTypeName(value)}'`,
+    )
+  }
+  return value.type
+}
+
+/**
+ * Lowercase strings, to compare them case-insensitively.
+ */
+function ignoreCase(value: AnyRuntimeValue): AnyRuntimeValue {
+  return value instanceof StringValue
+    ? new StringValue(value.value.toLowerCase())
+    : value
+}
+
+/**
+ * Bind the arguments of a call to the parameters of a filter, test or global function, like Python does.
+ * @returns The value of each parameter, where `*` parameters get an array and `**` parameters an object.
+ */
+function bindArguments(
+  name: string,
+  parameters: [name: string, defaultValue?: AnyRuntimeValue][],
+  args: AnyRuntimeValue[],
+  kwargs: Map<string, AnyRuntimeValue>,
+): AnyRuntimeValue[] {
+  const variadic = parameters.findIndex(
+    ([parameter]) => parameter.startsWith("*") && !parameter.startsWith("**"),
+  )
+  const positional =
+    variadic === -1
+      ? parameters.filter(([parameter]) => !parameter.startsWith("**")).length
+      : variadic
+  if (variadic === -1 && args.length > positional) {
+    throw new TemplateRuntimeError(
+      `${name}() takes at most ${positional} argument${positional === 1 ? "" : "s"} (${args.length} given)`,
+    )
+  }
+  if (!parameters.some(([parameter]) => parameter.startsWith("**"))) {
+    for (const key of kwargs.keys()) {
+      if (!parameters.some(([parameter]) => parameter === key)) {
+        throw new TemplateRuntimeError(
+          `${name}() got an unexpected keyword argument '${key}'`,
+        )
+      }
+    }
+  }
+  const remaining = new Map(kwargs)
+  const values = parameters.map(([parameter, defaultValue], i) => {
+    if (parameter.startsWith("**")) {
+      const rest = new KeywordArgumentsValue(new Map(remaining))
+      remaining.clear()
+      return rest
+    } else if (parameter.startsWith("*")) {
+      return new ArrayValue(args.slice(i))
+    }
+    const keyword = remaining.get(parameter)
+    remaining.delete(parameter)
+    if (i < positional && i < args.length) {
+      if (keyword !== undefined) {
+        throw new TemplateRuntimeError(
+          `${name}() got multiple values for argument '${parameter}'`,
+        )
+      }
+      return args[i]
+    }
+    const value = keyword ?? defaultValue
+    if (value === undefined) {
+      throw new TemplateRuntimeError(
+        `${name}() missing required argument '${parameter}'`,
+      )
+    }
+    return value
+  })
+  return values
+}
+
+/**
+ * The number of a numeric argument, failing for other types.
+ */
+function toNumber(value: AnyRuntimeValue, parameter: string): number {
+  if (
+    value instanceof IntegerValue ||
+    value instanceof FloatValue ||
+    value instanceof BooleanValue
+  ) {
+    return Number(value.value)
+  } else if (value instanceof UndefinedValue) {
+    throw value.error()
+  }
+  throw new TemplateRuntimeError(
+    `${parameter} must be a number: got ${value.type}`,
+  )
+}
+
+/**
+ * Get a built-in attribute of a value. Like in Jinja, sandboxes only check the attributes which exist, not the items
+ * of objects, so `d._id` and `d["_id"]` may still look up the key of a dict.
+ */
+function getAttribute(
+  object: AnyRuntimeValue,
+  name: string,
+  environment: Environment,
+): AnyRuntimeValue | undefined {
+  const value = object.builtins.get(name)
+  const sandbox = getSandbox(environment)
+  if (
+    value !== undefined &&
+    sandbox &&
+    !(sandbox.isSafeAttribute ?? isSafeAttribute)(name)
+  ) {
+    throw new SecurityError(
+      `access to attribute '${name}' of '${getPythonTypeName(object)} object' is unsafe.`,
+    )
+  }
+  return value
+}
+
+/**
+ * Get an attribute or item of a value, like Jinja's `getattr` and `getitem`.
+ */
+export function getMember(
+  object: AnyRuntimeValue,
+  property: AnyRuntimeValue,
+  environment: Environment,
+): AnyRuntimeValue {
+  if (object instanceof UndefinedValue) {
+    if (object instanceof ChainableUndefinedValue) {
+      return object
+    }
+    throw object.error()
+  }
+
+  let value
+  if (object instanceof ObjectValue) {
+    if (!(property instanceof StringValue)) {
+      throw new TemplateRuntimeError(
+        `Cannot access property with non-string: got ${property.type}`,
+      )
+    }
+    value =
+      object.value.get(property.value) ??
+      getAttribute(object, property.value, environment)
+  } else if (object instanceof ArrayValue || object instanceof StringValue) {
+    if (property instanceof IntegerValue) {
+      value = object.value.at(property.value)
+      if (object instanceof StringValue) {
+        value = preserveSafety(
+          object,
+          new StringValue(object.value.at(property.value)),
+        )
+      }
+    } else if (property instanceof StringValue) {
+      value = getAttribute(object, property.value, environment)
+    } else {
+      throw new TemplateRuntimeError(
+        `Cannot access property with non-string/non-number: got ${property.type}`,
+      )
+    }
+  } else {
+    if (!(property instanceof StringValue)) {
+      throw new TemplateRuntimeError(
+        `Cannot access property with non-string: got ${property.type}`,
+      )
+    }
+    value = getAttribute(object, property.value, environment)
+  }
+
+  return value instanceof RuntimeValue
+    ? value
+    : environment.createUndefined(undefined, object, property.value?.toString())
+}
+
+/**
+ * Join the items of an array, resulting in a safe string when autoescaping and any of them is safe.
+ */
+function joinValues(
+  array: ArrayValue,
+  separator: StringValue,
+  autoescape: boolean,
+): StringValue {
+  if (
+    autoescape &&
+    [separator, ...array.value].some((x) => x instanceof SafeStringValue)
+  ) {
+    return new SafeStringValue(
+      array.value
+        .map((x) => escapeValue(softString(x)).value)
+        .join(escapeValue(separator).value),
+    )
+  }
+  return new StringValue(
+    array.value.map((x) => softString(x).value).join(separator.value),
+  )
+}
+
+/**
+ * Like in Jinja, the output of filters creating HTML is only made safe when autoescaping.
+ */
+function createHtmlString(html: string, autoescape: boolean): StringValue {
+  return autoescape ? new SafeStringValue(html) : new StringValue(html)
+}
+
+/**
+ * Create a function getting an attribute of items like Jinja's `make_attrgetter`, where dots access nested
+ * attributes and numbers access items by index.
+ * @param attribute The attribute, or null to get the items themselves.
+ */
+function makeAttributeGetter(
+  attribute: AnyRuntimeValue,
+  environment: Environment,
+  {
+    caseSensitive = true,
+    defaultValue,
+  }: { caseSensitive?: boolean; defaultValue?: AnyRuntimeValue } = {},
+): (item: AnyRuntimeValue) => AnyRuntimeValue {
+  const parts =
+    attribute instanceof NullValue
+      ? []
+      : attribute instanceof StringValue
+        ? attribute.value.split(".")
+        : [attribute]
+  return (item) => {
+    for (const part of parts) {
+      item = getMember(
+        item,
+        typeof part !== "string"
+          ? part
+          : /^\d+$/.test(part) && !(item instanceof ObjectValue)
+            ? new IntegerValue(Number(part))
+            : new StringValue(part),
+        environment,
+      )
+      if (
+        defaultValue &&
+        !(defaultValue instanceof NullValue) &&
+        item instanceof UndefinedValue
+      ) {
+        item = defaultValue
+      }
+    }
+    return caseSensitive ? item : ignoreCase(item)
+  }
+}
+
+/**
+ * Create a function getting several comma-separated attributes of items like Jinja's `make_multi_attrgetter`.
+ */
+function makeMultiAttributeGetter(
+  attribute: AnyRuntimeValue,
+  environment: Environment,
+  caseSensitive: boolean,
+): (item: AnyRuntimeValue) => ArrayValue {
+  const getters = (
+    attribute instanceof StringValue
+      ? attribute.value.split(",").map((x) => new StringValue(x))
+      : [attribute]
+  ).map((x) => makeAttributeGetter(x, environment, { caseSensitive }))
+  return (item) => new ArrayValue(getters.map((getter) => getter(item)))
+}
+
+/**
+ * Whether the statement is template data rather than an expression.
+ */
+export function isText(statement: Statement) {
+  return (
+    statement instanceof StringLiteral &&
+    statement.tokens[0]?.type === TOKEN_TYPES.Text
+  )
+}
+
+export function getRootEnvironment(environment: Environment): Environment {
+  return environment.parent
+    ? getRootEnvironment(environment.parent)
+    : environment
+}
+
+/**
+ * Apply a binary operator other than `and` and `or` to evaluated operands.
+ * @param autoescape Whether the output is escaped, in which case concatenating a safe string escapes the other operand.
+ */
+export function applyBinaryOperator(
+  operator: string,
+  left: AnyRuntimeValue,
+  right: AnyRuntimeValue,
+  autoescape: boolean,
+): AnyRuntimeValue {
+  for (const operand of [left, right]) {
+    if (operand instanceof StrictUndefinedValue) {
+      throw operand.error()
+    }
+  }
+
+  // Equality operators
+  if (left instanceof UndefinedValue || right instanceof UndefinedValue) {
+    // Undefined values are only equal to each other
+    switch (operator) {
+      case "==":
+        return new BooleanValue(left.type === right.type)
+      case "!=":
+        return new BooleanValue(left.type !== right.type)
+    }
+  }
+  switch (operator) {
+    case "==":
+      return new BooleanValue(left.value == right.value)
+    case "!=":
+      return new BooleanValue(left.value != right.value)
+  }
+
+  if (
+    (left instanceof UndefinedValue || right instanceof UndefinedValue) &&
+    operator !== "~"
+  ) {
+    if (
+      right instanceof UndefinedValue &&
+      ["in", "not in"].includes(operator)
+    ) {
+      // Special case: `anything in undefined` is `false` and `anything not in undefined` is `true`
+      return new BooleanValue(operator === "not in")
+    }
+    throw new TemplateRuntimeError(
+      `Cannot perform operation ${operator} on undefined values`,
+    )
+  } else if (left instanceof NullValue || right instanceof NullValue) {
+    throw new TemplateRuntimeError("Cannot perform operation on null values")
+  } else if (operator === "~") {
+    // toString and concatenation
+    if (
+      autoescape &&
+      (left instanceof SafeStringValue || right instanceof SafeStringValue)
+    ) {
+      return new SafeStringValue(
+        escapeValue(left).value + escapeValue(right).value,
+      )
+    }
+    const [a, b] = [left, right].map((operand) =>
+      operand instanceof UndefinedValue
+        ? operand.toString()
+        : operand.value.toString(),
+    )
+    return new StringValue(a + b)
+  } else if (
+    (left instanceof IntegerValue || left instanceof FloatValue) &&
+    (right instanceof IntegerValue || right instanceof FloatValue)
+  ) {
+    // Evaulate pure numeric operations with binary operators.
+    const a = left.value,
+      b = right.value
+    switch (operator) {
+      // Arithmetic operators
+      case "+":
+      case "-":
+      case "*": {
+        const res = operator === "+" ? a + b : operator === "-" ? a - b : a * b
+        const isFloat =
+          left instanceof FloatValue || right instanceof FloatValue
+        return isFloat ? new FloatValue(res) : new IntegerValue(res)
+      }
+      case "/":
+        return new FloatValue(a / b)
+      case "%": {
+        const rem = a % b
+        const isFloat =
+          left instanceof FloatValue || right instanceof FloatValue
+        return isFloat ? new FloatValue(rem) : new IntegerValue(rem)
+      }
+      // Comparison operators
+      case "<":
+        return new BooleanValue(a < b)
+      case ">":
+        return new BooleanValue(a > b)
+      case ">=":
+        return new BooleanValue(a >= b)
+      case "<=":
+        return new BooleanValue(a <= b)
+    }
+  } else if (left instanceof ArrayValue && right instanceof ArrayValue) {
+    // Evaluate array operands with binary operator.
+    switch (operator) {
+      case "+":
+        return new ArrayValue(left.value.concat(right.value))
+    }
+  } else if (right instanceof ArrayValue) {
+    const member = right.value.find((x) => x.value === left.value) !== undefined
+    switch (operator) {
+      case "in":
+        return new BooleanValue(member)
+      case "not in":
+        return new BooleanValue(!member)
+    }
+  }
+
+  if (left instanceof StringValue || right instanceof StringValue) {
+    // Support string concatenation as long as at least one operand is a string
+    switch (operator) {
+      case "+":
+        if (
+          left instanceof SafeStringValue ||
+          right instanceof SafeStringValue
+        ) {
+          // The other operand is escaped, as with `markupsafe.Markup`
+          return new SafeStringValue(
+            escapeValue(left).value + escapeValue(right).value,
+          )
+        }
+        return new StringValue(left.value.toString() + right.value.toString())
+    }
+  }
+
+  if (left instanceof StringValue && right instanceof StringValue) {
+    switch (operator) {
+      case "in":
+        return new BooleanValue(right.value.includes(left.value))
+      case "not in":
+        return new BooleanValue(!right.value.includes(left.value))
+    }
+  }
+
+  if (left instanceof StringValue && right instanceof ObjectValue) {
+    switch (operator) {
+      case "in":
+        return new BooleanValue(right.value.has(left.value))
+      case "not in":
+        return new BooleanValue(!right.value.has(left.value))
+    }
+  }
+
+  throw new TemplateRuntimeError(
+    `Unknown operator "${operator}" between ${left.type} and ${right.type}`,
+  )
+}
+
+/**
+ * Slice an array or a string with evaluated bounds, like Python.
+ */
+export function sliceValue(
+  object: ArrayValue | StringValue,
+  start: AnyRuntimeValue,
+  stop: AnyRuntimeValue,
+  step: AnyRuntimeValue,
+): ArrayValue | StringValue {
+  // Validate arguments
+  if (!(start instanceof IntegerValue || start instanceof UndefinedValue)) {
+    throw new TemplateRuntimeError("Slice start must be numeric or undefined")
+  }
+  if (!(stop instanceof IntegerValue || stop instanceof UndefinedValue)) {
+    throw new TemplateRuntimeError("Slice stop must be numeric or undefined")
+  }
+  if (!(step instanceof IntegerValue || step instanceof UndefinedValue)) {
+    throw new TemplateRuntimeError("Slice step must be numeric or undefined")
+  }
+
+  if (object instanceof ArrayValue) {
+    return new ArrayValue(
+      slice(object.value, start.value, stop.value, step.value),
+    )
+  } else {
+    const value = slice(
+      Array.from(object.value),
+      start.value,
+      stop.value,
+      step.value,
+    ).join("")
+    return object instanceof SafeStringValue
+      ? new SafeStringValue(value)
+      : new StringValue(value)
+  }
+}
+
+/**
+ * Call an evaluated function with evaluated arguments, keyword arguments being passed as the last one.
+ */
+export function callFunction(
+  fn: AnyRuntimeValue,
+  args: AnyRuntimeValue[],
+  environment: Environment,
+  context: Context,
+): AnyRuntimeValue {
+  if (fn instanceof UndefinedValue) {
+    throw fn.error()
+  }
+  if (fn.type !== "FunctionValue") {
+    throw new TemplateRuntimeError(
+      `Cannot call something that is not a function: got ${fn.type}`,
+    )
+  }
+  return (fn as FunctionValue).value(args, environment, context)
+}
+
+/**
+ * Assign an evaluated value to a variable, to the variables of a tuple or to an attribute of an object.
+ * @param evaluate Evaluates the object of an attribute.
+ */
+export function assign(
+  assignee: Expression,
+  value: AnyRuntimeValue,
+  environment: Environment,
+  evaluate: (expression: Expression) => AnyRuntimeValue,
+): void {
+  if (assignee.type === "Identifier") {
+    const variableName = (assignee as Identifier).value
+    environment.setVariable(variableName, value)
+  } else if (assignee.type === "TupleLiteral") {
+    const tuple = assignee as TupleLiteral
+    if (!(value instanceof ArrayValue)) {
+      throw new TemplateRuntimeError(
+        `Cannot unpack non-iterable type in set: ${value.type}`,
+      )
+    }
+    const arr = value.value
+    if (arr.length !== tuple.value.length) {
+      throw new TemplateRuntimeError(
+        `Too ${
+          tuple.value.length > arr.length ? "few" : "many"
+        } items to unpack in set`,
+      )
+    }
+    for (let i = 0; i < tuple.value.length; ++i) {
+      const elem = tuple.value[i]
+      if (elem.type !== "Identifier") {
+        throw new TemplateRuntimeError(
+          `Cannot unpack to non-identifier in set: ${elem.type}`,
+        )
+      }
+      environment.setVariable((elem as Identifier).value, arr[i])
+    }
+  } else if (assignee.type === "MemberExpression") {
+    const member = assignee as MemberExpression
+
+    const object = evaluate(member.object)
+    if (!(object instanceof ObjectValue)) {
+      throw new TemplateRuntimeError("Cannot assign to member of non-object")
+    }
+    if (member.property.type !== "Identifier") {
+      throw new TemplateRuntimeError(
+        "Cannot assign to member with non-identifier property",
+      )
+    }
+    object.value.set((member.property as Identifier).value, value)
+  } else {
+    throw new TemplateRuntimeError(
+      `Invalid LHS inside assignment expression: ${JSON.stringify(assignee)}`,
+    )
+  }
+}
+
+/**
+ * Bind the arguments of a macro call to the parameters of the macro in its scope.
+ * @param evaluate Evaluates the default values of parameters in the scope of the macro.
+ */
+export function bindMacroArguments(
+  node: Macro,
+  args: AnyRuntimeValue[],
+  macroScope: Environment,
+  evaluate: (expression: Expression) => AnyRuntimeValue,
+): void {
+  args = args.slice() // Make a copy of the arguments
+
+  // Separate positional and keyword arguments
+  let kwargs
+  if (args.at(-1)?.type === "KeywordArgumentsValue") {
+    kwargs = args.pop() as KeywordArgumentsValue
+  }
+
+  // Assign values to all arguments defined by the node
+  for (let i = 0; i < node.args.length; ++i) {
+    const nodeArg = node.args[i]
+    const passedArg = args[i]
+    if (nodeArg.type === "Identifier") {
+      const identifier = nodeArg as Identifier
+      if (!passedArg) {
+        throw new TemplateRuntimeError(
+          `Missing positional argument: ${identifier.value}`,
+        )
+      }
+      macroScope.setVariable(identifier.value, passedArg)
+    } else if (nodeArg.type === "KeywordArgumentExpression") {
+      const kwarg = nodeArg as KeywordArgumentExpression
+      const value =
+        passedArg ?? // Try positional arguments first
+        kwargs?.value.get(kwarg.key.value) ?? // Look in user-passed kwargs
+        evaluate(kwarg.value) // Use the default defined by the node
+      macroScope.setVariable(kwarg.key.value, value)
+    } else {
+      throw new TemplateRuntimeError(`Unknown argument type: ${nodeArg.type}`)
+    }
+  }
+}
+
+/**
+ * Bind the arguments passed to `caller` to the parameters of a call block in its scope.
+ */
+export function bindCallerArguments(
+  node: CallStatement,
+  callerArgs: AnyRuntimeValue[],
+  callBlockEnv: Environment,
+): void {
+  if (node.callerArgs) {
+    for (let i = 0; i < node.callerArgs.length; ++i) {
+      const param = node.callerArgs[i]
+      if (param.type !== "Identifier") {
+        throw new TemplateRuntimeError(
+          `Caller parameter must be an identifier, got ${param.type}`,
+        )
+      }
+      callBlockEnv.setVariable(
+        (param as Identifier).value,
+        callerArgs[i] ?? new UndefinedValue(),
+      )
+    }
+  }
+}
+
+/**
+ * The items a for loop iterates over: the items of an array, or the keys of an object.
+ */
+export function toLoopItems(iterable: AnyRuntimeValue): AnyRuntimeValue[] {
+  if (iterable instanceof UndefinedValue) {
+    if (iterable instanceof StrictUndefinedValue) {
+      throw iterable.error()
+    }
+    iterable = new ArrayValue([])
+  }
+
+  if (!(iterable instanceof ArrayValue || iterable instanceof ObjectValue)) {
+    throw new TemplateRuntimeError(
+      `Expected iterable or object type in for loop: got ${iterable.type}`,
+    )
+  }
+
+  if (iterable instanceof ObjectValue) {
+    iterable = iterable.keys()
+  }
+  return iterable.value
+}
+
+/**
+ * Create the function assigning an item of a for loop to the loop variables in a scope.
+ */
+export function createLoopAssignment(
+  node: For,
+  current: AnyRuntimeValue,
+): (scope: Environment) => void {
+  if (node.loopvar.type === "Identifier") {
+    return (scope: Environment) =>
+      scope.setVariable((node.loopvar as Identifier).value, current)
+  } else if (node.loopvar.type === "TupleLiteral") {
+    const loopvar = node.loopvar as TupleLiteral
+    if (current.type !== "ArrayValue") {
+      throw new TemplateRuntimeError(
+        `Cannot unpack non-iterable type: ${current.type}`,
+      )
+    }
+    const c = current as ArrayValue
+
+    // check if too few or many items to unpack
+    if (loopvar.value.length !== c.value.length) {
+      throw new TemplateRuntimeError(
+        `Too ${
+          loopvar.value.length > c.value.length ? "few" : "many"
+        } items to unpack`,
+      )
+    }
+
+    return (scope: Environment) => {
+      for (let j = 0; j < loopvar.value.length; ++j) {
+        if (loopvar.value[j].type !== "Identifier") {
+          throw new TemplateRuntimeError(
+            `Cannot unpack non-identifier type: ${loopvar.value[j].type}`,
+          )
+        }
+        scope.setVariable((loopvar.value[j] as Identifier).value, c.value[j])
+      }
+    }
+  } else {
+    throw new TemplateRuntimeError(
+      `Invalid loop variable(s): ${node.loopvar.type}`,
+    )
+  }
+}
+
+/**
+ * Create the `loop.changed` function, which tells whether it's called with other values than the last time.
+ */
+export function createChangedFunction(): FunctionValue {
+  let lastChanged: AnyRuntimeValue[] | undefined = undefined
+  return new FunctionValue((args) => {
+    const isChanged =
+      lastChanged === undefined ||
+      lastChanged.length !== args.length ||
+      args.some((arg, i) => arg.value != lastChanged![i].value)
+    lastChanged = args
+    return new BooleanValue(isChanged)
+  })
+}
+
+/**
+ * Create the `loop` variable of an iteration of a for loop.
+ * @param i The index of the iteration.
+ * @param scope The scope of the loop, in which undefined values are created.
+ */
+export function createLoopObject(
+  items: AnyRuntimeValue[],
+  i: number,
+  depth: number,
+  scope: Environment,
+  changed: FunctionValue,
+): Map<string, AnyRuntimeValue> {
+  // TODO: Only create object once, then update value?
+  return new Map([
+    ["index", new IntegerValue(i + 1)],
+    ["index0", new IntegerValue(i)],
+    ["revindex", new IntegerValue(items.length - i)],
+    ["revindex0", new IntegerValue(items.length - i - 1)],
+    ["first", new BooleanValue(i === 0)],
+    ["last", new BooleanValue(i === items.length - 1)],
+    ["length", new IntegerValue(items.length)],
+    [
+      "previtem",
+      i > 0 ? items[i - 1] : scope.createUndefined("there is no previous item"),
+    ],
+    [
+      "nextitem",
+      i < items.length - 1
+        ? items[i + 1]
+        : scope.createUndefined("there is no next item"),
+    ],
+    ["depth", new IntegerValue(depth)],
+    ["depth0", new IntegerValue(depth - 1)],
+    [
+      "cycle",
+      new FunctionValue((args) => {
+        if (args.length === 0) {
+          throw new TemplateRuntimeError("No items for cycling given")
+        }
+        return args[i % args.length]
+      }),
+    ],
+    ["changed", changed],
+  ] as [string, AnyRuntimeValue][])
+}
+
+/**
+ * Register the blocks defined in a template, which are rendered by the `self` variable or where they're defined.
+ * @param render Renders the most derived definition of a block.
+ */
+export function registerBlocks(
+  node: Node,
+  context: TemplateContext,
+  render: (name: string, scope: Environment) => StringValue,
+): void {
+  if (node instanceof Block) {
+    const name = node.name.value
+    if (!context.blocks.has(name)) {
+      context.blocks.set(name, [])
+      context.self.value.set(
+        name,
+        new FunctionValue((_args, scope) => render(name, scope)),
+      )
+    }
+    context.blocks.get(name).push(node)
+  }
+  for (const child of node.children) {
+    registerBlocks(child, context, render)
+  }
+}
+
+/**
+ * Find a definition of a block and create its scope, in which `super()` renders the definition it overrides.
+ * @param depth The index of the definition, starting from the most derived one.
+ */
+export function enterBlock(
+  name: string,
+  depth: number,
+  environment: Environment,
+  context: TemplateContext,
+  renderSuper: () => StringValue,
+): [Block, Environment] {
+  const definitions = context.blocks.get(name)
+  const block = definitions[depth]
+  if (block.required && depth === 0) {
+    throw new TemplateRuntimeError(`Required block '${name}' not found`)
+  }
+
+  // Blocks can only access the variables of the enclosing scope when scoped
+  const scope = new Environment(
+    block.scoped ? environment : context.environment,
+  )
+  scope.setVariable(
+    "super",
+    new FunctionValue(() => {
+      if (depth + 1 >= definitions.length) {
+        throw new TemplateRuntimeError(
+          `There is no parent block called '${name}'`,
+        )
+      }
+      return renderSuper()
+    }),
+  )
+  return [block, scope]
+}
+
+/**
+ * Load a template by its evaluated name, e.g. to extend or import it.
+ */
+export function loadTemplate(
+  name: AnyRuntimeValue,
+  environment: Environment,
+): Program {
+  if (!(name instanceof StringValue)) {
+    throw new TemplateRuntimeError(
+      `Template name must be a string: got ${name.type}`,
+    )
+  }
+  const template = environment.getTemplate(name.value)
+  if (template === undefined) {
+    throw new TemplateNotFound([name.value])
+  }
+  return template
+}
+
+/**
+ * Find the first existing template of an include statement by its evaluated name or list of names.
+ * @returns The template, or undefined if it's missing and ignored.
+ */
+export function findIncludedTemplate(
+  source: AnyRuntimeValue,
+  ignoreMissing: boolean,
+  environment: Environment,
+): Program | undefined {
+  const names = source instanceof ArrayValue ? source.value : [source]
+  for (const name of names) {
+    if (!(name instanceof StringValue)) {
+      throw new TemplateRuntimeError(
+        `Template name must be a string: got ${name.type}`,
+      )
+    }
+    const template = environment.getTemplate(name.value)
+    if (template !== undefined) {
+      return template
+    }
+  }
+
+  if (!ignoreMissing) {
+    throw new TemplateNotFound(names.map((name) => name.toString()))
+  }
+}
+
+/**
+ * Export the top-level variables and macros of a template evaluated as a module.
+ * @param predefined The variables of the scope of the module which aren't exported.
+ */
+export function exportModule(
+  scope: Environment,
+  predefined: Set<string>,
+): ObjectValue {
+  const exports = new Map<string, AnyRuntimeValue>()
+  for (const [key, value] of scope.variables) {
+    if (predefined.has(key) || key.startsWith("_")) {
+      continue
+    }
+    exports.set(
+      key,
+      value instanceof FunctionValue
+        ? // Macros are called from the module's scope rather than the caller's
+          new FunctionValue((args, callerScope) => {
+            const macroScope = new Environment(scope)
+            const caller = callerScope.lookupVariable("caller")
+            if (caller instanceof FunctionValue) {
+              macroScope.setVariable("caller", caller)
+            }
+            return value.value(args, macroScope)
+          })
+        : value,
+    )
+  }
+  return new ObjectValue(exports)
+}
+
+/**
+ * Assign the names imported by a from-import statement from an evaluated module.
+ */
+export function importNames(
+  node: FromImport,
+  module: ObjectValue,
+  environment: Environment,
+): void {
+  for (const { source, name } of node.imports) {
+    if (source.value.startsWith("_")) {
+      throw new TemplateRuntimeError(
+        `Names starting with an underline can't be imported: ${source.value}`,
+      )
+    }
+    environment.setVariable(
+      (name ?? source).value,
+      module.value.get(source.value) ??
+        environment.createUndefined(
+          `the template does not export the requested name '${source.value}'`,
+        ),
+    )
+  }
+}
+
+/**
+ * Translate the message of a trans statement and format it with its evaluated variables.
+ * @param autoescape Whether the output is escaped, in which case the variables are escaped.
+ */
+export function translateTrans(
+  node: Trans,
+  variables: Map<string, AnyRuntimeValue>,
+  environment: Environment,
+  autoescape: boolean,
+): StringValue {
+  const singular = getTransMessage(node.body)
+  const plural = node.pluralize && getTransMessage(node.pluralize.body)
+  const referenced = singular.names.concat(plural?.names ?? [])
+  for (const name of referenced) {
+    if (!variables.has(name)) {
+      variables.set(name, environment.lookupVariable(name))
+    }
+  }
+
+  let messages = [singular.message, plural?.message]
+  if (referenced.length === 0) {
+    // Messages without placeholders aren't formatted, so they're kept unescaped
+    messages = messages.map((message) => message?.replaceAll("%%", "%"))
+  }
+  if (node.trimmed?.value === "trimmed") {
+    messages = messages.map((message) =>
+      message?.trim().replace(/\s*\n\s*/g, " "),
+    )
+  }
+
+  let count: AnyRuntimeValue | undefined = undefined
+  if (node.pluralize) {
+    // The first bound or referenced variable is used by default
+    const countName =
+      node.pluralize.count?.value ??
+      node.bindings[0]?.name.value ??
+      singular.names[0]
+    if (countName === undefined) {
+      throw new TemplateRuntimeError("pluralize without variables")
+    }
+    count = variables.get(countName) ?? environment.lookupVariable(countName)
+  }
+
+  const translated = translate(
+    getTranslations(environment),
+    node.context?.value,
+    messages[0],
+    count && { message: messages[1], n: Number(count.value) },
+  )
+  const result =
+    variables.size === 0
+      ? translated
+      : formatMessage(translated, variables, (value) =>
+          autoescape ? escapeValue(value).value : value.toString(),
+        )
+  return autoescape ? new SafeStringValue(result) : new StringValue(result)
+}
+
+export function setupGlobals(env: Environment): void {
+  // Declare global variables
+  env.set("false", false)
+  env.set("true", true)
+  env.set("none", null)
+  env.addGlobal("raise_exception", (message: string) => {
+    throw new TemplateRuntimeError(message)
+  })
+  env.addGlobal(
+    "range",
+    (context: Context, ...args: number[]) => {
+      const [start, stop, step = 1] = args.length === 1 ? [0, args[0]] : args
+      if (getSandbox(context.scope) !== undefined) {
+        const length =
+          step > 0
+            ? Math.ceil((stop - start) / step)
+            : start < stop
+              ? Infinity
+              : 0
+        if (length > MAX_RANGE) {
+          throw new SecurityError(
+            `Range too big. The sandbox blocks ranges larger than MAX_RANGE (${MAX_RANGE}).`,
+          )
+        }
+      }
+      return range(start, stop, step)
+    },
+    { pass: "context" },
+  )
+  env.addGlobal("strftime_now", strftime_now)
+
+  // The gettext functions of the i18n extension, which format their keyword arguments like Jinja's newstyle gettext
+  const addGettext = (
+    name: string,
+    parameters: string[],
+    getMessage: (translations: Translations, args: string[]) => string,
+  ) =>
+    env.addGlobal(
+      name,
+      (context: Context, ...args: AnyRuntimeValue[]) => {
+        const variables = new Map((args.pop() as ObjectValue).value)
+        if (parameters.includes("n") && !variables.has("num")) {
+          variables.set("num", args[parameters.indexOf("n")])
+        }
+        return new StringValue(
+          formatMessage(
+            getMessage(
+              getTranslations(context.scope),
+              args.map((x) => x.toString()),
+            ),
+            variables,
+          ),
+        )
+      },
+      {
+        parameters: [...parameters, "**variables"],
+        pass: "context",
+        runtimeValues: true,
+      },
+    )
+  for (const name of ["_", "gettext"]) {
+    addGettext(name, ["message"], (translations, [message]) =>
+      translate(translations, undefined, message),
+    )
+  }
+  addGettext(
+    "ngettext",
+    ["singular", "plural", "n"],
+    (translations, [singular, plural, n]) =>
+      translate(translations, undefined, singular, {
+        message: plural,
+        n: Number(n),
+      }),
+  )
+  addGettext("pgettext", ["context", "message"], (translations, args) =>
+    translate(translations, args[0], args[1]),
+  )
+  addGettext(
+    "npgettext",
+    ["context", "singular", "plural", "n"],
+    (translations, [context, singular, plural, n]) =>
+      translate(translations, context, singular, {
+        message: plural,
+        n: Number(n),
+      }),
+  )
+
+  // NOTE: According to the Jinja docs: The special constants true, false, and none are indeed lowercase.
+  // Because that caused confusion in the past, (True used to expand to an undefined variable that was considered false),
+  // all three can now also be written in title case (True, False, and None). However, for consistency, (all Jinja identifiers are lowercase)
+  // you should use the lowercase versions.
+  env.set("True", true)
+  env.set("False", false)
+  env.set("None", null)
+}
+
+export class Interpreter {
+  global: Environment
+
+  /**
+   * Whether the output of expressions is currently escaped, which changes in autoescape blocks.
+   */
+  private autoescape = false
+
+  /**
+   * The limits of a sandboxed run and how much of them was used.
+   */
+  private sandbox?: {
+    options: SandboxOptions
+    operations: number
+    iterations: number
+    deadline: number
+  }
+
+  /**
+   * Whether functions can return promises, which are waited for.
+   */
+  private async = false
+
+  /**
+   * When running asynchronously, the calls made while evaluating the current expression.
+   */
+  private calls?: CallLog
+
+  constructor(env?: Environment) {
+    this.global = env ?? new Environment()
+  }
+
+  /**
+   * Run the program.
+   */
+  run(program: Program): AnyRuntimeValue {
+    this.startSandbox()
+    return this.evaluate(program, this.global)
+  }
+
+  /**
+   * Run the program, producing its output in chunks as it's rendered, like Jinja's `Template.generate`.
+   */
+  *generate(program: Program): Generator<string, void, undefined> {
+    this.startSandbox()
+    let length = 0
+    for (const chunk of this.render([program], this.global)) {
+      // Promises are only produced when running asynchronously
+      length += (chunk as string).length
+      this.checkOutputLength(length)
+      yield chunk as string
+    }
+  }
+
+  /**
+   * Run the program like {@link generate}, waiting for the promises returned by functions like Jinja's
+   * `enable_async`. An expression that calls a function returning a promise is evaluated again once the promise
+   * settles, without making again the calls it already made.
+   */
+  async *generateAsync(
+    program: Program,
+  ): AsyncGenerator<string, void, undefined> {
+    this.startSandbox()
+    this.async = true
+    const rendering = this.render([program], this.global)
+    try {
+      let length = 0
+      let next = rendering.next()
+      while (!next.done) {
+        if (typeof next.value === "string") {
+          length += next.value.length
+          this.checkOutputLength(length)
+          yield next.value
+          next = rendering.next()
+          continue
+        }
+        try {
+          await next.value
+        } catch (error) {
+          next = rendering.throw(error)
+          continue
+        }
+        next = rendering.next()
+      }
+    } finally {
+      // Stop rendering when the output isn't consumed anymore
+      rendering.return()
+    }
+  }
+
+  /**
+   * Run the program asynchronously, see {@link generateAsync}.
+   */
+  async runAsync(program: Program): Promise<StringValue> {
+    let result = ""
+    for await (const chunk of this.generateAsync(program)) {
+      result += chunk
+    }
+    return new StringValue(result)
+  }
+
+  private startSandbox() {
+    const options = getSandbox(this.global)
+    this.sandbox = options && {
+      options,
+      operations: 0,
+      iterations: 0,
+      deadline: Date.now() + (options.timeout ?? Infinity),
+    }
+  }
+
+  /**
+   * Enforce the limits of the sandbox before evaluating a statement.
+   */
+  private checkSandbox(statement: Statement) {
+    const sandbox = this.sandbox!
+    if (Date.now() > sandbox.deadline) {
+      throw new SecurityError(
+        `Rendering took longer than ${sandbox.options.timeout}ms`,
+      )
+    }
+    if (
+      [
+        "BinaryExpression",
+        "UnaryExpression",
+        "FilterExpression",
+        "TestExpression",
+        "CallExpression",
+      ].includes(statement.type) &&
+      ++sandbox.operations > (sandbox.options.maxOperations ?? Infinity)
+    ) {
+      throw new SecurityError(
+        `Too many operations: the limit is ${sandbox.options.maxOperations}`,
+      )
+    }
+  }
+
+  private checkOutputLength(length: number) {
+    const maxOutputLength = this.sandbox?.options.maxOutputLength ?? Infinity
+    if (length > maxOutputLength) {
+      throw new SecurityError(
+        `Output too long: the limit is ${maxOutputLength} characters`,
+      )
+    }
+  }
+
+  /**
+   * Evaluates expressions following the binary operation type.
+   */
+  private evaluateBinaryExpression(
+    node: BinaryExpression,
+    environment: Environment,
+  ): AnyRuntimeValue {
     const left = this.evaluate(node.left, environment)
 
     // Logical operators
@@ -612,116 +2949,12 @@ export class Interpreter {
           : this.evaluate(node.right, environment)
     }
 
-    // Equality operators
     const right = this.evaluate(node.right, environment)
-    switch (node.operator.value) {
-      case "==":
-        return new BooleanValue(left.value == right.value)
-      case "!=":
-        return new BooleanValue(left.value != right.value)
-    }
-
-    if (left instanceof UndefinedValue || right instanceof UndefinedValue) {
-      if (
-        right instanceof UndefinedValue &&
-        ["in", "not in"].includes(node.operator.value)
-      ) {
-        // Special case: `anything in undefined` is `false` and `anything not in undefined` is `true`
-        return new BooleanValue(node.operator.value === "not in")
-      }
-      throw new Error(
-        `Cannot perform operation ${node.operator.value} on undefined values`,
-      )
-    } else if (left instanceof NullValue || right instanceof NullValue) {
-      throw new Error("Cannot perform operation on null values")
-    } else if (node.operator.value === "~") {
-      // toString and concatenation
-      return new StringValue(left.value.toString() + right.value.toString())
-    } else if (
-      (left instanceof IntegerValue || left instanceof FloatValue) &&
-      (right instanceof IntegerValue || right instanceof FloatValue)
-    ) {
-      // Evaulate pure numeric operations with binary operators.
-      const a = left.value,
-        b = right.value
-      switch (node.operator.value) {
-        // Arithmetic operators
-        case "+":
-        case "-":
-        case "*": {
-          const res =
-            node.operator.value === "+"
-              ? a + b
-              : node.operator.value === "-"
-                ? a - b
-                : a * b
-          const isFloat =
-            left instanceof FloatValue || right instanceof FloatValue
-          return isFloat ? new FloatValue(res) : new IntegerValue(res)
-        }
-        case "/":
-          return new FloatValue(a / b)
-        case "%": {
-          const rem = a % b
-          const isFloat =
-            left instanceof FloatValue || right instanceof FloatValue
-          return isFloat ? new FloatValue(rem) : new IntegerValue(rem)
-        }
-        // Comparison operators
-        case "<":
-          return new BooleanValue(a < b)
-        case ">":
-          return new BooleanValue(a > b)
-        case ">=":
-          return new BooleanValue(a >= b)
-        case "<=":
-          return new BooleanValue(a <= b)
-      }
-    } else if (left instanceof ArrayValue && right instanceof ArrayValue) {
-      // Evaluate array operands with binary operator.
-      switch (node.operator.value) {
-        case "+":
-          return new ArrayValue(left.value.concat(right.value))
-      }
-    } else if (right instanceof ArrayValue) {
-      const member =
-        right.value.find((x) => x.value === left.value) !== undefined
-      switch (node.operator.value) {
-        case "in":
-          return new BooleanValue(member)
-        case "not in":
-          return new BooleanValue(!member)
-      }
-    }
-
-    if (left instanceof StringValue || right instanceof StringValue) {
-      // Support string concatenation as long as at least one operand is a string
-      switch (node.operator.value) {
-        case "+":
-          return new StringValue(left.value.toString() + right.value.toString())
-      }
-    }
-
-    if (left instanceof StringValue && right instanceof StringValue) {
-      switch (node.operator.value) {
-        case "in":
-          return new BooleanValue(right.value.includes(left.value))
-        case "not in":
-          return new BooleanValue(!right.value.includes(left.value))
-      }
-    }
-
-    if (left instanceof StringValue && right instanceof ObjectValue) {
-      switch (node.operator.value) {
-        case "in":
-          return new BooleanValue(right.value.has(left.value))
-        case "not in":
-          return new BooleanValue(!right.value.has(left.value))
-      }
-    }
-
-    throw new SyntaxError(
-      `Unknown operator "${node.operator.value}" between ${left.type} and ${right.type}`,
+    return applyBinaryOperator(
+      node.operator.value,
+      left,
+      right,
+      this.autoescape,
     )
   }
 
@@ -739,7 +2972,9 @@ export class Interpreter {
         const spreadNode = argument as SpreadExpression
         const val = this.evaluate(spreadNode.argument, environment)
         if (!(val instanceof ArrayValue)) {
-          throw new Error(`Cannot unpack non-iterable type: ${val.type}`)
+          throw new TemplateRuntimeError(
+            `Cannot unpack non-iterable type: ${val.type}`,
+          )
         }
         for (const item of val.value) {
           positionalArguments.push(item)
@@ -752,7 +2987,7 @@ export class Interpreter {
         )
       } else {
         if (keywordArguments.size > 0) {
-          throw new Error(
+          throw new TemplateRuntimeError(
             "Positional arguments must come before keyword arguments",
           )
         }
@@ -762,385 +2997,38 @@ export class Interpreter {
     return [positionalArguments, keywordArguments]
   }
 
+  /**
+   * The context passed to filters, tests and global functions called in a scope.
+   */
+  private createContext(environment: Environment): Context {
+    return new Context(environment, this.autoescape, this.calls)
+  }
+
+  /**
+   * Call a function, filter or test only once, even if the expression is evaluated again.
+   */
+  private call<T>(call: () => T): T {
+    return this.calls ? this.calls.call(call) : call()
+  }
+
   private applyFilter(
     operand: AnyRuntimeValue,
     filterNode: Identifier | CallExpression,
     environment: Environment,
-  ) {
-    // For now, we only support the built-in filters
-    // TODO: Add support for non-identifier filters
-    //   e.g., functions which return filters: {{ numbers | select("odd") }}
-    // TODO: Add support for user-defined filters
-    //   const filter = environment.lookupVariable(node.filter.value);
-    //   if (!(filter instanceof FunctionValue)) {
-    //     throw new Error(`Filter must be a function: got ${filter.type}`);
-    //   }
-    //   return filter.value([operand], environment);
-
-    // https://jinja.palletsprojects.com/en/3.0.x/templates/#list-of-builtin-filters
-
-    if (filterNode.type === "Identifier") {
-      const filter = filterNode as Identifier
-
-      if (filter.value === "tojson") {
-        return new StringValue(toJSON(operand))
-      }
-
-      if (operand instanceof ArrayValue) {
-        switch (filter.value) {
-          case "list":
-            return operand
-          case "first":
-            return operand.value[0]
-          case "last":
-            return operand.value[operand.value.length - 1]
-          case "length":
-            return new IntegerValue(operand.value.length)
-          case "reverse":
-            return new ArrayValue(operand.value.reverse())
-          case "sort":
-            return new ArrayValue(
-              operand.value.sort((a, b) => {
-                if (a.type !== b.type) {
-                  throw new Error(
-                    `Cannot compare different types: ${a.type} and ${b.type}`,
-                  )
-                }
-                switch (a.type) {
-                  case "IntegerValue":
-                  case "FloatValue":
-                    return (
-                      (a as IntegerValue | FloatValue).value -
-                      (b as IntegerValue | FloatValue).value
-                    )
-                  case "StringValue":
-                    return (a as StringValue).value.localeCompare(
-                      (b as StringValue).value,
-                    )
-                  default:
-                    throw new Error(`Cannot compare type: ${a.type}`)
-                }
-              }),
-            )
-          case "join":
-            return new StringValue(operand.value.map((x) => x.value).join(""))
-          case "string":
-            return new StringValue(toJSON(operand))
-          case "unique": {
-            const seen = new Set()
-            const output: AnyRuntimeValue[] = []
-            for (const item of operand.value) {
-              if (!seen.has(item.value)) {
-                seen.add(item.value)
-                output.push(item)
-              }
-            }
-            return new ArrayValue(output)
-          }
-          default:
-            throw new Error(`Unknown ArrayValue filter: ${filter.value}`)
-        }
-      } else if (operand instanceof StringValue) {
-        switch (filter.value) {
-          // Filters that are also built-in functions
-          case "length":
-          case "upper":
-          case "lower":
-          case "title":
-          case "capitalize": {
-            const builtin = operand.builtins.get(filter.value)
-            if (builtin instanceof FunctionValue) {
-              return builtin.value(/* no arguments */ [], environment)
-            } else if (builtin instanceof IntegerValue) {
-              return builtin
-            } else {
-              throw new Error(`Unknown StringValue filter: ${filter.value}`)
-            }
-          }
-          case "trim":
-            return new StringValue(operand.value.trim())
-          case "indent":
-            return new StringValue(
-              operand.value
-                .split("\n")
-                .map((x, i) =>
-                  // By default, don't indent the first line or empty lines
-                  i === 0 || x.length === 0 ? x : "    " + x,
-                )
-                .join("\n"),
-            )
-          case "join":
-          case "string":
-            return operand // no-op
-          case "int": {
-            const val = parseInt(operand.value, 10)
-            return new IntegerValue(isNaN(val) ? 0 : val)
-          }
-          case "float": {
-            const val = parseFloat(operand.value)
-            return new FloatValue(isNaN(val) ? 0.0 : val)
-          }
-          default:
-            throw new Error(`Unknown StringValue filter: ${filter.value}`)
-        }
-      } else if (
-        operand instanceof IntegerValue ||
-        operand instanceof FloatValue
-      ) {
-        switch (filter.value) {
-          case "abs":
-            return operand instanceof IntegerValue
-              ? new IntegerValue(Math.abs(operand.value))
-              : new FloatValue(Math.abs(operand.value))
-          case "int":
-            return new IntegerValue(Math.floor(operand.value))
-          case "float":
-            return new FloatValue(operand.value)
-          default:
-            throw new Error(`Unknown NumericValue filter: ${filter.value}`)
-        }
-      } else if (operand instanceof ObjectValue) {
-        switch (filter.value) {
-          case "items":
-            return new ArrayValue(
-              Array.from(operand.value.entries()).map(
-                ([key, value]) => new ArrayValue([new StringValue(key), value]),
-              ),
-            )
-          case "length":
-            return new IntegerValue(operand.value.size)
-          default:
-            throw new Error(`Unknown ObjectValue filter: ${filter.value}`)
-        }
-      } else if (operand instanceof BooleanValue) {
-        switch (filter.value) {
-          case "bool":
-            return new BooleanValue(operand.value)
-          case "int":
-            return new IntegerValue(operand.value ? 1 : 0)
-          case "float":
-            return new FloatValue(operand.value ? 1.0 : 0.0)
-          case "string":
-            return new StringValue(operand.value ? "true" : "false")
-          default:
-            throw new Error(`Unknown BooleanValue filter: ${filter.value}`)
-        }
-      }
-      throw new Error(
-        `Cannot apply filter "${filter.value}" to type: ${operand.type}`,
+  ): AnyRuntimeValue {
+    const context = this.createContext(environment)
+    if (filterNode instanceof Identifier) {
+      const name = filterNode.value
+      return this.call(() => context.callFilter(name, operand))
+    } else if (filterNode.callee instanceof Identifier) {
+      const name = filterNode.callee.value
+      const [args, kwargs] = this.evaluateArguments(
+        filterNode.args,
+        environment,
       )
-    } else if (filterNode.type === "CallExpression") {
-      const filter = filterNode as CallExpression
-
-      if (filter.callee.type !== "Identifier") {
-        throw new Error(`Unknown filter: ${filter.callee.type}`)
-      }
-      const filterName = (filter.callee as Identifier).value
-
-      if (filterName === "tojson") {
-        const [, kwargs] = this.evaluateArguments(filter.args, environment)
-        const indent = kwargs.get("indent") ?? new NullValue()
-        if (!(indent instanceof IntegerValue || indent instanceof NullValue)) {
-          throw new Error("If set, indent must be a number")
-        }
-        return new StringValue(toJSON(operand, indent.value))
-      } else if (filterName === "join") {
-        let value
-        if (operand instanceof StringValue) {
-          // NOTE: string.split('') breaks for unicode characters
-          value = Array.from(operand.value)
-        } else if (operand instanceof ArrayValue) {
-          value = operand.value.map((x) => x.value)
-        } else {
-          throw new Error(
-            `Cannot apply filter "${filterName}" to type: ${operand.type}`,
-          )
-        }
-        const [args, kwargs] = this.evaluateArguments(filter.args, environment)
-
-        const separator =
-          args.at(0) ?? kwargs.get("separator") ?? new StringValue("")
-        if (!(separator instanceof StringValue)) {
-          throw new Error("separator must be a string")
-        }
-
-        return new StringValue(value.join(separator.value))
-      } else if (filterName === "int" || filterName === "float") {
-        const [args, kwargs] = this.evaluateArguments(filter.args, environment)
-        const defaultValue =
-          args.at(0) ??
-          kwargs.get("default") ??
-          (filterName === "int" ? new IntegerValue(0) : new FloatValue(0.0))
-
-        if (operand instanceof StringValue) {
-          const val =
-            filterName === "int"
-              ? parseInt(operand.value, 10)
-              : parseFloat(operand.value)
-          return isNaN(val)
-            ? defaultValue
-            : filterName === "int"
-              ? new IntegerValue(val)
-              : new FloatValue(val)
-        } else if (
-          operand instanceof IntegerValue ||
-          operand instanceof FloatValue
-        ) {
-          return operand
-        } else if (operand instanceof BooleanValue) {
-          return filterName === "int"
-            ? new IntegerValue(operand.value ? 1 : 0)
-            : new FloatValue(operand.value ? 1.0 : 0.0)
-        } else {
-          throw new Error(
-            `Cannot apply filter "${filterName}" to type: ${operand.type}`,
-          )
-        }
-      } else if (filterName === "default") {
-        const [args, kwargs] = this.evaluateArguments(filter.args, environment)
-        const defaultValue = args[0] ?? new StringValue("")
-        const booleanValue =
-          args[1] ?? kwargs.get("boolean") ?? new BooleanValue(false)
-        if (!(booleanValue instanceof BooleanValue)) {
-          throw new Error("`default` filter flag must be a boolean")
-        }
-        if (
-          operand instanceof UndefinedValue ||
-          (booleanValue.value && !operand.__bool__().value)
-        ) {
-          return defaultValue
-        }
-        return operand
-      }
-
-      if (operand instanceof ArrayValue) {
-        switch (filterName) {
-          case "selectattr":
-          case "rejectattr": {
-            const select = filterName === "selectattr"
-
-            if (operand.value.some((x) => !(x instanceof ObjectValue))) {
-              throw new Error(
-                `\`${filterName}\` can only be applied to array of objects`,
-              )
-            }
-            if (filter.args.some((x) => x.type !== "StringLiteral")) {
-              throw new Error(`arguments of \`${filterName}\` must be strings`)
-            }
-
-            const [attr, testName, value] = filter.args.map((x) =>
-              this.evaluate(x, environment),
-            ) as StringValue[]
-
-            let testFunction: (...x: AnyRuntimeValue[]) => boolean
-            if (testName) {
-              // Get the test function from the environment
-              const test = environment.tests.get(testName.value)
-              if (!test) {
-                throw new Error(`Unknown test: ${testName.value}`)
-              }
-              testFunction = test
-            } else {
-              // Default to truthiness of first argument
-              testFunction = (...x: AnyRuntimeValue[]) => x[0].__bool__().value
-            }
-
-            // Filter the array using the test function
-            const filtered = (operand.value as ObjectValue[]).filter((item) => {
-              const a = item.value.get(attr.value)
-              const result = a ? testFunction(a, value) : false
-              return select ? result : !result
-            })
-
-            return new ArrayValue(filtered)
-          }
-          case "map": {
-            // Accumulate kwargs
-            const [, kwargs] = this.evaluateArguments(filter.args, environment)
-
-            if (kwargs.has("attribute")) {
-              // Mapping on attributes
-              const attr = kwargs.get("attribute")
-              if (!(attr instanceof StringValue)) {
-                throw new Error("attribute must be a string")
-              }
-              const defaultValue = kwargs.get("default")
-              const mapped = operand.value.map((item) => {
-                if (!(item instanceof ObjectValue)) {
-                  throw new Error("items in map must be an object")
-                }
-                return (
-                  item.value.get(attr.value) ??
-                  defaultValue ??
-                  new UndefinedValue()
-                )
-              })
-              return new ArrayValue(mapped)
-            } else {
-              throw new Error(
-                "`map` expressions without `attribute` set are not currently supported.",
-              )
-            }
-          }
-        }
-        throw new Error(`Unknown ArrayValue filter: ${filterName}`)
-      } else if (operand instanceof StringValue) {
-        switch (filterName) {
-          case "indent": {
-            // https://jinja.palletsprojects.com/en/3.1.x/templates/#jinja-filters.indent
-            // Return a copy of the string with each line indented by 4 spaces. The first line and blank lines are not indented by default.
-            // Parameters:
-            //  - width: Number of spaces, or a string, to indent by.
-            //  - first: Don't skip indenting the first line.
-            //  - blank: Don't skip indenting empty lines.
-
-            const [args, kwargs] = this.evaluateArguments(
-              filter.args,
-              environment,
-            )
-
-            const width =
-              args.at(0) ?? kwargs.get("width") ?? new IntegerValue(4)
-            if (!(width instanceof IntegerValue)) {
-              throw new Error("width must be a number")
-            }
-            const first =
-              args.at(1) ?? kwargs.get("first") ?? new BooleanValue(false)
-            const blank =
-              args.at(2) ?? kwargs.get("blank") ?? new BooleanValue(false)
-
-            const lines = operand.value.split("\n")
-            const indent = " ".repeat(width.value)
-            const indented = lines.map((x, i) =>
-              (!first.value && i === 0) || (!blank.value && x.length === 0)
-                ? x
-                : indent + x,
-            )
-            return new StringValue(indented.join("\n"))
-          }
-          case "replace": {
-            const replaceFn = operand.builtins.get("replace")
-            if (!(replaceFn instanceof FunctionValue)) {
-              throw new Error("replace filter not available")
-            }
-            const [args, kwargs] = this.evaluateArguments(
-              filter.args,
-              environment,
-            )
-            return replaceFn.value(
-              [...args, new KeywordArgumentsValue(kwargs)],
-              environment,
-            )
-          }
-        }
-        throw new Error(`Unknown StringValue filter: ${filterName}`)
-      } else {
-        throw new Error(
-          `Cannot apply filter "${filterName}" to type: ${operand.type}`,
-        )
-      }
+      return this.call(() => context.callFilter(name, operand, args, kwargs))
     }
-    throw new Error(`Unknown filter: ${filterNode.type}`)
+    throw new TemplateRuntimeError(`Unknown filter: ${filterNode.callee.type}`)
   }
 
   /**
@@ -1161,20 +3049,19 @@ export class Interpreter {
     node: TestExpression,
     environment: Environment,
   ): BooleanValue {
-    // For now, we only support the built-in tests
-    // https://jinja.palletsprojects.com/en/3.0.x/templates/#list-of-builtin-tests
-    //
-    // TODO: Add support for non-identifier tests. e.g., divisibleby(number)
     const operand = this.evaluate(node.operand, environment)
-
-    if (node.test instanceof CallExpression) {
-      throw new Error("Unsupported in runtime")
-    }
-    const test = environment.tests.get(node.test.value)
-    if (!test) {
-      throw new Error(`Unknown test: ${node.test.value}`)
+    const context = this.createContext(environment)
+    let result
+    if (node.test instanceof Identifier) {
+      const name = node.test.value
+      result = this.call(() => context.callTest(name, operand))
+    } else if (node.test.callee instanceof Identifier) {
+      const name = node.test.callee.value
+      const [args, kwargs] = this.evaluateArguments(node.test.args, environment)
+      result = this.call(() => context.callTest(name, operand, args, kwargs))
+    } else {
+      throw new TemplateRuntimeError(`Unknown test: ${node.test.callee.type}`)
     }
-    const result = test(operand)
     return new BooleanValue(node.negate ? !result : result)
   }
 
@@ -1203,9 +3090,11 @@ export class Interpreter {
 
     switch (node.operator.value) {
       case "not":
-        return new BooleanValue(!argument.value)
+        return new BooleanValue(!argument.__bool__().value)
       default:
-        throw new SyntaxError(`Unknown operator: ${node.operator.value}`)
+        throw new TemplateRuntimeError(
+          `Unknown operator: ${node.operator.value}`,
+        )
     }
   }
 
@@ -1219,33 +3108,329 @@ export class Interpreter {
       : this.evaluate(node.falseExpr, environment)
   }
 
-  private evalProgram(program: Program, environment: Environment): StringValue {
-    return this.evaluateBlock(program.body, environment)
+  /**
+   * Render a template along with the templates it extends, using the environment as its top-level scope.
+   * See https://jinja.palletsprojects.com/en/3.1.x/templates/#template-inheritance for more information.
+   */
+  private *renderProgram(
+    program: Program,
+    environment: Environment,
+  ): Rendering {
+    // Every template starts with the configured autoescaping, even when included in an autoescape block
+    yield* this.renderWithAutoescape(
+      isAutoescaped(environment),
+      this.renderTemplate(program, environment),
+    )
+  }
+
+  private *renderTemplate(
+    program: Program,
+    environment: Environment,
+  ): Rendering {
+    const context = new TemplateContext(environment)
+    environment.template = context
+    environment.setVariable("self", context.self)
+
+    let template: Program | undefined = program
+    while (template !== undefined) {
+      registerBlocks(template, context, (name, scope) =>
+        this.capture(this.renderBlock(name, 0, scope, context)),
+      )
+      context.parent = undefined
+      for (const statement of template.body) {
+        if (context.parent === undefined) {
+          yield* this.renderStatement(statement, environment)
+        } else if (
+          !(statement instanceof Block || statement instanceof Expression)
+        ) {
+          // Once a template extends another one, only its blocks and assignments matter
+          yield* this.evaluateAwaiting(statement, environment)
+        }
+      }
+      template = context.parent
+    }
+  }
+
+  /**
+   * Render a definition of a block, where `super()` renders the definition it overrides.
+   * @param depth The index of the definition, starting from the most derived one.
+   */
+  private *renderBlock(
+    name: string,
+    depth: number,
+    environment: Environment,
+    context: TemplateContext,
+  ): Rendering {
+    const [block, scope] = enterBlock(name, depth, environment, context, () =>
+      this.capture(this.renderBlock(name, depth + 1, environment, context)),
+    )
+    yield* this.render(block.body, scope)
+  }
+
+  private *renderBlockStatement(
+    node: Block,
+    environment: Environment,
+  ): Rendering {
+    const context = findTemplateContext(environment)
+    if (!context?.blocks.get(node.name.value)?.includes(node)) {
+      yield* this.render(node.body, new Environment(environment))
+      return
+    }
+    yield* this.renderBlock(node.name.value, 0, environment, context)
+  }
+
+  private evaluateExtends(node: Extends, environment: Environment): NullValue {
+    const context = findTemplateContext(environment)
+    if (context.parent !== undefined) {
+      throw new TemplateRuntimeError("Extended multiple times")
+    }
+    const name = this.evaluate(node.source, environment)
+    context.parent = loadTemplate(name, environment)
+    return new NullValue()
+  }
+
+  /**
+   * See https://jinja.palletsprojects.com/en/3.1.x/templates/#include for more information.
+   */
+  private *renderInclude(node: Include, environment: Environment): Rendering {
+    const source = yield* this.evaluateAwaiting(node.source, environment)
+    const template = findIncludedTemplate(
+      source,
+      node.ignoreMissing !== undefined,
+      environment,
+    )
+    if (template !== undefined) {
+      // Included templates have access to the current context by default
+      const scope = new Environment(
+        node.context?.value === "without"
+          ? getRootEnvironment(environment)
+          : environment,
+      )
+      yield* this.renderProgram(template, scope)
+    }
+  }
+
+  /**
+   * Evaluate a template as a module, whose top-level variables and macros are exported.
+   */
+  private evaluateModule(
+    source: Expression,
+    context: Identifier | undefined,
+    environment: Environment,
+  ): ObjectValue {
+    const name = this.evaluate(source, environment)
+    const template = loadTemplate(name, environment)
+
+    // Imported templates don't have access to the current context by default
+    const scope = new Environment(
+      context?.value === "with" ? environment : getRootEnvironment(environment),
+    )
+    const predefined = new Set(scope.variables.keys()).add("self")
+    this.capture(this.renderProgram(template, scope))
+
+    return exportModule(scope, predefined)
+  }
+
+  /**
+   * See https://jinja.palletsprojects.com/en/3.1.x/templates/#import for more information.
+   */
+  private evaluateImport(node: Import, environment: Environment): NullValue {
+    environment.setVariable(
+      node.name.value,
+      this.evaluateModule(node.source, node.context, environment),
+    )
+    return new NullValue()
+  }
+
+  private evaluateFromImport(
+    node: FromImport,
+    environment: Environment,
+  ): NullValue {
+    importNames(
+      node,
+      this.evaluateModule(node.source, node.context, environment),
+      environment,
+    )
+    return new NullValue()
   }
 
   private evaluateBlock(
     statements: Statement[],
     environment: Environment,
   ): StringValue {
-    // Jinja templates always evaluate to a String,
-    // so we accumulate the result of each statement into a final string
+    return this.capture(this.render(statements, environment))
+  }
 
+  /**
+   * Render at once, e.g. the body of a macro, and return the output.
+   */
+  private capture(rendering: Rendering): StringValue {
+    // Jinja templates always evaluate to a String,
+    // so we accumulate the output of each statement into a final string
     let result = ""
+    for (const chunk of rendering) {
+      // Promises are only produced outside of expressions, which wait for them instead
+      result += chunk as string
+      this.checkOutputLength(result.length)
+    }
+
+    return this.autoescape
+      ? new SafeStringValue(result)
+      : new StringValue(result)
+  }
+
+  private *render(
+    statements: Statement[],
+    environment: Environment,
+  ): Rendering {
     for (const statement of statements) {
-      const lastEvaluated: AnyRuntimeValue = this.evaluate(
-        statement,
-        environment,
+      yield* this.renderStatement(statement, environment)
+    }
+  }
+
+  /**
+   * Render a statement, rendering the bodies of the statements containing other ones as they go.
+   */
+  private *renderStatement(
+    statement: Statement,
+    environment: Environment,
+  ): Rendering {
+    const rendering = this.renderBody(statement, environment)
+    if (rendering !== undefined) {
+      try {
+        if (this.sandbox !== undefined) {
+          this.checkSandbox(statement)
+        }
+        yield* rendering
+      } catch (error) {
+        if (error instanceof TemplateError) {
+          addLocation(error, statement)
+        }
+        throw error
+      }
+      return
+    }
+
+    const evaluated = yield* this.evaluateAwaiting(statement, environment)
+
+    // Undefined values are printed according to their behavior, e.g. strict ones fail
+    if (evaluated.type !== "NullValue") {
+      // The output of statements was already escaped, only expressions need to be escaped
+      yield this.autoescape &&
+      statement instanceof Expression &&
+      !isText(statement)
+        ? escapeValue(evaluated).value
+        : evaluated.toString()
+    }
+  }
+
+  private renderBody(
+    statement: Statement,
+    environment: Environment,
+  ): Rendering | undefined {
+    switch (statement.type) {
+      case "Program":
+        return this.renderProgram(statement as Program, environment)
+      case "If":
+        return this.renderIf(statement as If, environment)
+      case "For":
+        return this.renderFor(statement as For, environment)
+      case "Block":
+        return this.renderBlockStatement(statement as Block, environment)
+      case "Include":
+        return this.renderInclude(statement as Include, environment)
+      case "Autoescape":
+        return this.renderAutoescape(statement as Autoescape, environment)
+    }
+  }
+
+  /**
+   * Evaluate while rendering. When running asynchronously, the statement or expression is evaluated again
+   * each time a function it calls returns a promise, once the promise settles.
+   */
+  private *evaluateAwaiting(
+    statement: Statement | undefined,
+    environment: Environment,
+  ): Generator<Promise<void>, AnyRuntimeValue> {
+    if (!this.async || this.calls) {
+      return this.evaluate(statement, environment)
+    }
+    const calls = new CallLog()
+    for (;;) {
+      this.calls = calls
+      calls.index = 0
+      try {
+        return this.evaluate(statement, environment)
+      } catch (error) {
+        if (!(error instanceof PendingCall)) {
+          throw error
+        }
+        this.calls = undefined
+        yield error.promise
+      } finally {
+        this.calls = undefined
+      }
+    }
+  }
+
+  /**
+   * Evaluate with autoescaping enabled or disabled, restoring the previous setting afterwards.
+   */
+  private withAutoescape<T>(autoescape: boolean, callback: () => T): T {
+    const previous = this.autoescape
+    this.autoescape = autoescape
+    try {
+      return callback()
+    } finally {
+      this.autoescape = previous
+    }
+  }
+
+  /**
+   * Render with autoescaping enabled or disabled, like {@link withAutoescape}.
+   */
+  private *renderWithAutoescape(
+    autoescape: boolean,
+    rendering: Rendering,
+  ): Rendering {
+    const previous = this.autoescape
+    this.autoescape = autoescape
+    try {
+      yield* rendering
+    } finally {
+      this.autoescape = previous
+    }
+  }
+
+  /**
+   * See https://jinja.palletsprojects.com/en/3.1.x/extensions/#i18n-extension for more information.
+   */
+  private evaluateTrans(node: Trans, environment: Environment): StringValue {
+    const variables = new Map<string, AnyRuntimeValue>()
+    for (const { name, value } of node.bindings) {
+      variables.set(
+        name.value,
+        value
+          ? this.evaluate(value, environment)
+          : environment.lookupVariable(name.value),
       )
-
-      if (
-        lastEvaluated.type !== "NullValue" &&
-        lastEvaluated.type !== "UndefinedValue"
-      ) {
-        result += lastEvaluated.toString()
-      }
     }
 
-    return new StringValue(result)
+    return translateTrans(node, variables, environment, this.autoescape)
+  }
+
+  /**
+   * See https://jinja.palletsprojects.com/en/3.1.x/templates/#autoescape-overrides for more information.
+   */
+  private *renderAutoescape(
+    node: Autoescape,
+    environment: Environment,
+  ): Rendering {
+    const value = yield* this.evaluateAwaiting(node.value, environment)
+    yield* this.renderWithAutoescape(
+      value.__bool__().value,
+      this.render(node.body, environment),
+    )
   }
 
   private evaluateIdentifier(
@@ -1268,12 +3453,8 @@ export class Interpreter {
     }
 
     const fn = this.evaluate(expr.callee, environment)
-    if (fn.type !== "FunctionValue") {
-      throw new Error(
-        `Cannot call something that is not a function: got ${fn.type}`,
-      )
-    }
-    return (fn as FunctionValue).value(args, environment)
+    const context = this.createContext(environment)
+    return this.call(() => callFunction(fn, args, environment, context))
   }
 
   private evaluateSliceExpression(
@@ -1282,38 +3463,13 @@ export class Interpreter {
     environment: Environment,
   ): ArrayValue | StringValue {
     if (!(object instanceof ArrayValue || object instanceof StringValue)) {
-      throw new Error("Slice object must be an array or string")
+      throw new TemplateRuntimeError("Slice object must be an array or string")
     }
 
     const start = this.evaluate(expr.start, environment)
     const stop = this.evaluate(expr.stop, environment)
     const step = this.evaluate(expr.step, environment)
-
-    // Validate arguments
-    if (!(start instanceof IntegerValue || start instanceof UndefinedValue)) {
-      throw new Error("Slice start must be numeric or undefined")
-    }
-    if (!(stop instanceof IntegerValue || stop instanceof UndefinedValue)) {
-      throw new Error("Slice stop must be numeric or undefined")
-    }
-    if (!(step instanceof IntegerValue || step instanceof UndefinedValue)) {
-      throw new Error("Slice step must be numeric or undefined")
-    }
-
-    if (object instanceof ArrayValue) {
-      return new ArrayValue(
-        slice(object.value, start.value, stop.value, step.value),
-      )
-    } else {
-      return new StringValue(
-        slice(
-          Array.from(object.value),
-          start.value,
-          stop.value,
-          step.value,
-        ).join(""),
-      )
-    }
+    return sliceValue(object, start, stop, step)
   }
 
   private evaluateMemberExpression(
@@ -1337,170 +3493,65 @@ export class Interpreter {
       property = new StringValue((expr.property as Identifier).value)
     }
 
-    let value
-    if (object instanceof ObjectValue) {
-      if (!(property instanceof StringValue)) {
-        throw new Error(
-          `Cannot access property with non-string: got ${property.type}`,
-        )
-      }
-      value =
-        object.value.get(property.value) ?? object.builtins.get(property.value)
-    } else if (object instanceof ArrayValue || object instanceof StringValue) {
-      if (property instanceof IntegerValue) {
-        value = object.value.at(property.value)
-        if (object instanceof StringValue) {
-          value = new StringValue(object.value.at(property.value))
-        }
-      } else if (property instanceof StringValue) {
-        value = object.builtins.get(property.value)
-      } else {
-        throw new Error(
-          `Cannot access property with non-string/non-number: got ${property.type}`,
-        )
-      }
-    } else {
-      if (!(property instanceof StringValue)) {
-        throw new Error(
-          `Cannot access property with non-string: got ${property.type}`,
-        )
-      }
-      value = object.builtins.get(property.value)
-    }
-
-    return value instanceof RuntimeValue ? value : new UndefinedValue()
+    return getMember(object, property, environment)
   }
 
   private evaluateSet(node: SetStatement, environment: Environment): NullValue {
     const rhs = node.value
       ? this.evaluate(node.value, environment)
       : this.evaluateBlock(node.body, environment)
-    if (node.assignee.type === "Identifier") {
-      const variableName = (node.assignee as Identifier).value
-      environment.setVariable(variableName, rhs)
-    } else if (node.assignee.type === "TupleLiteral") {
-      const tuple = node.assignee as TupleLiteral
-      if (!(rhs instanceof ArrayValue)) {
-        throw new Error(`Cannot unpack non-iterable type in set: ${rhs.type}`)
-      }
-      const arr = rhs.value
-      if (arr.length !== tuple.value.length) {
-        throw new Error(
-          `Too ${
-            tuple.value.length > arr.length ? "few" : "many"
-          } items to unpack in set`,
-        )
-      }
-      for (let i = 0; i < tuple.value.length; ++i) {
-        const elem = tuple.value[i]
-        if (elem.type !== "Identifier") {
-          throw new Error(
-            `Cannot unpack to non-identifier in set: ${elem.type}`,
-          )
-        }
-        environment.setVariable((elem as Identifier).value, arr[i])
-      }
-    } else if (node.assignee.type === "MemberExpression") {
-      const member = node.assignee as MemberExpression
-
-      const object = this.evaluate(member.object, environment)
-      if (!(object instanceof ObjectValue)) {
-        throw new Error("Cannot assign to member of non-object")
-      }
-      if (member.property.type !== "Identifier") {
-        throw new Error("Cannot assign to member with non-identifier property")
-      }
-      object.value.set((member.property as Identifier).value, rhs)
-    } else {
-      throw new Error(
-        `Invalid LHS inside assignment expression: ${JSON.stringify(
-          node.assignee,
-        )}`,
-      )
-    }
-
+    assign(node.assignee, rhs, environment, (expression) =>
+      this.evaluate(expression, environment),
+    )
     return new NullValue()
   }
 
-  private evaluateIf(node: If, environment: Environment): StringValue {
-    const test = this.evaluate(node.test, environment)
-    return this.evaluateBlock(
+  private *renderIf(node: If, environment: Environment): Rendering {
+    const test = yield* this.evaluateAwaiting(node.test, environment)
+    yield* this.render(
       test.__bool__().value ? node.body : node.alternate,
       environment,
     )
   }
 
-  private evaluateFor(node: For, environment: Environment): StringValue {
-    // Scope for the for loop
-    const scope = new Environment(environment)
-
+  private *renderFor(node: For, environment: Environment): Rendering {
     let test, iterable
     if (node.iterable.type === "SelectExpression") {
       const select = node.iterable as SelectExpression
-      iterable = this.evaluate(select.lhs, scope)
+      iterable = yield* this.evaluateAwaiting(select.lhs, environment)
       test = select.test
     } else {
-      iterable = this.evaluate(node.iterable, scope)
-    }
-
-    if (!(iterable instanceof ArrayValue || iterable instanceof ObjectValue)) {
-      throw new Error(
-        `Expected iterable or object type in for loop: got ${iterable.type}`,
-      )
+      iterable = yield* this.evaluateAwaiting(node.iterable, environment)
     }
+    yield* this.renderLoop(node, environment, iterable, test, 1)
+  }
 
-    if (iterable instanceof ObjectValue) {
-      iterable = iterable.keys()
-    }
+  /**
+   * Render the body of a for loop for each item of the iterable.
+   * Recursive loops render it again when `loop` is called with the children of an item, one level deeper.
+   */
+  private *renderLoop(
+    node: For,
+    environment: Environment,
+    iterable: AnyRuntimeValue,
+    test: Expression | undefined,
+    depth: number,
+  ): Rendering {
+    // Scope for the for loop
+    const scope = new Environment(environment)
 
-    const items: Expression[] = []
+    const candidates = toLoopItems(iterable)
+    const items: AnyRuntimeValue[] = []
     const scopeUpdateFunctions: ((scope: Environment) => void)[] = []
-    for (let i = 0; i < iterable.value.length; ++i) {
+    for (const current of candidates) {
       const loopScope = new Environment(scope)
 
-      const current = iterable.value[i]
-
-      let scopeUpdateFunction
-      if (node.loopvar.type === "Identifier") {
-        scopeUpdateFunction = (scope: Environment) =>
-          scope.setVariable((node.loopvar as Identifier).value, current)
-      } else if (node.loopvar.type === "TupleLiteral") {
-        const loopvar = node.loopvar as TupleLiteral
-        if (current.type !== "ArrayValue") {
-          throw new Error(`Cannot unpack non-iterable type: ${current.type}`)
-        }
-        const c = current as ArrayValue
-
-        // check if too few or many items to unpack
-        if (loopvar.value.length !== c.value.length) {
-          throw new Error(
-            `Too ${
-              loopvar.value.length > c.value.length ? "few" : "many"
-            } items to unpack`,
-          )
-        }
-
-        scopeUpdateFunction = (scope: Environment) => {
-          for (let j = 0; j < loopvar.value.length; ++j) {
-            if (loopvar.value[j].type !== "Identifier") {
-              throw new Error(
-                `Cannot unpack non-identifier type: ${loopvar.value[j].type}`,
-              )
-            }
-            scope.setVariable(
-              (loopvar.value[j] as Identifier).value,
-              c.value[j],
-            )
-          }
-        }
-      } else {
-        throw new Error(`Invalid loop variable(s): ${node.loopvar.type}`)
-      }
+      const scopeUpdateFunction = createLoopAssignment(node, current)
 
       if (test) {
         scopeUpdateFunction(loopScope)
 
-        const testValue = this.evaluate(test, loopScope)
+        const testValue = yield* this.evaluateAwaiting(test, loopScope)
         if (!testValue.__bool__().value) {
           continue
         }
@@ -1510,36 +3561,46 @@ export class Interpreter {
       scopeUpdateFunctions.push(scopeUpdateFunction)
     }
 
-    let result = ""
+    const changed = createChangedFunction()
+    const recurse = (args: AnyRuntimeValue[]) => {
+      if (args.length !== 1) {
+        throw new TemplateRuntimeError(
+          `Recursive loop expects exactly one iterable: got ${args.length} arguments`,
+        )
+      }
+      return this.capture(
+        this.renderLoop(node, environment, args[0], test, depth + 1),
+      )
+    }
 
-    let noIteration = true
     for (let i = 0; i < items.length; ++i) {
-      // Update the loop variable
-      // TODO: Only create object once, then update value?
-      const loop = new Map([
-        ["index", new IntegerValue(i + 1)],
-        ["index0", new IntegerValue(i)],
-        ["revindex", new IntegerValue(items.length - i)],
-        ["revindex0", new IntegerValue(items.length - i - 1)],
-        ["first", new BooleanValue(i === 0)],
-        ["last", new BooleanValue(i === items.length - 1)],
-        ["length", new IntegerValue(items.length)],
-        ["previtem", i > 0 ? items[i - 1] : new UndefinedValue()],
-        [
-          "nextitem",
-          i < items.length - 1 ? items[i + 1] : new UndefinedValue(),
-        ],
-      ] as [string, AnyRuntimeValue][])
+      if (
+        this.sandbox &&
+        ++this.sandbox.iterations >
+          (this.sandbox.options.maxIterations ?? Infinity)
+      ) {
+        throw new SecurityError(
+          `Too many loop iterations: the limit is ${this.sandbox.options.maxIterations}`,
+        )
+      }
 
-      scope.setVariable("loop", new ObjectValue(loop))
+      const loop = createLoopObject(items, i, depth, scope, changed)
+
+      if (node.recursive) {
+        // The loop is callable, so its members are exposed like the builtins of a function
+        const loopFunction = new FunctionValue(recurse)
+        loopFunction.builtins = loop
+        scope.setVariable("loop", loopFunction)
+      } else {
+        scope.setVariable("loop", new ObjectValue(loop))
+      }
 
       // Update scope for this iteration
       scopeUpdateFunctions[i](scope)
 
       try {
-        // Evaluate the body of the for loop
-        const evaluated = this.evaluateBlock(node.body, scope)
-        result += evaluated.value
+        // Render the body of the for loop
+        yield* this.render(node.body, scope)
       } catch (err) {
         if (err instanceof ContinueControl) {
           continue
@@ -1549,61 +3610,30 @@ export class Interpreter {
         }
         throw err
       }
-
-      // At least one iteration took place
-      noIteration = false
     }
 
     // no iteration took place, so we render the default block
-    if (noIteration) {
-      const defaultEvaluated = this.evaluateBlock(node.defaultBlock, scope)
-      result += defaultEvaluated.value
+    if (items.length === 0) {
+      yield* this.render(node.defaultBlock, scope)
     }
-
-    return new StringValue(result)
   }
 
   /**
    * See https://jinja.palletsprojects.com/en/3.1.x/templates/#macros for more information.
    */
   private evaluateMacro(node: Macro, environment: Environment): NullValue {
+    const autoescape = this.autoescape
     environment.setVariable(
       node.name.value,
       new FunctionValue((args, scope) => {
         const macroScope = new Environment(scope)
 
-        args = args.slice() // Make a copy of the arguments
-
-        // Separate positional and keyword arguments
-        let kwargs
-        if (args.at(-1)?.type === "KeywordArgumentsValue") {
-          kwargs = args.pop() as KeywordArgumentsValue
-        }
-
-        // Assign values to all arguments defined by the node
-        for (let i = 0; i < node.args.length; ++i) {
-          const nodeArg = node.args[i]
-          const passedArg = args[i]
-          if (nodeArg.type === "Identifier") {
-            const identifier = nodeArg as Identifier
-            if (!passedArg) {
-              throw new Error(
-                `Missing positional argument: ${identifier.value}`,
-              )
-            }
-            macroScope.setVariable(identifier.value, passedArg)
-          } else if (nodeArg.type === "KeywordArgumentExpression") {
-            const kwarg = nodeArg as KeywordArgumentExpression
-            const value =
-              passedArg ?? // Try positional arguments first
-              kwargs?.value.get(kwarg.key.value) ?? // Look in user-passed kwargs
-              this.evaluate(kwarg.value, macroScope) // Use the default defined by the node
-            macroScope.setVariable(kwarg.key.value, value)
-          } else {
-            throw new Error(`Unknown argument type: ${nodeArg.type}`)
-          }
-        }
-        return this.evaluateBlock(node.body, macroScope)
+        bindMacroArguments(node, args, macroScope, (expression) =>
+          this.evaluate(expression, macroScope),
+        )
+        return this.withAutoescape(autoescape, () =>
+          this.evaluateBlock(node.body, macroScope),
+        )
       }),
     )
 
@@ -1615,24 +3645,14 @@ export class Interpreter {
     node: CallStatement,
     environment: Environment,
   ): AnyRuntimeValue {
+    const autoescape = this.autoescape
     const callerFn = new FunctionValue(
       (callerArgs: AnyRuntimeValue[], callerEnv: Environment) => {
         const callBlockEnv = new Environment(callerEnv)
-        if (node.callerArgs) {
-          for (let i = 0; i < node.callerArgs.length; ++i) {
-            const param = node.callerArgs[i]
-            if (param.type !== "Identifier") {
-              throw new Error(
-                `Caller parameter must be an identifier, got ${param.type}`,
-              )
-            }
-            callBlockEnv.setVariable(
-              (param as Identifier).value,
-              callerArgs[i] ?? new UndefinedValue(),
-            )
-          }
-        }
-        return this.evaluateBlock(node.body, callBlockEnv)
+        bindCallerArguments(node, callerArgs, callBlockEnv)
+        return this.withAutoescape(autoescape, () =>
+          this.evaluateBlock(node.body, callBlockEnv),
+        )
       },
     )
 
@@ -1643,13 +3663,13 @@ export class Interpreter {
     macroArgs.push(new KeywordArgumentsValue(macroKwargs))
     const fn = this.evaluate(node.call.callee, environment)
     if (fn.type !== "FunctionValue") {
-      throw new Error(
+      throw new TemplateRuntimeError(
         `Cannot call something that is not a function: got ${fn.type}`,
       )
     }
     const newEnv = new Environment(environment)
     newEnv.setVariable("caller", callerFn)
-    return (fn as FunctionValue).value(macroArgs, newEnv)
+    return this.call(() => (fn as FunctionValue).value(macroArgs, newEnv))
   }
 
   private evaluateFilterStatement(
@@ -1665,19 +3685,43 @@ export class Interpreter {
     environment: Environment,
   ): AnyRuntimeValue {
     if (!statement) return new UndefinedValue()
+    try {
+      if (this.sandbox === undefined) {
+        return this.evaluateStatement(statement, environment)
+      }
+
+      this.checkSandbox(statement)
+      const result = this.evaluateStatement(statement, environment)
+      if (result instanceof StringValue) {
+        this.checkOutputLength(result.value.length)
+      }
+      return result
+    } catch (error) {
+      if (error instanceof TemplateError) {
+        addLocation(error, statement)
+      }
+      throw error
+    }
+  }
 
+  private evaluateStatement(
+    statement: Statement,
+    environment: Environment,
+  ): AnyRuntimeValue {
     switch (statement.type) {
       // Program
+      // Statements containing other ones are rendered at once
       case "Program":
-        return this.evalProgram(statement as Program, environment)
+      case "If":
+      case "For":
+      case "Block":
+      case "Include":
+      case "Autoescape":
+        return this.capture(this.renderStatement(statement, environment))
 
       // Statements
       case "Set":
         return this.evaluateSet(statement as SetStatement, environment)
-      case "If":
-        return this.evaluateIf(statement as If, environment)
-      case "For":
-        return this.evaluateFor(statement as For, environment)
       case "Macro":
         return this.evaluateMacro(statement as Macro, environment)
       case "CallStatement":
@@ -1685,6 +3729,12 @@ export class Interpreter {
           statement as CallStatement,
           environment,
         )
+      case "Extends":
+        return this.evaluateExtends(statement as Extends, environment)
+      case "Import":
+        return this.evaluateImport(statement as Import, environment)
+      case "FromImport":
+        return this.evaluateFromImport(statement as FromImport, environment)
 
       case "Break":
         throw new BreakControl()
@@ -1715,7 +3765,7 @@ export class Interpreter {
         for (const [key, value] of (statement as ObjectLiteral).value) {
           const evaluatedKey = this.evaluate(key, environment)
           if (!(evaluatedKey instanceof StringValue)) {
-            throw new Error(
+            throw new TemplateRuntimeError(
               `Object keys must be strings: got ${evaluatedKey.type}`,
             )
           }
@@ -1751,6 +3801,8 @@ export class Interpreter {
           statement as FilterExpression,
           environment,
         )
+      case "Trans":
+        return this.evaluateTrans(statement as Trans, environment)
       case "FilterStatement":
         return this.evaluateFilterStatement(
           statement as FilterStatement,
@@ -1771,7 +3823,7 @@ export class Interpreter {
       case "Comment":
         return new NullValue()
       default:
-        throw new SyntaxError(`Unknown node type: ${statement.type}`)
+        throw new TemplateRuntimeError(`Unknown node type: ${statement.type}`)
     }
   }
 }
@@ -1808,14 +3860,17 @@ function convertToRuntimeValues(input: unknown): AnyRuntimeValue {
       }
     case "function":
       // Wrap the user's function in a runtime function
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      return new FunctionValue((args, _scope) => {
+      return new FunctionValue((args, _scope, context) => {
         // NOTE: `_scope` is not used since it's in the global scope
-        const result = input(...args.map((x) => x.value)) ?? null // map undefined -> null
+        const result =
+          callJavaScript(context, () => input(...args.map((x) => x.value))) ??
+          null // map undefined -> null
         return convertToRuntimeValues(result)
       })
     default:
-      throw new Error(`Cannot convert to runtime value: ${input}`)
+      throw new TemplateRuntimeError(
+        `Cannot convert to runtime value: ${input}`,
+      )
   }
 }
 
@@ -1824,12 +3879,14 @@ function convertToRuntimeValues(input: unknown): AnyRuntimeValue {
  * @param {AnyRuntimeValue} input The runtime value to convert
  * @param {number|null} [indent] The number of spaces to indent, or null for no indentation
  * @param {number} [depth] The current depth of the object
+ * @param {boolean} [sortKeys] Whether to sort the keys of objects, like Jinja's `tojson`
  * @returns {string} JSON representation of the input
  */
 function toJSON(
   input: AnyRuntimeValue,
   indent?: number | null,
   depth?: number,
+  sortKeys = false,
 ): string {
   const currentDepth = depth ?? 0
   switch (input.type) {
@@ -1839,6 +3896,7 @@ function toJSON(
     case "IntegerValue":
     case "FloatValue":
     case "StringValue":
+    case "SafeStringValue":
     case "BooleanValue":
       return JSON.stringify(input.value)
     case "ArrayValue":
@@ -1849,7 +3907,7 @@ function toJSON(
 
       if (input.type === "ArrayValue") {
         const core = (input as ArrayValue).value.map((x) =>
-          toJSON(x, indent, currentDepth + 1),
+          toJSON(x, indent, currentDepth + 1, sortKeys),
         )
         return indent
           ? `[${childrenPadding}${core.join(
@@ -1858,12 +3916,14 @@ function toJSON(
           : `[${core.join(", ")}]`
       } else {
         // ObjectValue
-        const core = Array.from((input as ObjectValue).value.entries()).map(
-          ([key, value]) => {
-            const v = `"${key}": ${toJSON(value, indent, currentDepth + 1)}`
-            return indent ? `${childrenPadding}${v}` : v
-          },
-        )
+        const entries = Array.from((input as ObjectValue).value.entries())
+        if (sortKeys) {
+          entries.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        }
+        const core = entries.map(([key, value]) => {
+          const v = `${JSON.stringify(key)}: ${toJSON(value, indent, currentDepth + 1, sortKeys)}`
+          return indent ? `${childrenPadding}${v}` : v
+        })
         return indent
           ? `{${core.join(",")}${basePadding}}`
           : `{${core.join(", ")}}`
@@ -1871,6 +3931,1002 @@ function toJSON(
     }
     default:
       // e.g., FunctionValue
-      throw new Error(`Cannot convert to JSON: ${input.type}`)
+      throw new TemplateRuntimeError(`Cannot convert to JSON: ${input.type}`)
+  }
+}
+
+/**
+ * The filters and tests available in every environment, added like custom ones.
+ */
+const BUILTINS = new Environment()
+
+/**
+ * Add a built-in filter, which is passed the context and runtime values.
+ */
+function addBuiltinFilter(
+  names: string[],
+  filter: (
+    context: Context,
+    operand: AnyRuntimeValue,
+    ...args: AnyRuntimeValue[]
+  ) => AnyRuntimeValue,
+  parameters: Parameter[] = [],
+) {
+  for (const name of names) {
+    BUILTINS.addFilter(
+      name,
+      (
+        context: Context,
+        operand: AnyRuntimeValue,
+        ...args: AnyRuntimeValue[]
+      ) => filter(context, operand, ...args),
+      { parameters, pass: "context", runtimeValues: true },
+    )
+  }
+}
+
+/**
+ * Add a built-in test, which is passed runtime values.
+ */
+function addBuiltinTest(
+  names: string[],
+  test: (operand: AnyRuntimeValue, ...args: AnyRuntimeValue[]) => boolean,
+  parameters: Parameter[] = [],
+) {
+  for (const name of names) {
+    BUILTINS.addTest(
+      name,
+      (operand: AnyRuntimeValue, ...args: AnyRuntimeValue[]) =>
+        new BooleanValue(test(operand, ...args)),
+      { parameters, runtimeValues: true },
+    )
+  }
+}
+
+// https://jinja.palletsprojects.com/en/3.1.x/templates/#list-of-builtin-filters
+
+addBuiltinFilter(["abs"], (context, operand) => {
+  if (operand instanceof FloatValue) {
+    return new FloatValue(Math.abs(operand.value))
+  } else if (
+    operand instanceof IntegerValue ||
+    operand instanceof BooleanValue
+  ) {
+    return new IntegerValue(Math.abs(Number(operand.value)))
+  }
+  throw new TemplateRuntimeError(
+    `bad operand type for abs(): '${getPythonTypeName(operand)}'`,
+  )
+})
+
+addBuiltinFilter(
+  ["attr"],
+  (context, operand, attribute) => {
+    // NOTE: Like in Jinja, only attributes are looked up, not the items of objects
+    if (operand instanceof ChainableUndefinedValue) {
+      return operand
+    } else if (operand instanceof UndefinedValue) {
+      throw operand.error()
+    }
+    const name = attribute.toString()
+    return (
+      getAttribute(operand, name, context.scope) ??
+      context.scope.createUndefined(undefined, operand, name)
+    )
+  },
+  ["name"],
+)
+
+addBuiltinFilter(
+  ["batch"],
+  (context, operand, linecount, fillWith) => {
+    const size = Math.trunc(toNumber(linecount, "linecount"))
+    const batches: ArrayValue[] = []
+    let batch: AnyRuntimeValue[] = []
+    for (const item of toIterable(operand)) {
+      batch.push(item)
+      if (batch.length === size) {
+        batches.push(new ArrayValue(batch))
+        batch = []
+      }
+    }
+    if (batch.length > 0) {
+      if (!(fillWith instanceof NullValue)) {
+        while (batch.length < size) {
+          batch.push(fillWith)
+        }
+      }
+      batches.push(new ArrayValue(batch))
+    }
+    return new ArrayValue(batches)
+  },
+  ["linecount", ["fill_with", null]],
+)
+
+addBuiltinFilter(
+  ["bool"],
+  (context, operand) => new BooleanValue(operand.__bool__().value),
+)
+
+addBuiltinFilter(["capitalize"], (context, operand) => {
+  const value = softString(operand).value
+  return preserveSafety(
+    operand,
+    new StringValue(
+      value.charAt(0).toUpperCase() + value.slice(1).toLowerCase(),
+    ),
+  )
+})
+
+addBuiltinFilter(
+  ["center"],
+  (context, operand, width) =>
+    preserveSafety(
+      operand,
+      new StringValue(
+        center(softString(operand).value, toNumber(width, "width")),
+      ),
+    ),
+  [["width", 80]],
+)
+
+addBuiltinFilter(["count", "length"], (context, operand) => {
+  if (operand instanceof StringValue) {
+    return new IntegerValue(Array.from(operand.value).length)
+  } else if (operand instanceof ArrayValue) {
+    return new IntegerValue(operand.value.length)
+  } else if (operand instanceof ObjectValue) {
+    return new IntegerValue(operand.value.size)
+  } else if (operand instanceof UndefinedValue) {
+    return new IntegerValue(toIterable(operand).length)
+  }
+  throw new TemplateRuntimeError(
+    `object of type '${getPythonTypeName(operand)}' has no len()`,
+  )
+})
+
+addBuiltinFilter(
+  ["default", "d"],
+  (context, operand, defaultValue, boolean) =>
+    operand instanceof UndefinedValue ||
+    (boolean.__bool__().value && !operand.__bool__().value)
+      ? defaultValue
+      : operand,
+  [
+    ["default_value", ""],
+    ["boolean", false],
+  ],
+)
+
+addBuiltinFilter(
+  ["dictsort"],
+  (context, operand, caseSensitive, by, reverse) => {
+    if (operand instanceof UndefinedValue) {
+      throw operand.error()
+    } else if (!(operand instanceof ObjectValue)) {
+      throw new TemplateRuntimeError(
+        "Can only sort the item pairs of a mapping.",
+      )
+    }
+    const position = ["key", "value"].indexOf(by.toString())
+    if (position === -1) {
+      throw new TemplateRuntimeError(
+        'You can only sort by either "key" or "value"',
+      )
+    }
+    const getKey = (pair: AnyRuntimeValue[]) =>
+      caseSensitive.__bool__().value
+        ? pair[position]
+        : ignoreCase(pair[position])
+    const pairs = Array.from(operand.value.entries()).map(([key, value]) => [
+      new StringValue(key),
+      value,
+    ])
+    pairs.sort((a, b) => {
+      const result = compareValues(getKey(a), getKey(b))
+      return reverse.__bool__().value ? -result : result
+    })
+    return new ArrayValue(pairs.map((pair) => new ArrayValue(pair)))
+  },
+  [
+    ["case_sensitive", false],
+    ["by", "key"],
+    ["reverse", false],
+  ],
+)
+
+addBuiltinFilter(["escape", "e"], (context, operand) => escapeValue(operand))
+
+addBuiltinFilter(
+  ["filesizeformat"],
+  (context, operand, binary) => {
+    const bytes =
+      operand instanceof StringValue
+        ? toFloat(operand.value)
+        : toNumber(operand, "value")
+    if (bytes === undefined) {
+      throw new TemplateRuntimeError(
+        `could not convert string to float: '${operand.toString()}'`,
+      )
+    }
+    return new StringValue(filesizeformat(bytes, binary.__bool__().value))
+  },
+  [["binary", false]],
+)
+
+addBuiltinFilter(["first"], (context, operand) => {
+  return (
+    toIterable(operand).at(0) ??
+    context.scope.createUndefined("No first item, sequence was empty.")
+  )
+})
+
+addBuiltinFilter(
+  ["float"],
+  (context, operand, defaultValue) => {
+    if (
+      operand instanceof IntegerValue ||
+      operand instanceof FloatValue ||
+      operand instanceof BooleanValue
+    ) {
+      return new FloatValue(Number(operand.value))
+    } else if (operand instanceof StringValue) {
+      const value = toFloat(operand.value)
+      return value === undefined ? defaultValue : new FloatValue(value)
+    } else if (operand instanceof UndefinedValue) {
+      throw operand.error()
+    }
+    return defaultValue
+  },
+  [["default", new FloatValue(0.0)]],
+)
+
+addBuiltinFilter(
+  ["forceescape"],
+  (context, operand) => new SafeStringValue(escapeHtml(operand.toString())),
+)
+
+addBuiltinFilter(
+  ["format"],
+  (context, operand, args, kwargs) => {
+    const values = (args as ArrayValue).value
+    const mapping = (kwargs as ObjectValue).value
+    if (values.length > 0 && mapping.size > 0) {
+      throw new TemplateRuntimeError(
+        "can't handle positional and keyword arguments at the same time",
+      )
+    }
+    // Like `markupsafe.Markup`, formatting a safe string escapes the values
+    return operand instanceof SafeStringValue
+      ? new SafeStringValue(
+          formatMessage(
+            operand.value,
+            mapping.size > 0 ? mapping : values,
+            (value) => escapeValue(softString(value)).value,
+          ),
+        )
+      : new StringValue(
+          formatMessage(
+            softString(operand).value,
+            mapping.size > 0 ? mapping : values,
+            (value) => softString(value).value,
+          ),
+        )
+  },
+  ["*args", "**kwargs"],
+)
+
+addBuiltinFilter(
+  ["groupby"],
+  (context, operand, attribute, defaultValue, caseSensitive) => {
+    const getKey = makeAttributeGetter(attribute, context.scope, {
+      caseSensitive: caseSensitive.__bool__().value,
+      defaultValue,
+    })
+    const getGrouper = makeAttributeGetter(attribute, context.scope, {
+      defaultValue,
+    })
+    const items = toIterable(operand)
+      .map((item) => [getKey(item), item])
+      .sort(([a], [b]) => compareValues(a, b))
+    const groups: ArrayValue[] = []
+    let key: AnyRuntimeValue | undefined
+    for (const [itemKey, item] of items) {
+      if (key === undefined || compareValues(key, itemKey) !== 0) {
+        // Like in Jinja, the grouper is taken from the first item, as case-insensitive keys are lowercased
+        const grouper = getGrouper(item)
+        const list = new ArrayValue([])
+        const group = new ArrayValue([grouper, list])
+        group.builtins.set("grouper", grouper)
+        group.builtins.set("list", list)
+        groups.push(group)
+        key = itemKey
+      }
+      ;(groups[groups.length - 1].value[1] as ArrayValue).value.push(item)
+    }
+    return new ArrayValue(groups)
+  },
+  ["attribute", ["default", null], ["case_sensitive", false]],
+)
+
+addBuiltinFilter(
+  ["indent"],
+  (context, operand, width, first, blank) => {
+    // NOTE: Like in Jinja, the indentation of safe strings is considered safe
+    const indentation =
+      width instanceof StringValue
+        ? width.value
+        : " ".repeat(toNumber(width, "width"))
+    // Like in Jinja, a newline is added so that a trailing newline is kept
+    const lines = splitLines(softString(operand).value + "\n")
+    let result
+    if (blank.__bool__().value) {
+      result = lines.join("\n" + indentation)
+    } else {
+      result = [
+        lines[0],
+        ...lines.slice(1).map((x) => (x ? indentation + x : x)),
+      ].join("\n")
+    }
+    if (first.__bool__().value) {
+      result = indentation + result
+    }
+    return preserveSafety(operand, new StringValue(result))
+  },
+  [
+    ["width", 4],
+    ["first", false],
+    ["blank", false],
+  ],
+)
+
+addBuiltinFilter(
+  ["int"],
+  (context, operand, defaultValue, base) => {
+    if (
+      operand instanceof IntegerValue ||
+      operand instanceof FloatValue ||
+      operand instanceof BooleanValue
+    ) {
+      return new IntegerValue(Math.trunc(Number(operand.value)))
+    } else if (operand instanceof StringValue) {
+      const value =
+        toInt(operand.value, toNumber(base, "base")) ?? toFloat(operand.value)
+      return value === undefined || !Number.isFinite(value)
+        ? defaultValue
+        : new IntegerValue(Math.trunc(value))
+    } else if (operand instanceof UndefinedValue) {
+      throw operand.error()
+    }
+    return defaultValue
+  },
+  [
+    ["default", 0],
+    ["base", 10],
+  ],
+)
+
+addBuiltinFilter(["items"], (context, operand) => {
+  if (operand instanceof UndefinedValue) {
+    return new ArrayValue([])
+  } else if (!(operand instanceof ObjectValue)) {
+    throw new TemplateRuntimeError("Can only get item pairs from a mapping.")
   }
+  return new ArrayValue(
+    Array.from(operand.value.entries()).map(
+      ([key, value]) => new ArrayValue([new StringValue(key), value]),
+    ),
+  )
+})
+
+addBuiltinFilter(
+  ["join"],
+  (context, operand, separator, attribute) => {
+    const getter = makeAttributeGetter(attribute, context.scope)
+    return joinValues(
+      new ArrayValue(toIterable(operand).map(getter)),
+      softString(separator),
+      context.autoescape,
+    )
+  },
+  [
+    ["d", ""],
+    ["attribute", null],
+  ],
+)
+
+addBuiltinFilter(["last"], (context, operand) => {
+  return (
+    toIterable(operand).at(-1) ??
+    context.scope.createUndefined("No last item, sequence was empty.")
+  )
+})
+
+addBuiltinFilter(
+  ["list"],
+  (context, operand) => new ArrayValue([...toIterable(operand)]),
+)
+
+addBuiltinFilter(["lower"], (context, operand) =>
+  preserveSafety(
+    operand,
+    new StringValue(softString(operand).value.toLowerCase()),
+  ),
+)
+
+addBuiltinFilter(
+  ["map"],
+  (context, operand, args, kwargs) => {
+    const values = (args as ArrayValue).value
+    const mapping = (kwargs as ObjectValue).value
+    let mapper: (item: AnyRuntimeValue) => AnyRuntimeValue
+    if (values.length === 0 && mapping.has("attribute")) {
+      const {
+        attribute,
+        default: defaultValue,
+        ...rest
+      } = Object.fromEntries(mapping)
+      const unexpected = Object.keys(rest).at(0)
+      if (unexpected !== undefined) {
+        throw new TemplateRuntimeError(
+          `Unexpected keyword argument '${unexpected}'`,
+        )
+      }
+      mapper = makeAttributeGetter(attribute, context.scope, { defaultValue })
+    } else if (values.length > 0) {
+      const filter = values[0].toString()
+      mapper = (item) =>
+        context.callFilter(filter, item, values.slice(1), mapping)
+    } else {
+      throw new TemplateRuntimeError("map requires a filter argument")
+    }
+    return new ArrayValue(toIterable(operand).map(mapper))
+  },
+  ["*args", "**kwargs"],
+)
+
+for (const name of ["max", "min"]) {
+  addBuiltinFilter(
+    [name],
+    (context, operand, caseSensitive, attribute) => {
+      const items = toIterable(operand)
+      if (items.length === 0) {
+        return context.scope.createUndefined(
+          "No aggregated item, sequence was empty.",
+        )
+      }
+      const getKey = makeAttributeGetter(attribute, context.scope, {
+        caseSensitive: caseSensitive.__bool__().value,
+      })
+      // The attribute of a single item is still looked up, so that the sandbox checks it
+      const keys = items.map(getKey)
+      const sign = name === "max" ? 1 : -1
+      let result = 0
+      for (let i = 1; i < items.length; ++i) {
+        if (sign * compareValues(keys[i], keys[result]) > 0) {
+          result = i
+        }
+      }
+      return items[result]
+    },
+    [
+      ["case_sensitive", false],
+      ["attribute", null],
+    ],
+  )
+}
+
+addBuiltinFilter(
+  ["pprint"],
+  (context, operand) => new StringValue(pformat(operand)),
+)
+
+addBuiltinFilter(["random"], (context, operand) => {
+  const items = toIterable(operand)
+  return (
+    items[Math.floor(Math.random() * items.length)] ??
+    context.scope.createUndefined("No random item, sequence was empty.")
+  )
+})
+
+for (const name of ["select", "reject", "selectattr", "rejectattr"]) {
+  addBuiltinFilter(
+    [name],
+    (context, operand, args, kwargs) => {
+      const values = (args as ArrayValue).value
+      const select = name.startsWith("select")
+      let getter = (item: AnyRuntimeValue) => item
+      let offset = 0
+      if (name.endsWith("attr")) {
+        if (values.length === 0) {
+          throw new TemplateRuntimeError("Missing parameter for attribute name")
+        }
+        getter = makeAttributeGetter(values[0], context.scope)
+        offset = 1
+      }
+      const test = values.at(offset)
+      const testArgs = values.slice(offset + 1)
+      return new ArrayValue(
+        toIterable(operand).filter((item) => {
+          const value = getter(item)
+          const result = test
+            ? context.callTest(
+                test.toString(),
+                value,
+                testArgs,
+                (kwargs as ObjectValue).value,
+              )
+            : value.__bool__().value
+          return result === select
+        }),
+      )
+    },
+    ["*args", "**kwargs"],
+  )
 }
+
+addBuiltinFilter(
+  ["replace"],
+  (context, operand, old, replacement, count) => {
+    const args = [
+      old,
+      replacement,
+      new KeywordArgumentsValue(
+        count instanceof NullValue ? new Map() : new Map([["count", count]]),
+      ),
+    ]
+    if (
+      context.autoescape &&
+      [operand, old, replacement].some((x) => x instanceof SafeStringValue)
+    ) {
+      // Like `markupsafe.Markup.replace`, which only escapes the replacement
+      const replaceFn = escapeValue(operand).builtins.get(
+        "replace",
+      ) as FunctionValue
+      return replaceFn.value(
+        [softString(old), softString(replacement), args[2]],
+        context.scope,
+      )
+    }
+    // Without autoescaping, Jinja replaces in safe strings like in plain ones
+    const replaceFn = new StringValue(softString(operand).value).builtins.get(
+      "replace",
+    ) as FunctionValue
+    return replaceFn.value(
+      args.map((x, i) => (i < 2 ? softString(x) : x)),
+      context.scope,
+    )
+  },
+  ["old", "new", ["count", null]],
+)
+
+addBuiltinFilter(["reverse"], (context, operand) => {
+  if (operand instanceof StringValue) {
+    return preserveSafety(
+      operand,
+      new StringValue(Array.from(operand.value).reverse().join("")),
+    )
+  }
+  return new ArrayValue([...toIterable(operand)].reverse())
+})
+
+addBuiltinFilter(
+  ["round"],
+  (context, operand, precision, method) => {
+    const value = toNumber(operand, "value")
+    const digits = toNumber(precision, "precision")
+    switch (method.toString()) {
+      case "common": {
+        const factor = 10 ** Math.max(-digits, 0)
+        const rounded = Number(toFixed(value / factor, Math.max(digits, 0)))
+        return operand instanceof FloatValue
+          ? new FloatValue(rounded * factor)
+          : new IntegerValue(rounded * factor)
+      }
+      case "ceil":
+      case "floor":
+        return new FloatValue(
+          Math[method.toString() as "ceil" | "floor"](value * 10 ** digits) /
+            10 ** digits,
+        )
+      default:
+        throw new TemplateRuntimeError("method must be common, ceil or floor")
+    }
+  },
+  [
+    ["precision", 0],
+    ["method", "common"],
+  ],
+)
+
+addBuiltinFilter(["safe"], (context, operand) =>
+  operand instanceof SafeStringValue
+    ? operand
+    : new SafeStringValue(operand.toString()),
+)
+
+addBuiltinFilter(
+  ["slice"],
+  (context, operand, slices, fillWith) => {
+    const items = toIterable(operand)
+    const count = toNumber(slices, "slices")
+    const perSlice = Math.floor(items.length / count)
+    const withExtra = items.length % count
+    const result: ArrayValue[] = []
+    let offset = 0
+    for (let i = 0; i < count; ++i) {
+      const start = offset + i * perSlice
+      if (i < withExtra) {
+        offset += 1
+      }
+      const part = items.slice(start, offset + (i + 1) * perSlice)
+      if (!(fillWith instanceof NullValue) && i >= withExtra) {
+        part.push(fillWith)
+      }
+      result.push(new ArrayValue(part))
+    }
+    return new ArrayValue(result)
+  },
+  ["slices", ["fill_with", null]],
+)
+
+addBuiltinFilter(
+  ["sort"],
+  (context, operand, reverse, caseSensitive, attribute) => {
+    const getKey = makeMultiAttributeGetter(
+      attribute,
+      context.scope,
+      caseSensitive.__bool__().value,
+    )
+    // Like in Python, the key of every item is computed once, even if there's one
+    const keyed = toIterable(operand).map((item) => [getKey(item), item])
+    // NOTE: Sorting is stable, and like in Python equal items keep their order when reversing
+    return new ArrayValue(
+      keyed
+        .sort(([a], [b]) => {
+          const result = compareValues(a, b)
+          return reverse.__bool__().value ? -result : result
+        })
+        .map(([, item]) => item),
+    )
+  },
+  [
+    ["reverse", false],
+    ["case_sensitive", false],
+    ["attribute", null],
+  ],
+)
+
+addBuiltinFilter(["string"], (context, operand) => softString(operand))
+
+addBuiltinFilter(
+  ["striptags"],
+  (context, operand) => new StringValue(stripTags(softString(operand).value)),
+)
+
+addBuiltinFilter(
+  ["sum"],
+  (context, operand, attribute, start) => {
+    const getter = makeAttributeGetter(attribute, context.scope)
+    return toIterable(operand).reduce((total: AnyRuntimeValue, item) => {
+      const value = getter(item)
+      if (total instanceof ArrayValue && value instanceof ArrayValue) {
+        return new ArrayValue([...total.value, ...value.value])
+      } else if (total instanceof FloatValue || value instanceof FloatValue) {
+        return new FloatValue(
+          toNumber(total, "start") + toNumber(value, "item"),
+        )
+      } else if (
+        (total instanceof IntegerValue || total instanceof BooleanValue) &&
+        (value instanceof IntegerValue || value instanceof BooleanValue)
+      ) {
+        return new IntegerValue(Number(total.value) + Number(value.value))
+      }
+      throw new TemplateRuntimeError(
+        `unsupported operand type(s) for +: '${getPythonTypeName(total)}' and '${getPythonTypeName(value)}'`,
+      )
+    }, start)
+  },
+  [
+    ["attribute", null],
+    ["start", 0],
+  ],
+)
+
+addBuiltinFilter(
+  ["title"],
+  // NOTE: Like in Jinja, title casing doesn't keep strings safe
+  (context, operand) =>
+    new StringValue(titleCaseWords(softString(operand).value)),
+)
+
+addBuiltinFilter(
+  ["tojson"],
+  (context, operand, indent) => {
+    if (!(indent instanceof IntegerValue || indent instanceof NullValue)) {
+      throw new TemplateRuntimeError("If set, indent must be a number")
+    }
+    // NOTE: Like Jinja's `htmlsafe_json_dumps`, the output is always escaped and safe, even without autoescaping
+    return new SafeStringValue(
+      escapeJSONForHtml(toJSON(operand, indent.value, 0, true)),
+    )
+  },
+  [["indent", null]],
+)
+
+addBuiltinFilter(
+  ["trim"],
+  (context, operand, chars) => {
+    const value = softString(operand).value
+    let result = value.trim()
+    if (!(chars instanceof NullValue)) {
+      const characters = new Set(chars.toString())
+      const items = Array.from(value)
+      let start = 0
+      let end = items.length
+      while (start < end && characters.has(items[start])) {
+        ++start
+      }
+      while (end > start && characters.has(items[end - 1])) {
+        --end
+      }
+      result = items.slice(start, end).join("")
+    }
+    return preserveSafety(operand, new StringValue(result))
+  },
+  [["chars", null]],
+)
+
+addBuiltinFilter(
+  ["truncate"],
+  (context, operand, length, killwords, end, leeway) => {
+    const maxLength = toNumber(length, "length")
+    const ending = softString(end).value
+    const allowed = toNumber(leeway, "leeway")
+    if (maxLength < ending.length) {
+      throw new TemplateRuntimeError(
+        `expected length >= ${ending.length}, got ${maxLength}`,
+      )
+    } else if (allowed < 0) {
+      throw new TemplateRuntimeError(`expected leeway >= 0, got ${allowed}`)
+    }
+    return preserveSafety(
+      operand,
+      new StringValue(
+        truncate(
+          softString(operand).value,
+          maxLength,
+          killwords.__bool__().value,
+          ending,
+          allowed,
+        ),
+      ),
+    )
+  },
+  [
+    ["length", 255],
+    ["killwords", false],
+    ["end", "..."],
+    // Like Jinja's default `truncate.leeway` policy
+    ["leeway", 5],
+  ],
+)
+
+addBuiltinFilter(
+  ["unique"],
+  (context, operand, caseSensitive, attribute) => {
+    const getKey = makeAttributeGetter(attribute, context.scope, {
+      caseSensitive: caseSensitive.__bool__().value,
+    })
+    const seen = new Set<string>()
+    return new ArrayValue(
+      toIterable(operand).filter((item) => {
+        const key = getHashKey(getKey(item))
+        if (seen.has(key)) {
+          return false
+        }
+        seen.add(key)
+        return true
+      }),
+    )
+  },
+  [
+    ["case_sensitive", false],
+    ["attribute", null],
+  ],
+)
+
+addBuiltinFilter(["upper"], (context, operand) =>
+  preserveSafety(
+    operand,
+    new StringValue(softString(operand).value.toUpperCase()),
+  ),
+)
+
+addBuiltinFilter(["urlencode"], (context, operand) => {
+  if (operand instanceof ObjectValue || operand instanceof ArrayValue) {
+    const pairs =
+      operand instanceof ObjectValue
+        ? Array.from(operand.value.entries())
+        : operand.value.map((pair) => {
+            const [key, value] = toIterable(pair)
+            return [key.toString(), value] as const
+          })
+    return new StringValue(
+      pairs
+        .map(
+          ([key, value]) =>
+            `${urlQuote(key, true)}=${urlQuote(softString(value).value, true)}`,
+        )
+        .join("&"),
+    )
+  }
+  return new StringValue(urlQuote(softString(operand).value))
+})
+
+addBuiltinFilter(
+  ["urlize"],
+  (context, operand, trimUrlLimit, nofollow, target, rel, extraSchemes) => {
+    const relParts = new Set(
+      (rel instanceof NullValue ? "" : rel.toString())
+        .split(/\s+/)
+        .filter((x) => x),
+    )
+    if (nofollow.__bool__().value) {
+      relParts.add("nofollow")
+    }
+    // Like Jinja's default `urlize.rel` policy
+    relParts.add("noopener")
+    const schemes =
+      extraSchemes instanceof NullValue
+        ? []
+        : toIterable(extraSchemes).map((x) => x.toString())
+    for (const scheme of schemes) {
+      if (!/^[\w.+-]{2,}:(\/){0,2}$/.test(scheme)) {
+        throw new TemplateRuntimeError(
+          `'${scheme}' is not a valid URI scheme prefix.`,
+        )
+      }
+    }
+    return createHtmlString(
+      urlize(
+        escapeValue(softString(operand)).value,
+        trimUrlLimit instanceof NullValue
+          ? undefined
+          : toNumber(trimUrlLimit, "trim_url_limit"),
+        Array.from(relParts).sort().join(" "),
+        target instanceof NullValue ? undefined : target.toString(),
+        schemes,
+      ),
+      context.autoescape,
+    )
+  },
+  [
+    ["trim_url_limit", null],
+    ["nofollow", false],
+    ["target", null],
+    ["rel", null],
+    ["extra_schemes", null],
+  ],
+)
+
+addBuiltinFilter(
+  ["wordcount"],
+  (context, operand) =>
+    new IntegerValue(
+      softString(operand).value.match(/[\p{L}\p{M}\p{N}_]+/gu)?.length ?? 0,
+    ),
+)
+
+addBuiltinFilter(
+  ["wordwrap"],
+  (context, operand, width, breakLongWords, wrapstring, breakOnHyphens) => {
+    const lineWidth = toNumber(width, "width")
+    if (lineWidth <= 0) {
+      throw new TemplateRuntimeError(`invalid width ${lineWidth} (must be > 0)`)
+    }
+    const separator = softString(wrapstring).value
+    return new StringValue(
+      splitLines(softString(operand).value)
+        .map((line) =>
+          wrap(
+            line,
+            lineWidth,
+            breakLongWords.__bool__().value,
+            breakOnHyphens.__bool__().value,
+          ).join(separator),
+        )
+        .join(separator),
+    )
+  },
+  [
+    ["width", 79],
+    ["break_long_words", true],
+    ["wrapstring", "\n"],
+    ["break_on_hyphens", true],
+  ],
+)
+
+addBuiltinFilter(
+  ["xmlattr"],
+  (context, operand, autospace) => {
+    if (operand instanceof UndefinedValue) {
+      throw operand.error()
+    } else if (!(operand instanceof ObjectValue)) {
+      throw new TemplateRuntimeError("xmlattr can only be applied to a mapping")
+    }
+    const attributes: string[] = []
+    for (const [key, value] of operand.value) {
+      if (value instanceof NullValue || value instanceof UndefinedValue) {
+        continue
+      }
+      if (/[\s/>=]/.test(key)) {
+        throw new TemplateRuntimeError(
+          `Invalid character in attribute name: '${key}'`,
+        )
+      }
+      attributes.push(
+        `${escapeHtml(key)}="${escapeValue(softString(value)).value}"`,
+      )
+    }
+    const result = attributes.join(" ")
+    return createHtmlString(
+      autospace.__bool__().value && result ? " " + result : result,
+      context.autoescape,
+    )
+  },
+  [["autospace", true]],
+)
+
+// https://jinja.palletsprojects.com/en/3.1.x/templates/#list-of-builtin-tests
+
+addBuiltinTest(["boolean"], (operand) => operand instanceof BooleanValue)
+addBuiltinTest(["callable"], (operand) => operand instanceof FunctionValue)
+addBuiltinTest(["odd"], (operand) => {
+  if (!(operand instanceof IntegerValue)) {
+    throw new TemplateRuntimeError(`cannot odd on ${operand.type}`)
+  }
+  return operand.value % 2 !== 0
+})
+addBuiltinTest(["even"], (operand) => {
+  if (!(operand instanceof IntegerValue)) {
+    throw new TemplateRuntimeError(`cannot even on ${operand.type}`)
+  }
+  return operand.value % 2 === 0
+})
+addBuiltinTest(
+  ["false"],
+  (operand) => operand instanceof BooleanValue && !operand.value,
+)
+addBuiltinTest(
+  ["true"],
+  (operand) => operand instanceof BooleanValue && operand.value,
+)
+addBuiltinTest(["none"], (operand) => operand instanceof NullValue)
+addBuiltinTest(["string"], (operand) => operand instanceof StringValue)
+addBuiltinTest(
+  ["number"],
+  (operand) => operand instanceof IntegerValue || operand instanceof FloatValue,
+)
+addBuiltinTest(["integer"], (operand) => operand instanceof IntegerValue)
+addBuiltinTest(
+  ["iterable"],
+  (operand) => operand instanceof ArrayValue || operand instanceof StringValue,
+)
+addBuiltinTest(["mapping"], (operand) => operand instanceof ObjectValue)
+addBuiltinTest(
+  ["lower"],
+  (operand) =>
+    operand instanceof StringValue &&
+    operand.value === operand.value.toLowerCase(),
+)
+addBuiltinTest(
+  ["upper"],
+  (operand) =>
+    operand instanceof StringValue &&
+    operand.value === operand.value.toUpperCase(),
+)
+addBuiltinTest(["defined"], (operand) => !(operand instanceof UndefinedValue))
+addBuiltinTest(["undefined"], (operand) => operand instanceof UndefinedValue)
+addBuiltinTest(["escaped"], (operand) => operand instanceof SafeStringValue)
+addBuiltinTest(["equalto", "eq"], (a, b) => a.value === b.value, ["other"])
@@ -0,0 +1,49 @@
+import { TemplateRuntimeError } from "./errors"
+
+/**
+ * Raised when a sandboxed template does something unsafe or exceeds its limits, like Jinja's `SecurityError`.
+ */
+export class SecurityError extends TemplateRuntimeError {
+  override name = "SecurityError"
+}
+
+/**
+ * The largest range which sandboxed templates may create, like in Jinja.
+ */
+export const MAX_RANGE = 100000
+
+/**
+ * Options of sandboxed rendering, mirroring Jinja's `SandboxedEnvironment`.
+ * The limits are unlimited unless set, and apply to a whole render, including included and imported templates.
+ */
+export interface SandboxOptions {
+  /**
+   * The maximum number of operators evaluated, i.e. binary and unary operators, filters, tests and calls.
+   */
+  maxOperations?: number
+  /**
+   * The maximum number of loop iterations, summed over all loops.
+   */
+  maxIterations?: number
+  /**
+   * The maximum length of the output, which also applies to every string created while rendering.
+   */
+  maxOutputLength?: number
+  /**
+   * The time in milliseconds after which rendering is stopped.
+   */
+  timeout?: number
+  /**
+   * Decides whether an attribute may be accessed, defaulting to {@link isSafeAttribute}.
+   */
+  isSafeAttribute?: (attribute: string) => boolean
+}
+
+const UNSAFE_ATTRIBUTES = new Set(["constructor", "prototype"])
+
+/**
+ * Like in Jinja, attributes starting with an underscore are considered internal and unsafe, as are JavaScript's internals.
+ */
+export function isSafeAttribute(attribute: string): boolean {
+  return !attribute.startsWith("_") && !UNSAFE_ATTRIBUTES.has(attribute)
+}
@@ -0,0 +1,46 @@
+import type { TokenNode } from "./ast"
+import type { ParsedDocument } from "./incremental"
+
+/**
+ * Set the source text of tokens and the trivia before them, i.e. the whitespace inside tags, the whitespace removed
+ * by whitespace control and the newlines ending line statements.
+ * @param start The index of the first token to update, the ones before it are assumed to be up to date.
+ * @param end The index after the last token to update.
+ */
+export function attachTrivia(
+  tokens: TokenNode[],
+  source: string,
+  start = 0,
+  end = tokens.length,
+) {
+  let position = start > 0 ? tokens[start - 1].end : 0
+  for (let i = start; i < end; ++i) {
+    const token = tokens[i]
+    token.leadingTrivia = source.slice(position, token.start)
+    token.text = source.slice(token.start, token.end)
+    position = token.end
+  }
+}
+
+/**
+ * The trivia after the last token of a source.
+ */
+export function getTrailingTrivia(tokens: TokenNode[], source: string) {
+  return source.slice(tokens.at(-1)?.end ?? 0)
+}
+
+/**
+ * Print tokens along with their trivia, using their value if their source text isn't known.
+ */
+export function printTokens(tokens: TokenNode[]): string {
+  return tokens
+    .map((token) => token.leadingTrivia + (token.text ?? token.value))
+    .join("")
+}
+
+/**
+ * Print the tokens of a document and its trailing trivia, which reproduces its source unless tokens were changed.
+ */
+export function printDocument(document: ParsedDocument): string {
+  return printTokens(document.tokens) + document.trailingTrivia
+}
@@ -112,7 +112,7 @@ export function strftime(date: Date, format: string): string {
   })
 }
 
-function escapeRegExp(s: string): string {
+export function escapeRegExp(s: string): string {
   return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
 }
 
@@ -140,3 +140,417 @@ export function replace(
     return match
   })
 }
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  "'": "&#39;",
+  '"': "&#34;",
+}
+
+/**
+ * Function that mimics markupsafe's escape() function, replacing the characters with special meanings in HTML.
+ */
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>'"]/g, (c) => HTML_ESCAPES[c])
+}
+
+/**
+ * Function that mimics the escaping of Jinja's tojson filter, so its output is safe to use in HTML.
+ */
+export function escapeJSONForHtml(json: string): string {
+  return json.replace(
+    /[<>&']/g,
+    (c) => "\\u" + c.charCodeAt(0).toString(16).padStart(4, "0"),
+  )
+}
+
+/**
+ * Function that mimics Python's fixed-point formatting, e.g. `f"{value:.2f}"`.
+ * Unlike Number.prototype.toFixed(), values exactly halfway between two results are rounded to the even one.
+ */
+export function toFixed(value: number, digits: number): string {
+  if (!Number.isFinite(value)) {
+    return Number.isNaN(value) ? "nan" : value > 0 ? "inf" : "-inf"
+  }
+  const fixed = value.toFixed(digits)
+  const extra = 30
+  if (Math.abs(value) >= 1e21 || digits + extra > 100) {
+    return fixed
+  }
+  // toFixed() is exact, so the digits following the result tell whether it rounded a tie away from zero
+  const exact = Math.abs(value).toFixed(digits + extra)
+  if (exact.slice(-extra) !== "5".padEnd(extra, "0")) {
+    return fixed
+  }
+  const truncated = exact.slice(0, -extra).replace(/\.$/, "")
+  if (Number(truncated.at(-1)) % 2 !== 0) {
+    return fixed
+  }
+  return value < 0 ? "-" + truncated : truncated
+}
+
+/**
+ * Function that mimics Python's int() function for strings, returning undefined if the string isn't an integer.
+ * @param base The base of the integer, where prefixes such as `0x` are allowed if they match it.
+ */
+export function toInt(text: string, base = 10): number | undefined {
+  let digits = text.trim().toLowerCase()
+  const sign = /^[+-]/.test(digits) ? digits[0] : ""
+  digits = digits.slice(sign.length)
+  const prefix = ({ 2: "0b", 8: "0o", 16: "0x" } as Record<number, string>)[
+    base
+  ]
+  const hasPrefix = prefix !== undefined && digits.startsWith(prefix)
+  if (hasPrefix) {
+    digits = digits.slice(prefix.length)
+  }
+  if (
+    !/^_?[\da-z]+(_[\da-z]+)*$/.test(digits) ||
+    (!hasPrefix && digits.startsWith("_")) ||
+    Array.from(digits.replaceAll("_", "")).some(
+      (digit) => parseInt(digit, 36) >= base,
+    )
+  ) {
+    return undefined
+  }
+  const value = parseInt(digits.replaceAll("_", ""), base)
+  return sign === "-" ? -value : value
+}
+
+/**
+ * Function that mimics Python's float() function for strings, returning undefined if the string isn't a number.
+ */
+export function toFloat(text: string): number | undefined {
+  const value = text.trim().toLowerCase()
+  const special = /^([+-]?)(inf|infinity|nan)$/.exec(value)
+  if (special !== null) {
+    const result = special[2] === "nan" ? NaN : Infinity
+    return special[1] === "-" ? -result : result
+  }
+  if (
+    !/^[+-]?(\d(_?\d)*(\.(\d(_?\d)*)?)?|\.\d(_?\d)*)(e[+-]?\d(_?\d)*)?$/.test(
+      value,
+    )
+  ) {
+    return undefined
+  }
+  return Number(value.replaceAll("_", ""))
+}
+
+/**
+ * Function that mimics Python's str.splitlines() function.
+ */
+export function splitLines(value: string): string[] {
+  // eslint-disable-next-line no-control-regex
+  const lines = value.split(/\r\n|[\n\r\v\f\x1c-\x1e\x85\u2028\u2029]/)
+  if (lines.at(-1) === "") {
+    lines.pop()
+  }
+  return lines
+}
+
+/**
+ * Function that mimics Python's str.center() function.
+ */
+export function center(value: string, width: number): string {
+  const margin = width - value.length
+  if (margin <= 0) {
+    return value
+  }
+  const left = Math.floor(margin / 2) + (margin & width & 1)
+  return " ".repeat(left) + value + " ".repeat(margin - left)
+}
+
+/**
+ * Function that mimics Jinja's title filter, which unlike Python's string.title() function only starts words after
+ * whitespace, dashes and brackets, and lowercases the rest of each word.
+ */
+export function titleCaseWords(value: string): string {
+  return value
+    .split(/([-\s({[<]+)/)
+    .map((item) => item.charAt(0).toUpperCase() + item.slice(1).toLowerCase())
+    .join("")
+}
+
+/**
+ * Function that mimics Jinja's truncate filter.
+ * @param leeway How much longer than the length strings may be without being truncated.
+ */
+export function truncate(
+  value: string,
+  length: number,
+  killwords: boolean,
+  end: string,
+  leeway: number,
+): string {
+  if (value.length <= length + leeway) {
+    return value
+  }
+  const result = value.slice(0, length - end.length)
+  if (killwords) {
+    return result + end
+  }
+  const space = result.lastIndexOf(" ")
+  return (space === -1 ? result : result.slice(0, space)) + end
+}
+
+const WRAP_WHITESPACE = "[\\t\\n\\v\\f\\r ]"
+const WRAP_NON_WHITESPACE = "[^\\t\\n\\v\\f\\r ]"
+const WRAP_WORD_PUNCTUATION = "[\\w!\"'&.,?]"
+const WRAP_LETTER = "[^\\d\\W]"
+
+// The chunks of Python's textwrap module, which are words possibly broken after hyphens, or whitespace
+const WRAP_CHUNKS = new RegExp(
+  `(${WRAP_WHITESPACE}+` +
+    `|(?<=${WRAP_WORD_PUNCTUATION})-{2,}(?=\\w)` +
+    `|${WRAP_NON_WHITESPACE}+?(?:` +
+    `-(?:(?<=${WRAP_LETTER}{2}-)|(?<=${WRAP_LETTER}-${WRAP_LETTER}-))(?=${WRAP_LETTER}-?${WRAP_LETTER})` +
+    `|(?=${WRAP_WHITESPACE}|$)` +
+    `|(?<=${WRAP_WORD_PUNCTUATION})(?=-{2,}\\w)))`,
+)
+const WRAP_WHITESPACE_CHUNKS = new RegExp(`(${WRAP_WHITESPACE}+)`)
+
+/**
+ * Function that mimics Python's textwrap.wrap() function without replacing whitespace, as used by Jinja's wordwrap
+ * filter. Whitespace between words is kept, but dropped around wrapped lines.
+ * @returns The wrapped lines.
+ */
+export function wrap(
+  text: string,
+  width: number,
+  breakLongWords = true,
+  breakOnHyphens = true,
+): string[] {
+  if (width <= 0) {
+    throw new RangeError(`invalid width ${width} (must be > 0)`)
+  }
+  const chunks = text
+    .split(breakOnHyphens ? WRAP_CHUNKS : WRAP_WHITESPACE_CHUNKS)
+    .filter((chunk) => chunk)
+    .reverse()
+  const lines: string[] = []
+  while (chunks.length > 0) {
+    const line: string[] = []
+    let length = 0
+
+    // Drop whitespace at the start of lines, except for the first one
+    if (chunks.at(-1)!.trim() === "" && lines.length > 0) {
+      chunks.pop()
+    }
+    while (chunks.length > 0 && length + chunks.at(-1)!.length <= width) {
+      length += chunks.at(-1)!.length
+      line.push(chunks.pop()!)
+    }
+
+    // Handle words which are too long to fit in any line
+    if (chunks.length > 0 && chunks.at(-1)!.length > width) {
+      const chunk = chunks.at(-1)!
+      const spaceLeft = width - length
+      if (breakLongWords) {
+        let end = spaceLeft
+        if (breakOnHyphens && chunk.length > spaceLeft) {
+          const hyphen = chunk.lastIndexOf("-", spaceLeft - 1)
+          if (hyphen > 0 && /[^-]/.test(chunk.slice(0, hyphen))) {
+            end = hyphen + 1
+          }
+        }
+        line.push(chunk.slice(0, end))
+        chunks[chunks.length - 1] = chunk.slice(end)
+      } else if (line.length === 0) {
+        line.push(chunks.pop()!)
+      }
+    }
+
+    // Drop whitespace at the end of lines
+    if (line.length > 0 && line.at(-1)!.trim() === "") {
+      line.pop()
+    }
+    if (line.length > 0) {
+      lines.push(line.join(""))
+    }
+  }
+  return lines
+}
+
+/**
+ * Function that mimics Jinja's url_quote() function, which quotes a string for use in a URL using UTF-8.
+ * @param forQuery Whether to quote `/` and use `+` for spaces, as in query strings.
+ */
+export function urlQuote(value: string, forQuery = false): string {
+  const quoted = encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => "%" + c.charCodeAt(0).toString(16).toUpperCase(),
+  )
+  return forQuery
+    ? quoted.replaceAll("%20", "+")
+    : quoted.replaceAll("%2F", "/")
+}
+
+const URL_PATTERN =
+  /^((https?:\/\/|www\.)(([\w%-]+\.)+)?([a-z]{2,63}|xn--[\w%]{2,59})|([\w%-]{2,63}\.)+(com|net|int|edu|gov|org|info|mil)|(https?:\/\/)((\d{1,3})(\.\d{1,3}){3}|\[([\da-f]{0,4}:){2}([\da-f]{0,4}:?){1,6}]))(?::\d{1,5})?(?:[/?#]\S*)?$/i
+const EMAIL_PATTERN = /^\S+@\w[\w.-]*\.\w+$/
+
+/**
+ * Function that mimics Jinja's urlize() function, converting URLs and email addresses in text into links.
+ * @param text The text, already escaped for HTML.
+ * @param trimUrlLimit The length to which the text of links is shortened.
+ * @param extraSchemes Other URL schemes to recognize, in addition to `http://`, `https://` and `mailto:`.
+ */
+export function urlize(
+  text: string,
+  trimUrlLimit?: number,
+  rel?: string,
+  target?: string,
+  extraSchemes: string[] = [],
+): string {
+  const trimUrl = (url: string) =>
+    trimUrlLimit !== undefined && url.length > trimUrlLimit
+      ? url.slice(0, trimUrlLimit) + "..."
+      : url
+  const relAttribute = rel ? ` rel="${escapeHtml(rel)}"` : ""
+  const targetAttribute = target ? ` target="${escapeHtml(target)}"` : ""
+
+  return text
+    .split(/(\s+)/)
+    .map((word) => {
+      let head = ""
+      let middle = word
+      let tail = ""
+      const lead = /^([(<]|&lt;)+/.exec(middle)
+      if (lead !== null) {
+        head = lead[0]
+        middle = middle.slice(head.length)
+      }
+      const trail = /([)>.,\n]|&gt;)+$/.exec(middle)
+      if (trail !== null) {
+        tail = trail[0]
+        middle = middle.slice(0, trail.index)
+      }
+
+      // Prefer balancing parentheses in URLs instead of ignoring a trailing character
+      for (const [start, end] of [
+        ["(", ")"],
+        ["<", ">"],
+        ["&lt;", "&gt;"],
+      ]) {
+        const startCount = middle.split(start).length - 1
+        const endCount = middle.split(end).length - 1
+        if (startCount <= endCount) {
+          continue
+        }
+        for (
+          let i = Math.min(startCount, tail.split(end).length - 1);
+          i > 0;
+          --i
+        ) {
+          const endIndex = tail.indexOf(end) + end.length
+          middle += tail.slice(0, endIndex)
+          tail = tail.slice(endIndex)
+        }
+      }
+
+      if (URL_PATTERN.test(middle)) {
+        const href =
+          middle.startsWith("https://") || middle.startsWith("http://")
+            ? middle
+            : "https://" + middle
+        middle = `<a href="${href}"${relAttribute}${targetAttribute}>${trimUrl(middle)}</a>`
+      } else if (
+        middle.startsWith("mailto:") &&
+        EMAIL_PATTERN.test(middle.slice(7))
+      ) {
+        middle = `<a href="${middle}">${middle.slice(7)}</a>`
+      } else if (
+        middle.includes("@") &&
+        !middle.startsWith("www.") &&
+        !middle.startsWith("@") &&
+        !middle.includes(":") &&
+        EMAIL_PATTERN.test(middle)
+      ) {
+        middle = `<a href="mailto:${middle}">${middle}</a>`
+      } else {
+        for (const scheme of extraSchemes) {
+          if (middle !== scheme && middle.startsWith(scheme)) {
+            middle = `<a href="${middle}"${relAttribute}${targetAttribute}>${middle}</a>`
+          }
+        }
+      }
+      return head + middle + tail
+    })
+    .join("")
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+}
+
+/**
+ * Function that mimics Python's html.unescape() function for numeric character references and the common named ones.
+ */
+export function unescapeHtml(value: string): string {
+  return value.replace(
+    /&(?:#(\d+)|#[xX]([\da-fA-F]+)|([a-zA-Z]+));/g,
+    (match, decimal, hexadecimal, name) => {
+      if (name !== undefined) {
+        return HTML_ENTITIES[name] ?? match
+      }
+      const codePoint = parseInt(decimal ?? hexadecimal, decimal ? 10 : 16)
+      return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match
+    },
+  )
+}
+
+/**
+ * Function that mimics markupsafe's striptags() function, removing comments and tags and collapsing whitespace.
+ */
+export function stripTags(value: string): string {
+  for (const [open, close] of [
+    ["<!--", "-->"],
+    ["<", ">"],
+  ]) {
+    for (
+      let start = value.indexOf(open);
+      start !== -1;
+      start = value.indexOf(open)
+    ) {
+      const end = value.indexOf(close, start)
+      if (end === -1) {
+        break
+      }
+      value = value.slice(0, start) + value.slice(end + close.length)
+    }
+  }
+  return unescapeHtml(value.split(/\s+/).filter(Boolean).join(" "))
+}
+
+/**
+ * Function that mimics Jinja's filesizeformat filter, e.g. `13 kB` or `4.1 MiB` with binary prefixes.
+ */
+export function filesizeformat(bytes: number, binary = false): string {
+  const base = binary ? 1024 : 1000
+  if (bytes === 1) {
+    return "1 Byte"
+  } else if (bytes < base) {
+    return `${Math.trunc(bytes)} Bytes`
+  }
+  const prefixes = ["k", "M", "G", "T", "P", "E", "Z", "Y"].map((prefix) =>
+    binary ? prefix.toUpperCase() + "iB" : prefix + "B",
+  )
+  let unit = base
+  let prefix = ""
+  for (const [i, current] of prefixes.entries()) {
+    unit = base ** (i + 2)
+    prefix = current
+    if (bytes < unit) {
+      break
+    }
+  }
+  return `${toFixed((base * bytes) / unit, 1)} ${prefix}`
+}
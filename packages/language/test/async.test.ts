@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest"
+
+import { InMemoryLoader, Template } from "../src/index"
+
+const delay = <T>(value: T) =>
+  new Promise<T>((resolve) => setTimeout(() => resolve(value), 1))
+
+describe("Async rendering", () => {
+  it("should wait for async globals, filters, tests and methods", async () => {
+    const template = new Template(
+      `{{ user.name()|shout }} {{ double(21) }} {{ 4 is even_later }}`,
+    )
+      .addFilter("shout", async (value: string) => `${value}!`)
+      .addGlobal("double", (value: number) => delay(value * 2))
+      .addTest("even_later", (value: number) => delay(value % 2 === 0))
+    expect(
+      await template.renderAsync({ user: { name: () => delay("Ann") } }),
+    ).toEqual("Ann! 42 true")
+  })
+
+  it("should wait in loops, conditions, assignments and macros", async () => {
+    const items = {
+      load: (count: number) =>
+        delay(Array.from({ length: count }, (_, i) => i)),
+      rows: async function* () {
+        yield "a"
+        yield "b"
+      },
+    }
+    const render = (source: string) => new Template(source).renderAsync(items)
+    expect(
+      await render(
+        `{% for x in load(3) %}{{ x }}{{ load(x)|sum }},{% endfor %}`,
+      ),
+    ).toEqual("00,10,21,")
+    expect(
+      await render(`{% for row in rows() %}{{ row }}{% endfor %}`),
+    ).toEqual("ab")
+    expect(
+      await render(
+        `{% for x in load(5) if x is odd %}{% if load(x)|length > 2 %}{% break %}{% endif %}{{ x }}{% endfor %}`,
+      ),
+    ).toEqual("1")
+    expect(
+      await render(
+        `{% set xs = load(4) %}{{ xs|sum }},{% filter upper %}{{ load(2)|join("-") }}b{% endfilter %}`,
+      ),
+    ).toEqual("6,0-1B")
+    expect(
+      await render(
+        `{% macro list(count) %}[{{ load(count)|join }}]{% endmacro %}{{ list(2) ~ list(3) }}`,
+      ),
+    ).toEqual("[01][012]")
+  })
+
+  it("should wait in included and extended templates", async () => {
+    const template = new Template(
+      `{% extends "base.html" %}{% block body %}{% include "part.html" %}{% endblock %}`,
+      {
+        loader: new InMemoryLoader({
+          "base.html": `<{{ title() }}>{% block body %}{% endblock %}`,
+          "part.html": `{{ title()|upper }}`,
+        }),
+      },
+    ).addGlobal("title", () => delay("page"))
+    expect(await template.renderAsync()).toEqual("<page>PAGE")
+  })
+
+  it("should call each function once", async () => {
+    const calls: number[] = []
+    const load = (value: number) => {
+      calls.push(value)
+      return delay(value)
+    }
+    const template = new Template(
+      `{% macro twice(x) %}{{ load(x) * 2 }}{% endmacro %}{{ load(1) + load(2) }} {{ twice(load(3)) ~ load(4) }}`,
+    )
+    expect(await template.renderAsync({ load })).toEqual("3 64")
+    expect(calls).toEqual([1, 2, 3, 3, 4])
+  })
+
+  it("should report promises in sync renders and rejected promises", async () => {
+    const template = new Template(`a\n{{ load() }}`)
+    expect(() => template.render({ load: () => delay(1) })).toThrowError(
+      "Cannot wait for the result of an async function: render the template with renderAsync",
+    )
+    await expect(
+      template.renderAsync({ load: () => delay(1) }),
+    ).resolves.toEqual("a\n1")
+    await expect(
+      new Template(`{{ load() }}`).renderAsync({
+        load: () => Promise.reject(new Error("Failed to load")),
+      }),
+    ).rejects.toThrowError("Failed to load")
+  })
+})
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest"
+
+import { InMemoryLoader, Template } from "../src/index"
+
+const render = (
+  template: string,
+  items?: Record<string, unknown>,
+  autoescape = true,
+) => new Template(template, { autoescape }).render(items)
+
+describe("Autoescaping", () => {
+  it("should escape the output of expressions only", () => {
+    expect(render(`{{ "<b>" }}<i>{{ x }}</i>{{ 1 }}`, { x: `'&"` })).toEqual(
+      "&lt;b&gt;<i>&#39;&amp;&#34;</i>1",
+    )
+    expect(render(`{{ "<b>" }}`, {}, false)).toEqual("<b>")
+  })
+
+  it("should support the escaping filters and test", () => {
+    expect(render(`{{ "<b>" | safe }}{{ "<b>" | e | e }}`)).toEqual(
+      "<b>&lt;b&gt;",
+    )
+    expect(render(`{{ "<b>" | escape }}{{ "<b>" | safe }}`, {}, false)).toEqual(
+      "&lt;b&gt;<b>",
+    )
+    expect(render(`{{ "&lt;" | safe | forceescape }}`)).toEqual("&amp;lt;")
+    expect(
+      render(`{{ "a" | safe is escaped }} {{ "a" is escaped }}`, {}, false),
+    ).toEqual("true false")
+  })
+
+  it("should keep safe strings safe when concatenating", () => {
+    expect(render(`{{ "<a>" | safe ~ "<b>" }}`)).toEqual("<a>&lt;b&gt;")
+    expect(render(`{{ "<b>" + "<a>" | safe }}`)).toEqual("&lt;b&gt;<a>")
+    expect(render(`{{ "<a>" | safe ~ "<b>" }}`, {}, false)).toEqual("<a><b>")
+  })
+
+  it("should treat rendered blocks and macros as safe", () => {
+    expect(
+      render(`{% set x %}<b>{{ "<" }}</b>{% endset %}{{ x }}{{ x | upper }}`),
+    ).toEqual("<b>&lt;</b><B>&LT;</B>")
+    expect(
+      render(`{% macro m(v) %}<p>{{ v }}</p>{% endmacro %}{{ m("<") }}`),
+    ).toEqual("<p>&lt;</p>")
+  })
+
+  it("should keep safe strings safe through string filters", () => {
+    expect(render(`{{ "<b>" | safe | upper }}`)).toEqual("<B>")
+    expect(render(`{{ "<b>" | safe | title }}`)).toEqual("&lt;B&gt;")
+    expect(render(`{{ ["<a>" | safe, "<b>"] | join(", ") }}`)).toEqual(
+      "<a>, &lt;b&gt;",
+    )
+    expect(render(`{{ ["<a>", "<b>"] | join }}`)).toEqual("&lt;a&gt;&lt;b&gt;")
+    expect(render(`{{ "<b>x</b>" | safe | replace("x", "<i>") }}`)).toEqual(
+      "<b>&lt;i&gt;</b>",
+    )
+    expect(render(`{{ "a<b" | safe | replace("<", "&") }}`)).toEqual("a&amp;b")
+    expect(render(`{{ "a<b" | replace("<", "&" | safe) }}`)).toEqual("a&lt;b")
+    expect(render(`{{ {"a": "<b>"} | tojson }}`)).toEqual(
+      `{"a": "\\u003cb\\u003e"}`,
+    )
+  })
+
+  it("should keep safe strings safe when indexing and slicing", () => {
+    expect(
+      render(
+        `{{ ("<b>" | safe)[0] }}{{ ("<b>x</b>" | safe)[:3] }}{{ ("<b>" | safe)[::-1] }}`,
+      ),
+    ).toEqual("<<b>>b<")
+    expect(render(`{{ "<b>"[0] }}{{ "<b>"[:3] }}`)).toEqual("&lt;&lt;b&gt;")
+  })
+
+  it("should keep safe strings safe in their methods", () => {
+    expect(
+      render(
+        `{{ ("<b>a</b>" | safe).upper() }}{{ (" <b> " | safe).strip() }}{{ ("<b>a</b>" | safe).title() }}`,
+      ),
+    ).toEqual("<B>A</B><b><B>A</B>")
+    expect(render(`{{ ("<b>a b</b>" | safe).split() | join("|") }}`)).toEqual(
+      "<b>a|b</b>",
+    )
+    expect(render(`{{ ("<b>a</b>" | safe).replace("a", "<i>") }}`)).toEqual(
+      "<b>&lt;i&gt;</b>",
+    )
+    expect(
+      render(`{{ ("<b>a</b>" | safe).replace("a", "<i>" | safe) }}`),
+    ).toEqual("<b><i></b>")
+    expect(render(`{{ ("<b>%s</b>" | safe) | format("<i>") }}`)).toEqual(
+      "<b>&lt;i&gt;</b>",
+    )
+    expect(render(`{{ ("<b>%(a)s</b>" | safe) | format(a="<i>") }}`)).toEqual(
+      "<b>&lt;i&gt;</b>",
+    )
+    expect(render(`{{ "<b>".upper() }}`)).toEqual("&lt;B&gt;")
+  })
+
+  it("should enable or disable autoescaping in autoescape blocks", () => {
+    expect(
+      render(`{% autoescape false %}{{ "<" }}{% endautoescape %}{{ "<" }}`),
+    ).toEqual("<&lt;")
+    expect(
+      render(
+        `{% autoescape true %}{{ "<" }}{% endautoescape %}{{ "<" }}`,
+        {},
+        false,
+      ),
+    ).toEqual("&lt;<")
+    expect(
+      render(
+        `{% macro m() %}{{ "<" }}{% endmacro %}{% autoescape false %}{{ m() }}{% endautoescape %}`,
+      ),
+    ).toEqual("&lt;")
+  })
+
+  it("should start included templates with the configured autoescaping", () => {
+    const template = new Template(
+      `{% autoescape false %}{% include "a.html" %}{% endautoescape %}`,
+      {
+        autoescape: true,
+        loader: new InMemoryLoader({ "a.html": `{{ "<" }}` }),
+      },
+    )
+    expect(template.render()).toEqual("&lt;")
+  })
+})
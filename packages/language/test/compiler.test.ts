@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest"
+
+import type { TemplateOptions } from "../src/index"
+import {
+  compile,
+  Environment,
+  InMemoryLoader,
+  SecurityError,
+  Template,
+} from "../src/index"
+
+const loader = new InMemoryLoader({
+  "base.html": `<{% block title %}Base{% endblock %}>{% block body required %}{% endblock %}`,
+  "child.html": `{% extends "base.html" %}{% set x = 1 %}{% block body %}[{{ super is defined }}{{ x }}]{% endblock %}`,
+  "macros.html": `{% macro shout(text, end="!") %}{{ text|upper }}{{ end }}{% endmacro %}{% set _hidden = 1 %}{% set visible = 2 %}`,
+  "part.html": `({{ name }}{{ self.title is defined }})`,
+  "escaped.html": `{{ "<b>" }}`,
+})
+
+const CONTEXT = {
+  name: "<Ann>",
+  items: [3, 1, 2],
+  user: {
+    name: "Bob",
+    tags: ["a", "b"],
+    greet: (name: string) => `hi ${name}`,
+  },
+  tree: [{ name: "a", children: [{ name: "b", children: [] }] }],
+}
+
+const TEMPLATES = [
+  `{{ 1 + 2 * 3 }} {{ 7 % 2 }} {{ "a" ~ 1 }} {{ 1.5 }} {{ -3 }}`,
+  `{{ items[1:] }} {{ items[::-1] }} {{ name[1:3] }} {{ user.tags[0] }} {{ user["name"] }}`,
+  `{{ [1, 2] + [3] }} {{ (1, 2) }} {{ {"a": 1, "b": [2]} }} {{ none }}{{ true and 0 }}{{ 0 or "x" }}`,
+  `{{ not true }} {{ 1 if items else 2 }} {{ 2 in items }} {{ "b" not in "abc" }} {{ x is not defined }}`,
+  `{{ items|sort|join(",") }} {{ items|map("string")|join }} {{ name|replace("A", "a", count=1) }}`,
+  `{{ user.greet("you") }} {{ user.name.upper() }} {{ range(*items[1:]) }} {{ user.greet(*user.tags[:1]) }} {{ "ab"|center(width=4) }}`,
+  `{% for x in items if x > 1 %}{{ loop.index }}{{ x }}{{ loop.cycle("a", "b") }}{% else %}none{% endfor %}`,
+  `{% for x in [] %}{{ x }}{% else %}empty{% endfor %}{% for k, v in {"a": 1}.items() %}{{ k }}={{ v }}{% endfor %}`,
+  `{% for x in items %}{{ x }}{% if x == 1 %}{% break %}{% endif %}-{% endfor %}`,
+  `{% for x in items %}{% if x == 1 %}{% continue %}{% endif %}{{ x }}{{ loop.changed(x) }}{% endfor %}`,
+  `{% for node in tree recursive %}{{ loop.depth }}{{ node.name }}({{ loop(node.children) }}){% endfor %}`,
+  `{% set a, b = 1, 2 %}{% set ns = namespace(n=0) %}{% for x in items %}{% set ns.n = ns.n + x %}{% endfor %}{{ a + b + ns.n }}`,
+  `{% set block %}{{ name }}!{% endset %}{{ block }}{% filter upper %}{{ name }}{% endfilter %}`,
+  `{% macro row(x, y=2) %}{{ x }}{{ y }}{{ caller(x) if caller is defined }}{% endmacro %}{{ row(1) }}{% call(v) row(3, y=4) %}<{{ v }}>{% endcall %}`,
+  `{% include "part.html" %}{% include ["missing.html", "part.html"] without context %}{% include "missing.html" ignore missing %}`,
+  `{% import "macros.html" as m %}{% from "macros.html" import shout as s, visible %}{{ m.shout("a") }}{{ s("b", end="?") }}{{ visible }}`,
+  `{% extends "child.html" %}{% block title %}{{ super() }}Child{% endblock %}`,
+  `{% block outer %}{% block inner %}in{% endblock %}{% endblock %}{{ self.inner() }}`,
+  `{{ "<a>" }}{% autoescape true %}{{ "<b>" }}{{ "<i>"|safe }}{% include "escaped.html" %}{% endautoescape %}`,
+  `{% trans count=items|length %}{{ count }} item{% pluralize %}{{ count }} items{% endtrans %}{{ _("x") }}`,
+  `{{ items|selectattr("real")|list }} {{ "%s-%d"|format("a", 2) }} {{ user.tags|tojson }} {{ -1|abs }}`,
+]
+
+function renderBoth(source: string, options: TemplateOptions = {}) {
+  const render = (compile: boolean) => {
+    try {
+      return new Template(source, { loader, ...options, compile }).render(
+        CONTEXT,
+      )
+    } catch (error) {
+      return error
+    }
+  }
+  return [render(true), render(false)]
+}
+
+describe("Compiler", () => {
+  it("should render like the interpreter", () => {
+    for (const source of TEMPLATES) {
+      const [compiled, interpreted] = renderBoth(source)
+      expect(interpreted).not.toBeInstanceOf(Error)
+      expect(compiled, source).toEqual(interpreted)
+    }
+    for (const source of TEMPLATES) {
+      const [compiled, interpreted] = renderBoth(source, { autoescape: true })
+      expect(compiled, source).toEqual(interpreted)
+    }
+  })
+
+  it("should keep the output rendered before breaking out of a loop", () => {
+    const [compiled] = renderBoth(
+      `{% for x in [1, 2, 3] %}{{ x }}{% if x == 2 %}{% break %}{% endif %},{% endfor %}`,
+    )
+    expect(compiled).toEqual("1,2")
+  })
+
+  it("should fail like the interpreter", () => {
+    for (const source of [
+      `a\n{{ 1 + x.y.z }}`,
+      `{{ items[1:"a"] }}`,
+      `{% for x in 1 %}{% endfor %}`,
+      `{% set 42 = 1 %}`,
+      `{% extends "base.html" %}`,
+      `{% include "missing.html" %}`,
+      `{% from "macros.html" import _hidden %}`,
+      `{% macro m(a) %}{% endmacro %}\n{{ m() }}`,
+      `{{ undefined_function() }}`,
+      `{{ {1: 2} }}`,
+    ]) {
+      const [compiled, interpreted] = renderBoth(source)
+      expect(interpreted).toBeInstanceOf(Error)
+      expect((compiled as Error).message, source).toEqual(
+        (interpreted as Error).message,
+      )
+      expect((compiled as Error).constructor).toBe(interpreted.constructor)
+    }
+  })
+
+  it("should compile templates once and reuse loaded templates", () => {
+    const environment = new Environment()
+    environment.loader = loader
+    expect(environment.getTemplate("part.html")).toBe(
+      environment.getTemplate("part.html"),
+    )
+
+    const template = new Template(`{{ x }}`)
+    expect(template.render({ x: 1 })).toEqual("1")
+    expect(template.render({ x: 2 })).toEqual("2")
+  })
+
+  it("should interpret sandboxed templates", () => {
+    const template = new Template(
+      `{% for x in [1, 2, 3, 4, 5, 6] %}{% endfor %}`,
+      {
+        sandbox: { maxIterations: 5 },
+      },
+    )
+    expect(() => template.render()).toThrowError(SecurityError)
+    expect(() =>
+      compile(template.parsed)(
+        Object.assign(new Environment(), { sandbox: { maxIterations: 5 } }),
+      ),
+    ).toThrowError(SecurityError)
+  })
+})
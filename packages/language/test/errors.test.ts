@@ -207,6 +207,16 @@ const PARSER_ERRORS = Object.freeze({
       },
     ],
   },
+  MISSING_ENDTRANS: {
+    text: "{% trans %}wow{% pluralize %}wows",
+    errors: [
+      {
+        offset: 33,
+        type: "MissingNode",
+        missingType: "'{% endtrans %}'",
+      },
+    ],
+  },
   MISSING_ENDCALL: {
     text: "{% call test() %}wow",
     errors: [
@@ -0,0 +1,435 @@
+import { describe, expect, it } from "vitest"
+
+import { SecurityError, Template } from "../src/index"
+
+interface ParityCase {
+  template: string
+  context?: Record<string, unknown>
+  output: string
+}
+
+// The outputs were recorded by rendering the templates with Python Jinja 3.1.6
+const PARITY_CORPUS: Record<string, ParityCase> = {
+  ABS: {
+    template: `{{ (-3)|abs }} {{ x|abs }}`,
+    context: { x: -2.5 },
+    output: "3 2.5",
+  },
+  ATTR: {
+    template: `{% set upper = 'abc'|attr('upper') %}{{ upper() }} [{{ {'a': 1}|attr('a') }}]`,
+    output: "ABC []",
+  },
+  BATCH: {
+    template: `{% for row in items|batch(3) %}{{ row|join(',') }};{% endfor %}`,
+    context: { items: [1, 2, 3, 4, 5, 6, 7] },
+    output: "1,2,3;4,5,6;7;",
+  },
+  BATCH_FILL: {
+    template: `{% for row in items|batch(3, 'x') %}{{ row|join(',') }};{% endfor %}`,
+    context: { items: [1, 2, 3, 4, 5, 6, 7] },
+    output: "1,2,3;4,5,6;7,x,x;",
+  },
+  CAPITALIZE: {
+    template: `{{ 'hELLO wORLD'|capitalize }}`,
+    output: "Hello world",
+  },
+  CENTER: {
+    template: `[{{ 'abc'|center(9) }}][{{ 'ab'|center(7) }}][{{ 'abc'|center(2) }}]`,
+    output: "[   abc   ][   ab  ][abc]",
+  },
+  LENGTH: {
+    template: `{{ 'héllo'|count }} {{ items|length }} {{ {'a': 1}|length }}`,
+    context: { items: [1, 2, 3] },
+    output: "5 3 1",
+  },
+  DEFAULT: {
+    template: `{{ missing|default('fallback') }} {{ ''|d('empty', true) }} {{ 0|default(5) }}`,
+    output: "fallback empty 0",
+  },
+  DICTSORT: {
+    template: `{% for k, v in data|dictsort %}{{ k }}={{ v }};{% endfor %}`,
+    context: { data: { b: 1, A: 2, c: 0 } },
+    output: "A=2;b=1;c=0;",
+  },
+  DICTSORT_CASE_SENSITIVE: {
+    template: `{% for k, v in data|dictsort(true) %}{{ k }}={{ v }};{% endfor %}`,
+    context: { data: { b: 1, A: 2, c: 0 } },
+    output: "A=2;b=1;c=0;",
+  },
+  DICTSORT_BY_VALUE: {
+    template: `{% for k, v in data|dictsort(by='value', reverse=true) %}{{ k }}={{ v }};{% endfor %}`,
+    context: { data: { b: 1, A: 2, c: 0 } },
+    output: "A=2;b=1;c=0;",
+  },
+  ESCAPE: {
+    template: `{{ '<a href="x">&</a>'|e }} {{ '<b>'|escape|forceescape }}`,
+    output: "&lt;a href=&#34;x&#34;&gt;&amp;&lt;/a&gt; &amp;lt;b&amp;gt;",
+  },
+  FILESIZEFORMAT: {
+    template: `{{ 100|filesizeformat }} {{ 1000|filesizeformat }} {{ 1500000|filesizeformat }} {{ 1024|filesizeformat(true) }} {{ 3000000000|filesizeformat(binary=true) }}`,
+    output: "100 Bytes 1.0 kB 1.5 MB 1.0 KiB 2.8 GiB",
+  },
+  FIRST_LAST: {
+    template: `{{ items|first }} {{ items|last }} {{ 'abc'|first }} {{ 'abc'|last }} [{{ []|first }}]`,
+    context: { items: [1, 2, 3] },
+    output: "1 3 a c []",
+  },
+  FLOAT: {
+    template: `{{ '1.5'|float }} {{ 'x'|float }} {{ 'x'|float(2.5) }} {{ 3|float }} {{ '1e3'|float }}`,
+    output: "1.5 0.0 2.5 3.0 1000.0",
+  },
+  INT: {
+    template: `{{ '42'|int }} {{ '3.9'|int }} {{ 'x'|int(-1) }} {{ '0x1A'|int(base=16) }} {{ '1_000'|int }} {{ x|int }} {{ '0b101'|int(0, 2) }}`,
+    context: { x: -3.7 },
+    output: "42 3 -1 26 1000 -3 5",
+  },
+  FORMAT: {
+    template: `{{ '%s is %d years'|format('Tom', 30) }} {{ '%(a)s-%(b)05.1f'|format(a='x', b=3.14159) }} {{ '%5s|%-5s|%x|%o|%e'|format('a', 'b', 255, 8, 12345.678) }}`,
+    output: "Tom is 30 years x-003.1     a|b    |ff|10|1.234568e+04",
+  },
+  GROUPBY: {
+    template: `{% for group in people|groupby('city') %}{{ group.grouper }}: {{ group.list|map(attribute='name')|join(', ') }}; {% endfor %}`,
+    context: {
+      people: [
+        { name: "A", city: "Paris" },
+        { name: "B", city: "berlin" },
+        { name: "C", city: "paris" },
+        { name: "D", city: "Berlin" },
+      ],
+    },
+    output: "berlin: B, D; Paris: A, C; ",
+  },
+  GROUPBY_CASE_SENSITIVE: {
+    template: `{% for city, items in people|groupby('city', case_sensitive=true) %}{{ city }}={{ items|length }};{% endfor %}`,
+    context: {
+      people: [
+        { name: "A", city: "Paris" },
+        { name: "B", city: "berlin" },
+        { name: "C", city: "paris" },
+      ],
+    },
+    output: "Paris=1;berlin=1;paris=1;",
+  },
+  GROUPBY_DEFAULT: {
+    template: `{% for city, items in people|groupby('city', default='Nowhere') %}{{ city }}={{ items|length }};{% endfor %}`,
+    context: { people: [{ name: "A", city: "Paris" }, { name: "B" }] },
+    output: "Nowhere=1;Paris=1;",
+  },
+  INDENT: {
+    template: `{{ text|indent }}|{{ text|indent(2, true) }}|{{ text|indent('> ', blank=true) }}`,
+    context: { text: "a\n\nb\n" },
+    output: "a\n\n    b\n|  a\n\n  b\n|a\n> \n> b\n> ",
+  },
+  ITEMS: {
+    template: `{% for k, v in {'a': 1, 'b': 2}|items %}{{ k }}{{ v }}{% endfor %}[{% for k in missing|items %}{{ k }}{% endfor %}]`,
+    output: "a1b2[]",
+  },
+  JOIN: {
+    template: `{{ [1, 2, 3]|join('-') }} {{ users|join(', ', attribute='name') }} {{ 'abc'|join('.') }}`,
+    context: { users: [{ name: "a" }, { name: "b" }] },
+    output: "1-2-3 a, b a.b.c",
+  },
+  LIST_LOWER_UPPER: {
+    template: `{{ 'abc'|list|join(',') }} {{ 'Hello'|lower }} {{ 'Hello'|upper }}`,
+    output: "a,b,c hello HELLO",
+  },
+  MAP: {
+    template: `{{ users|map(attribute='name')|join(',') }} {{ users|map(attribute='age', default=0)|join(',') }} {{ ['a', 'B']|map('upper')|join }} {{ [1.26, 2.5]|map('round', 1)|join(' ') }}`,
+    context: { users: [{ name: "a", age: 3 }, { name: "b" }] },
+    output: "a,b 3,0 AB 1.3 2.5",
+  },
+  MAX_MIN: {
+    template: `{{ [3, 1, 2]|max }} {{ [3, 1, 2]|min }} {{ ['a', 'B', 'c']|max }} {{ ['a', 'B', 'c']|max(case_sensitive=true) }} {{ (users|min(attribute='age')).name }} {{ (users|max(attribute='age')).name }}`,
+    context: {
+      users: [
+        { name: "a", age: 3 },
+        { name: "b", age: 5 },
+      ],
+    },
+    output: "3 1 c c a b",
+  },
+  PPRINT: {
+    template: `{{ data|pprint }}`,
+    context: { data: { b: [1, 2, "three"], a: "x", c: null } },
+    output: "{'a': 'x', 'b': [1, 2, 'three'], 'c': None}",
+  },
+  PPRINT_WRAPPED: {
+    template: `{{ data|pprint }}`,
+    context: {
+      data: {
+        list: [
+          "a long string number one",
+          "a long string number two",
+          "a long string number three",
+        ],
+        nested: { key: "value", other: [1, 2, 3] },
+      },
+    },
+    output:
+      "{'list': ['a long string number one',\n          'a long string number two',\n          'a long string number three'],\n 'nested': {'key': 'value', 'other': [1, 2, 3]}}",
+  },
+  SELECT_REJECT: {
+    template: `{{ [1, 2, 3, 4, 5]|select('odd')|join }} {{ [1, 2, 3, 4, 5]|reject('odd')|join }} {{ [0, 1, '', 'a']|select|list|length }} {{ [1, 2, 3]|select('equalto', 2)|join }}`,
+    output: "135 24 2 2",
+  },
+  SELECTATTR_REJECTATTR: {
+    template: `{{ users|selectattr('active')|map(attribute='name')|join }} {{ users|rejectattr('active')|map(attribute='name')|join }} {{ users|selectattr('name', 'equalto', 'b')|map(attribute='name')|join }}`,
+    context: {
+      users: [
+        { name: "a", active: true },
+        { name: "b", active: false },
+        { name: "c" },
+      ],
+    },
+    output: "a bc b",
+  },
+  REPLACE: {
+    template: `{{ 'aaa'|replace('a', 'b', 2) }} {{ 'hello'|replace('l', 'L') }}`,
+    output: "bba heLLo",
+  },
+  REVERSE: {
+    template: `{{ [1, 2, 3]|reverse|join }} {{ 'abc'|reverse }}`,
+    output: "321 cba",
+  },
+  ROUND: {
+    template: `{{ 2.5|round }} {{ 3.5|round }} {{ 2.675|round(2) }} {{ 2.1|round(method='ceil') }} {{ 2.9|round(1, 'floor') }} {{ 7|round }} {{ 1234|round(-2) }}`,
+    output: "2.0 4.0 2.67 3.0 2.9 7 1200",
+  },
+  SLICE: {
+    template: `{% for column in items|slice(3) %}[{{ column|join(',') }}]{% endfor %}|{% for column in items|slice(3, 0) %}[{{ column|join(',') }}]{% endfor %}`,
+    context: { items: [1, 2, 3, 4, 5, 6, 7] },
+    output: "[1,2,3][4,5][6,7]|[1,2,3][4,5,0][6,7,0]",
+  },
+  SORT: {
+    template: `{{ [3, 1, 2]|sort|join }} {{ [3, 1, 2]|sort(true)|join }} {{ ['b', 'A', 'c']|sort|join }} {{ ['b', 'A', 'c']|sort(case_sensitive=true)|join }}`,
+    output: "123 321 Abc Abc",
+  },
+  SORT_ATTRIBUTES: {
+    template: `{{ users|sort(attribute='age,name')|map(attribute='name')|join }} {{ users|sort(attribute='age', reverse=true)|map(attribute='name')|join }}`,
+    context: {
+      users: [
+        { name: "c", age: 2 },
+        { name: "a", age: 1 },
+        { name: "b", age: 2 },
+        { name: "d", age: 1 },
+      ],
+    },
+    output: "adbc cbad",
+  },
+  STRING_STRIPTAGS: {
+    template: `{{ 42|string ~ 'x' }} {{ '<p>Hello &amp; <b>world</b></p>\n  <br/>  again'|striptags }}`,
+    output: "42x Hello & world again",
+  },
+  SUM: {
+    template: `{{ [1, 2, 3]|sum }} {{ [1.5, 2]|sum }} {{ users|sum(attribute='age') }} {{ [1, 2]|sum(start=10) }} {{ [[1], [2, 3]]|sum(start=[])|join(',') }}`,
+    context: { users: [{ age: 3 }, { age: 4 }] },
+    output: "6 3.5 7 13 1,2,3",
+  },
+  TITLE: {
+    template: `{{ 'hello wORLD-foo (bar) [baz] <qux>'|title }}`,
+    output: "Hello World-Foo (Bar) [Baz] <Qux>",
+  },
+  TOJSON: {
+    template: `{{ data|tojson }} {{ data|tojson(2) }}`,
+    context: { data: { a: [1, "x"], b: "y" } },
+    output:
+      '{"a": [1, "x"], "b": "y"} {\n  "a": [\n    1,\n    "x"\n  ],\n  "b": "y"\n}',
+  },
+  TOJSON_SORTED_AND_ESCAPED: {
+    template: `{{ data|tojson }} {{ "<a href='x'>&</a>"|tojson }}`,
+    context: {
+      data: { b: 1, a: { d: [1, { z: 1, y: 2 }], c: "<" }, 'q"k': 0 },
+    },
+    output:
+      '{"a": {"c": "\\u003c", "d": [1, {"y": 2, "z": 1}]}, "b": 1, "q\\"k": 0} "\\u003ca href=\\u0027x\\u0027\\u003e\\u0026\\u003c/a\\u003e"',
+  },
+  TRIM: {
+    template: `[{{ '  x  '|trim }}] [{{ '--x--'|trim('-') }}] [{{ 'xyhixy'|trim('xy') }}]`,
+    output: "[x] [x] [hi]",
+  },
+  TRUNCATE: {
+    template: `{{ text|truncate(20) }}|{{ text|truncate(20, true) }}|{{ text|truncate(20, end='!') }}|{{ text|truncate(30) }}|{{ text|truncate(25, leeway=0) }}`,
+    context: { text: "The quick brown fox jumps over" },
+    output:
+      "The quick brown...|The quick brown f...|The quick brown!|The quick brown fox jumps over|The quick brown fox...",
+  },
+  UNIQUE: {
+    template: `{{ [1, 2, 1, 3, 2]|unique|join }} {{ ['a', 'A', 'b']|unique|join }} {{ ['a', 'A', 'b']|unique(true)|join }} {{ users|unique(attribute='age')|map(attribute='name')|join }}`,
+    context: {
+      users: [
+        { name: "a", age: 1 },
+        { name: "b", age: 1 },
+        { name: "c", age: 2 },
+      ],
+    },
+    output: "123 ab aAb ac",
+  },
+  URLENCODE: {
+    template: `{{ 'a b/c&d?é'|urlencode }} {{ {'a': 'x y', 'b': '&'}|urlencode }} {{ [['k', 'v 1'], ['q', 2]]|urlencode }}`,
+    output: "a%20b/c%26d%3F%C3%A9 a=x+y&b=%26 k=v+1&q=2",
+  },
+  URLIZE: {
+    template: `{{ 'Visit https://example.com/a?b=1&c=2, or www.test.org. Mail me@example.com!'|urlize }}`,
+    output:
+      'Visit <a href="https://example.com/a?b=1&amp;c=2" rel="noopener">https://example.com/a?b=1&amp;c=2</a>, or <a href="https://www.test.org" rel="noopener">www.test.org</a>. Mail me@example.com!',
+  },
+  URLIZE_OPTIONS: {
+    template: `{{ 'See http://example.com/a-very-long-path now'|urlize(15, true, target='_blank') }}`,
+    output:
+      'See <a href="http://example.com/a-very-long-path" rel="nofollow noopener" target="_blank">http://example....</a> now',
+  },
+  URLIZE_EXTRA_SCHEMES: {
+    template: `{{ 'see ftp://x.org and tel:123'|urlize(extra_schemes=['ftp://', 'tel:']) }}`,
+    output:
+      'see <a href="ftp://x.org" rel="noopener">ftp://x.org</a> and <a href="tel:123" rel="noopener">tel:123</a>',
+  },
+  WORDCOUNT: {
+    template: `{{ 'Hello, world! It is 2024_x.'|wordcount }}`,
+    output: "5",
+  },
+  WORDWRAP: {
+    template: `{{ text|wordwrap(10) }}|{{ text|wordwrap(10, wrapstring='<br>') }}|{{ 'abcdefghijklmno'|wordwrap(5) }}|{{ 'abcdefghijklmno pq'|wordwrap(5, false) }}`,
+    context: { text: "The quick brown fox jumps over the lazy dog" },
+    output:
+      "The quick\nbrown fox\njumps over\nthe lazy\ndog|The quick<br>brown fox<br>jumps over<br>the lazy<br>dog|abcde\nfghij\nklmno|abcdefghijklmno\npq",
+  },
+  WORDWRAP_PARAGRAPHS: {
+    template: `{{ text|wordwrap(12) }}`,
+    context: {
+      text: "first paragraph is here\nsecond-one is hyphenated-words",
+    },
+    output: "first\nparagraph is\nhere\nsecond-one\nis\nhyphenated-\nwords",
+  },
+  XMLATTR: {
+    template: `<ul{{ {'class': 'my list', 'missing': none, 'id': 'x<y'}|xmlattr }}><li{{ {'a': 1}|xmlattr(false) }}>`,
+    output: '<ul class="my list" id="x&lt;y"><lia="1">',
+  },
+  STRING_FILTERS: {
+    template: `{{ 'abc'|length }} {{ 'abc'|safe }} {{ 'a'|e|replace('a', '<') }}`,
+    output: "3 abc <",
+  },
+}
+
+// Recorded like the corpus above, with `autoescape=True`
+const AUTOESCAPE_CORPUS: Record<string, ParityCase> = {
+  SAFE_STRING_METHODS: {
+    template: `{{ '<a>'|safe|capitalize }} {{ '<a>'|safe|center(5) }} {{ '<b>x</b>'|safe|truncate(3, true, '') }} {{ '<p>'|safe|reverse }}`,
+    output: "<a>  <a>  <b>x</b> >p<",
+  },
+  FORMAT: {
+    template: `{{ '<%s>'|safe|format('&') }} {{ '%s'|format('<i>') }}`,
+    output: "<&amp;> &lt;i&gt;",
+  },
+  URLIZE: {
+    template: `{{ 'a&b http://x.org/?a=1&b=2'|urlize }}`,
+    output:
+      'a&amp;b <a href="http://x.org/?a=1&amp;b=2" rel="noopener">http://x.org/?a=1&amp;b=2</a>',
+  },
+  XMLATTR: {
+    template: `<p{{ {'title': '<"hi">'}|xmlattr }}>`,
+    output: '<p title="&lt;&#34;hi&#34;&gt;">',
+  },
+  INDENT: {
+    template: `{{ text|indent(2)|safe }} {{ text|safe|indent('<>') }}`,
+    context: { text: "a\n<b>" },
+    output: "a\n  <b> a\n<><b>",
+  },
+  JOIN: {
+    template: `{{ ['<a>', '<b>'|safe]|join(', ') }} {{ ['<a>', 'b']|join('<br>'|safe) }} {{ ['<a>', 'b']|join('<br>') }}`,
+    output: "&lt;a&gt;, <b> &lt;a&gt;<br>b &lt;a&gt;&lt;br&gt;b",
+  },
+  TRIM_UPPER: {
+    template: `{{ '<a>'|safe|trim('<') }} {{ '<a>'|safe|upper }}`,
+    output: "a> <A>",
+  },
+  TOJSON: {
+    template: `{{ {'a': '<b>'}|tojson }}`,
+    output: '{"a": "\\u003cb\\u003e"}',
+  },
+}
+
+const render = (
+  template: string,
+  context?: Record<string, unknown>,
+  autoescape = false,
+) => new Template(template, { autoescape }).render(context)
+
+describe("Filters", () => {
+  describe("should render like Jinja", () => {
+    for (const [name, { template, context, output }] of Object.entries(
+      PARITY_CORPUS,
+    )) {
+      it(name, () => {
+        expect(render(template, context)).toEqual(output)
+      })
+    }
+  })
+
+  describe("should render like Jinja when autoescaping", () => {
+    for (const [name, { template, context, output }] of Object.entries(
+      AUTOESCAPE_CORPUS,
+    )) {
+      it(name, () => {
+        expect(render(template, context, true)).toEqual(output)
+      })
+    }
+  })
+
+  it("should bind arguments like Python", () => {
+    expect(() => render(`{{ "a" | center(1, 2, 3) }}`)).toThrowError(
+      "center() takes at most 1 argument (3 given)",
+    )
+    expect(() => render(`{{ "a" | indent(widht=2) }}`)).toThrowError(
+      "indent() got an unexpected keyword argument 'widht'",
+    )
+    expect(() => render(`{{ "a" | trim("a", chars="b") }}`)).toThrowError(
+      "trim() got multiple values for argument 'chars'",
+    )
+    expect(() => render(`{{ "a" | batch }}`)).toThrowError(
+      "batch() missing required argument 'linecount'",
+    )
+    expect(() => render(`{{ "a" | nope }}`)).toThrowError(
+      "Unknown filter: nope",
+    )
+  })
+
+  it("should reject invalid arguments like Jinja", () => {
+    expect(() => render(`{{ "abc" | truncate(2) }}`)).toThrowError(
+      "expected length >= 3, got 2",
+    )
+    expect(() => render(`{{ {"a": 1} | dictsort(by="x") }}`)).toThrowError(
+      'You can only sort by either "key" or "value"',
+    )
+    expect(() => render(`{{ 1.5 | round(method="up") }}`)).toThrowError(
+      "method must be common, ceil or floor",
+    )
+    expect(() => render(`{{ "%s %s" | format("a", b="c") }}`)).toThrowError(
+      "can't handle positional and keyword arguments at the same time",
+    )
+    expect(() =>
+      render(`{{ "x" | urlize(extra_schemes=["x"]) }}`),
+    ).toThrowError("'x' is not a valid URI scheme prefix.")
+    expect(() => render(`{{ {"a b": 1} | xmlattr }}`)).toThrowError(
+      "Invalid character in attribute name: 'a b'",
+    )
+    expect(() => render(`{{ [1] | map | list }}`)).toThrowError(
+      "map requires a filter argument",
+    )
+    expect(() => render(`{{ [1] | selectattr | list }}`)).toThrowError(
+      "Missing parameter for attribute name",
+    )
+    expect(() => render(`{{ [1, "a"] | sort }}`)).toThrowError(
+      "'<' not supported between instances of 'str' and 'int'",
+    )
+    expect(() => render(`{{ 1 | list }}`)).toThrowError(
+      "'int' object is not iterable",
+    )
+  })
+
+  it("should check attributes looked up by attr in the sandbox", () => {
+    const template = new Template(`{{ "a" | attr("upper") }}`, {
+      sandbox: { isSafeAttribute: (name) => name !== "upper" },
+    })
+    expect(() => template.render()).toThrowError(SecurityError)
+  })
+})
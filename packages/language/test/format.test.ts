@@ -1,5 +1,9 @@
 import { describe, expect, it } from "vitest"
-import { Template } from "../src/index"
+import { Node, TokenNode } from "../src/ast"
+import { format, formatEdits } from "../src/format"
+import { parseDocument, Template } from "../src/index"
+import { tokenize } from "../src/lexer"
+import { parse } from "../src/parser"
 
 /**
  * Tests for formatting templates.
@@ -41,9 +45,24 @@ const FORMATTING_TESTS = Object.freeze({
   },
   CHAINED_TERNARY: {
     template: `{{('a' if (true if 1==2 else false) else 'b') if 3==4 else ('c' if 4==5 else 'd')}}`,
-    formatted: `{{- "a" if (true if 1 == 2 else false) else "b" if 3 == 4 else "c" if 4 == 5 else "d" -}}`,
+    formatted: `{{- ("a" if (true if 1 == 2 else false) else "b") if 3 == 4 else "c" if 4 == 5 else "d" -}}`,
     rendered: `d`,
   },
+  ARGUMENTS: {
+    template: `{{ [0, 1 or 2, 3 if false else 4] | join(1 and ",") }}`,
+    formatted: `{{- [0, 1 or 2, 3 if false else 4] | join(1 and ",") -}}`,
+    rendered: `0,1,4`,
+  },
+  PARENTHESES: {
+    template: `{{ [(not 1) == false, (1 is odd)|string, (not 0)|string, (1 + 2) is odd, 1 == (not 0), not 2 is odd]|join(",") }}`,
+    formatted: `{{- [(not 1) == false, (1 is odd) | string, (not 0) | string, (1 + 2) is odd, 1 == (not 0), not 2 is odd] | join(",") -}}`,
+    rendered: `true,true,true,true,true,true`,
+  },
+  ENDBLOCK_NAMES: {
+    template: `{%block  title%}x{%endblock  title%}{%block body%}{%endblock%}`,
+    formatted: `{%- block title -%}\n    {{- "x" -}}\n{%- endblock title -%}\n{%- block body -%}\n{%- endblock -%}`,
+    rendered: `x`,
+  },
 })
 
 describe("format", () => {
@@ -65,3 +84,284 @@ describe("format", () => {
     })
   }
 })
+
+/**
+ * Templates using every statement, formatted and parsed again.
+ */
+const ROUND_TRIP_TESTS = Object.freeze({
+  IF: `{% if a %}1{% elif b is divisibleby(3) %}2{% else %}3{% endif %}`,
+  FOR: `{% for k, v in items if v is not none recursive %}{{ loop(v) }}{% break %}{% continue %}{% else %}empty{% endfor %}`,
+  SET: `{% set a, b = 1, 2 %}{% set ns.x = a %}{% set block %}text{% endset %}`,
+  MACRO: `{% macro row(x, y=2, *args) %}{{ x }}{{ caller(y) }}{% endmacro %}`,
+  CALL: `{% call(v) row(1, y=3) %}{{ v }}{% endcall %}`,
+  FILTER: `{% filter replace("a", "b") %}a{% endfilter %}{% filter upper %}b{% endfilter %}`,
+  AUTOESCAPE: `{% autoescape false %}{{ "<b>" }}{% endautoescape %}`,
+  TRANS: `{% trans count=n, trimmed %}{{ count }} item{% pluralize %}{{ count }} items{% endtrans %}`,
+  COMMENT: `{# a comment #}{{ x }}`,
+  BLOCK: `{% block title %}Title{% endblock title %}{% block body scoped required %}{% endblock %}`,
+  INCLUDE: `{% include "a.html" %}{% include ["a.html", b] ignore missing without context %}{% include "c.html" with context %}`,
+  IMPORT: `{% import "forms.html" as forms %}{% import "forms.html" as f with context %}`,
+  FROM_IMPORT: `{% from "forms.html" import input as field, textarea %}{% from "forms.html" import input without context %}`,
+  EXTENDS: `{% extends "base.html" %}{% block body %}{{ super() }}{% endblock %}`,
+  RAW: `{% raw %}{{ not parsed }} {% if %}\n  kept{% endraw %}`,
+  WITH: `{% with a = 1, b = a + 1 %}{{ a + b }}{% endwith %}{% with %}{% endwith %}`,
+  DO: `{% do items.append(1) %}`,
+  PARENTHESES: `{{ (not a) == b }}{{ (x is defined) | string }}{{ (not a) | string }}{{ a == (not b) }}{{ (x | f)() }}{{ (a ~ b) is string }}`,
+  EXPRESSIONS: `{{ a[1:2:-1] }}{{ f(*args, k=v) }}{{ {"a": [1, 2], "b": (3, 4)} }}{{ not x ** 2 }}{{ x | default("y") is string }}`,
+})
+
+/**
+ * The structure of a node, without its tokens and delimiters which formatting changes.
+ */
+function getStructure(node: unknown): unknown {
+  if (Array.isArray(node)) {
+    return node.map(getStructure)
+  }
+  if (node instanceof Map) {
+    return Array.from(node, ([key, value]) => [
+      getStructure(key),
+      getStructure(value),
+    ])
+  }
+  if (node instanceof TokenNode) {
+    return node.value
+  }
+  if (node instanceof Node) {
+    const structure: Record<string, unknown> = { type: node.type }
+    for (const [key, value] of Object.entries(node)) {
+      if (
+        !/^(parent|children|parentIndex|definesScope|identifier|tokens?)$/.test(
+          key,
+        ) &&
+        !/Token$|^closer/.test(key)
+      ) {
+        structure[key] = getStructure(value)
+      }
+    }
+    return structure
+  }
+  if (typeof node === "object" && node !== null) {
+    return Object.fromEntries(
+      Object.entries(node).map(([key, value]) => [key, getStructure(value)]),
+    )
+  }
+  return node
+}
+
+describe("format round trip", () => {
+  const sources = {
+    ...ROUND_TRIP_TESTS,
+    ...Object.fromEntries(
+      Object.entries(FORMATTING_TESTS).map(([name, test]) => [
+        name,
+        test.template,
+      ]),
+    ),
+  }
+  for (const [name, source] of Object.entries(sources)) {
+    it(`should parse the formatted ${name} like the original`, () => {
+      const program = parse(tokenize(source))
+      const formatted = format(program)
+      expect(getStructure(parse(tokenize(formatted)))).toEqual(
+        getStructure(program),
+      )
+      expect(format(parse(tokenize(formatted)))).toEqual(formatted)
+    })
+  }
+})
+
+/**
+ * Templates whose text layout and whitespace control are kept when formatting.
+ */
+const TEXT_PRESERVING_TESTS = Object.freeze({
+  HTML: {
+    template: `<ul>
+{% for  item in items if item!=2%}
+        {%if item>1 -%}
+  <li class="big">{{item|string|upper}}</li>
+    {%- elif item==1 %}
+  <li>one {#  kept  #}</li>
+{%+ else %}
+      {%   set label='zero' %}<li>{{label ~'!'}}</li>
+{% endif %}
+{%endfor%}
+</ul>`,
+    formatted: `<ul>
+{% for item in items if item != 2 %}
+  {% if item > 1 -%}
+  <li class="big">{{ item | string | upper }}</li>
+  {%- elif item == 1 %}
+  <li>one {#  kept  #}</li>
+{%+ else %}
+    {% set label = "zero" %}<li>{{ label ~ "!" }}</li>
+  {% endif %}
+{% endfor %}
+</ul>`,
+    context: { items: [0, 1, 2, 3] },
+  },
+  YAML: {
+    template: `config:
+  {%- for key,value in items|dictsort %}
+  {{key}}: {{ value|tojson }}
+  {%- endfor %}
+{% macro entry( name ,value =1) %}{{name}}={{value}}{% endmacro %}
+extra: {{entry( "a" )}}`,
+    formatted: `config:
+{%- for (key, value) in items | dictsort %}
+  {{ key }}: {{ value | tojson }}
+{%- endfor %}
+{% macro entry(name, value=1) %}{{ name }}={{ value }}{% endmacro %}
+extra: {{ entry("a") }}`,
+    context: { items: { b: 2, a: [1] } },
+  },
+})
+
+describe("format preserving text", () => {
+  for (const [name, test] of Object.entries(TEXT_PRESERVING_TESTS)) {
+    it(`should only format inside the tags of ${name}`, () => {
+      const template = new Template(test.template)
+      const result = template.format({ indent: 2, preserveText: true })
+      expect(result).toEqual(test.formatted)
+
+      expect(new Template(result).render(test.context)).toEqual(
+        template.render(test.context),
+      )
+      expect(
+        new Template(result).format({ indent: 2, preserveText: true }),
+      ).toEqual(result)
+    })
+  }
+
+  it("should keep the indentation which is rendered", () => {
+    const source = `<p>\n    {% if true %}\n        {% if true %}x{% endif %}\n    {% endif %}\n</p>`
+    const options = { lstrip_blocks: false, trim_blocks: false }
+    const template = new Template(source, options)
+    const result = template.format({ preserveText: true })
+    expect(result).toEqual(source)
+    expect(new Template(result, options).render()).toEqual(template.render())
+  })
+
+  it("should only edit the tags which change", () => {
+    const { program } = parseDocument(
+      `<p>\n    {%- if  x %}{{ y }}{%endif%}</p>`,
+    )
+    expect(formatEdits(program, 2)).toEqual([
+      { start: 4, end: 8, text: "" },
+      { start: 8, end: 20, text: "{%- if x %}" },
+      { start: 27, end: 36, text: "{% endif %}" },
+    ])
+  })
+
+  it("should keep the names of endblock tags", () => {
+    const { program } = parseDocument(
+      `{%block  title%}x{%endblock  title%}{%block body%}{%endblock%}`,
+    )
+    expect(format(program, "\t", { preserveText: true })).toEqual(
+      `{% block title %}x{% endblock title %}{% block body %}{% endblock %}`,
+    )
+  })
+
+  it("should keep custom delimiters and the body of raw and trans blocks", () => {
+    const source = `<%if  x%>[[x]]<%endif%><%raw%>  [[ y ]]<%endraw%><%trans%>[[ z ]]  <%endtrans%>`
+    const program = parse(
+      tokenize(source, {
+        block_start_string: "<%",
+        block_end_string: "%>",
+        variable_start_string: "[[",
+        variable_end_string: "]]",
+      }),
+    )
+    program.source = source
+    expect(format(program, "\t", { preserveText: true })).toEqual(
+      `<% if x %>[[ x ]]<% endif %><% raw %>  [[ y ]]<% endraw %><% trans %>[[ z ]]  <% endtrans %>`,
+    )
+  })
+})
+
+describe("format style", () => {
+  const source = `{% macro field(name, value="", type="text", required=false) %}{{ name ~ 'x' ~ "it's" }}{% endmacro %}{{ items|selectattr("active")|map(attribute="name")|sort|join(", ") }}{% set config = {"alpha": 1, "beta": [1, 2, 3], "gamma": "long"} %}{{ field("username", value=user.name) }}`
+
+  it("should follow the style options", () => {
+    expect(
+      new Template(source).format({
+        indent: 2,
+        quoteStyle: "single",
+        delimiterSpacing: false,
+        printWidth: 40,
+        trailingComma: true,
+        tildeSpacing: false,
+      }),
+    ).toEqual(`{%-macro field(
+  name,
+  value='',
+  type='text',
+  required=false,
+)-%}
+  {{-name~'x'~'it\\'s'-}}
+{%-endmacro-%}
+{{-items
+  | selectattr('active')
+  | map(attribute='name')
+  | sort
+  | join(', ')-}}
+{%-set config = {
+  'alpha': 1,
+  'beta': [1, 2, 3],
+  'gamma': 'long',
+}-%}
+{{-field('username', value=user.name)-}}`)
+  })
+
+  it("should wrap tags when preserving text", () => {
+    const template = new Template(
+      `<p>\n  {{ items|map(attribute="name")|join(", ") }}</p>`,
+    )
+    expect(
+      template.format({ indent: 2, preserveText: true, printWidth: 30 }),
+    ).toEqual(
+      `<p>\n  {{ items\n    | map(attribute="name")\n    | join(", ") }}</p>`,
+    )
+  })
+
+  it("should wrap tags after a wrapped tag on the same line", () => {
+    const options = { preserveText: true, printWidth: 20 }
+    const formatted = new Template(
+      `{{ items | map('upper') | join(', ') }}|{{ items | map('lower') | join('-') }}`,
+    ).format(options)
+    expect(formatted).toEqual(
+      `{{ items\n\t| map("upper")\n\t| join(", ") }}|{{ items\n\t\t| map("lower")\n\t\t| join("-") }}`,
+    )
+    expect(new Template(formatted).format(options)).toEqual(formatted)
+  })
+
+  it("should keep a space between delimiters and signs", () => {
+    const template = new Template(`|{{ -5 }}|{{ -5 ~ "a" }}|`)
+    for (const preserveText of [false, true]) {
+      const formatted = template.format({
+        delimiterSpacing: false,
+        preserveText,
+      })
+      expect(formatted).toContain(preserveText ? "{{ -5}}" : "{{- -5-}}")
+      expect(new Template(formatted).render({ x: 1 })).toEqual(
+        template.render({ x: 1 }),
+      )
+    }
+  })
+
+  it("should parse templates formatted with any style like the original", () => {
+    const style = {
+      quoteStyle: "single",
+      delimiterSpacing: false,
+      printWidth: 20,
+      trailingComma: true,
+      tildeSpacing: false,
+    } as const
+    for (const template of [...Object.values(ROUND_TRIP_TESTS), source]) {
+      const program = parse(tokenize(template))
+      const formatted = format(program, "\t", style)
+      expect(getStructure(parse(tokenize(formatted))), formatted).toEqual(
+        getStructure(program),
+      )
+    }
+  })
+})
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest"
+
+import { ast, parse, Template, tokenize, Translations } from "../src/index"
+
+const GERMAN: Translations = {
+  gettext: (message) =>
+    ({ "Hello %(user)s!": "Hallo %(user)s!", Hello: "Hallo" })[message] ??
+    message,
+  ngettext: (singular, plural, n) =>
+    singular === "%(count)s apple"
+      ? n === 1
+        ? "%(count)s Apfel"
+        : "%(count)s Äpfel"
+      : n === 1
+        ? singular
+        : plural,
+  pgettext: (context, message) => `${context}:${message}`,
+}
+
+const render = (
+  template: string,
+  items?: Record<string, unknown>,
+  translations?: Translations,
+  autoescape = false,
+) => new Template(template, { translations, autoescape }).render(items)
+
+describe("i18n", () => {
+  it("should parse trans blocks with bindings and a plural form", () => {
+    const [program, , errors] = parse(
+      tokenize(
+        `{% trans "menu" user, count=items | length, trimmed %}{{ user }} has one{% pluralize count %}{{ user }} has {{ count }}{% endtrans %}`,
+        {},
+      ),
+      true,
+    )
+    expect(errors).toEqual([])
+    const trans = program.body[0] as ast.Trans
+    expect(trans).toBeInstanceOf(ast.Trans)
+    expect(trans.context?.value).toEqual("menu")
+    expect(trans.bindings.map(({ name }) => name.value)).toEqual([
+      "user",
+      "count",
+    ])
+    expect(trans.bindings[0].value).toBeUndefined()
+    expect(trans.bindings[1].value).toBeInstanceOf(ast.FilterExpression)
+    expect(trans.trimmed?.value).toEqual("trimmed")
+    expect(trans.body).toHaveLength(2)
+    expect(trans.pluralize?.count?.value).toEqual("count")
+    expect(trans.pluralize?.body).toHaveLength(3)
+    expect(trans.closerIdentifier?.value).toEqual("endtrans")
+  })
+
+  it("should render trans blocks untranslated by default", () => {
+    expect(
+      render(`{% trans %}Hello {{ user }}! 100%{% endtrans %}`, {
+        user: "Bob",
+      }),
+    ).toEqual("Hello Bob! 100%")
+    expect(
+      render(
+        `{% trans count=items | length %}One item{% pluralize %}{{ count }} items{% endtrans %}`,
+        { items: [1, 2] },
+      ),
+    ).toEqual("2 items")
+    expect(
+      render(`{% trans trimmed %}
+  Hello
+    world
+{% endtrans %}`),
+    ).toEqual("Hello world")
+  })
+
+  it("should translate trans blocks with the given translations", () => {
+    expect(
+      render(
+        `{% trans %}Hello {{ user }}!{% endtrans %}`,
+        { user: "Bob" },
+        GERMAN,
+      ),
+    ).toEqual("Hallo Bob!")
+    expect(
+      render(
+        `{% for count in [1, 2] %}{% trans %}{{ count }} apple{% pluralize %}{{ count }} apples{% endtrans %},{% endfor %}`,
+        {},
+        GERMAN,
+      ),
+    ).toEqual("1 Apfel,2 Äpfel,")
+    expect(
+      render(`{% trans "greeting" %}Hi{% endtrans %}`, {}, GERMAN),
+    ).toEqual("greeting:Hi")
+  })
+
+  it("should escape the variables of trans blocks when autoescaping", () => {
+    expect(
+      render(
+        `{% trans user %}<b>{{ user }}</b>{% endtrans %}`,
+        { user: "<i>" },
+        undefined,
+        true,
+      ),
+    ).toEqual("<b>&lt;i&gt;</b>")
+  })
+
+  it("should only allow text and variables in trans blocks", () => {
+    expect(() =>
+      render(`{% trans %}{% if x %}x{% endif %}{% endtrans %}`),
+    ).toThrowError("Only text and variables are allowed in trans blocks")
+  })
+
+  it("should provide the gettext functions", () => {
+    expect(
+      render(
+        `{{ _("Hello") }} {{ gettext("Hello %(user)s!", user="Bob") }} {{ pgettext("a", "b") }}`,
+        {},
+        GERMAN,
+      ),
+    ).toEqual("Hallo Hallo Bob! a:b")
+    expect(
+      render(
+        `{{ ngettext("%(num)s apple", "%(num)s apples", 3) }} {{ npgettext("c", "%(num)d x", "%(num)d xs", 1) }}`,
+      ),
+    ).toEqual("3 apples 1 x")
+  })
+})
@@ -0,0 +1,172 @@
+import { describe, expect, it } from "vitest"
+import { ast, parseDocument, printDocument, reparseDocument } from "../src"
+import type { ParsedDocument, PreprocessOptions, TextEdit } from "../src"
+
+const TEMPLATE = `{# The header #}
+{% macro header(title) -%}
+  <h1>{{ title | upper }}</h1>
+{%- endmacro %}
+{% set items = [1, 2, 3] %}
+<ul>
+{% for item in items %}
+  <li>{{ item }}</li>
+{% endfor %}
+</ul>
+{% raw %}{{ not parsed }}{% endraw %}
+{{ header("done") }}
+`
+
+const summarizeNode = (node: ast.Node): unknown =>
+  node instanceof ast.TokenNode
+    ? `${node.type}:${node.value}@${node.start}-${node.end}`
+    : { type: node.type, children: node.children.map(summarizeNode) }
+
+const summarize = (document: ParsedDocument) => ({
+  tokens: document.tokens.map((token) => summarizeNode(token)),
+  trivia: document.tokens.map((token) => [token.leadingTrivia, token.text]),
+  trailingTrivia: document.trailingTrivia,
+  lexerErrors: document.lexerErrors.map((error) => ({ ...error })),
+  parserErrors: document.parserErrors.map((error) =>
+    error instanceof ast.MissingNode
+      ? `${error.missingType}@${error.offset}`
+      : summarizeNode(error),
+  ),
+  program: summarizeNode(document.program),
+})
+
+const applyEdit = (source: string, edit: TextEdit) =>
+  source.slice(0, edit.start) + edit.text + source.slice(edit.end)
+
+/**
+ * Apply the edits one by one, checking the incremental result against parsing from scratch.
+ */
+const checkEdits = (
+  source: string,
+  edits: TextEdit[],
+  options: PreprocessOptions = {},
+) => {
+  let document = parseDocument(source, options)
+  for (const edit of edits) {
+    source = applyEdit(source, edit)
+    document = reparseDocument(document, source, [edit]).document
+    expect(summarize(document)).toEqual(
+      summarize(parseDocument(source, options)),
+    )
+    expect(printDocument(document)).toEqual(source)
+  }
+}
+
+const typing = (offset: number, text: string): TextEdit[] =>
+  [...text].map((char, i) => ({
+    start: offset + i,
+    end: offset + i,
+    text: char,
+  }))
+
+const deleting = (offset: number, length: number): TextEdit[] =>
+  Array.from({ length }, () => ({ start: offset, end: offset + 1, text: "" }))
+
+describe("Incremental parsing", () => {
+  it("should match a full parse while typing", () => {
+    const offsets = [0, TEMPLATE.indexOf("<ul>"), TEMPLATE.indexOf("{%- end")]
+    for (const offset of offsets) {
+      checkEdits(
+        TEMPLATE,
+        typing(offset, `{% if x %}{{ y }}{# z #}{% endif %}`),
+      )
+      checkEdits(TEMPLATE, typing(offset, `{{ {"a": {"b": 1}} }}`))
+    }
+    checkEdits(TEMPLATE, typing(TEMPLATE.length, `{% for a in b %}`))
+    checkEdits(TEMPLATE, typing(TEMPLATE.indexOf("items %}"), ` | reverse`))
+  })
+
+  it("should match a full parse while deleting", () => {
+    checkEdits(TEMPLATE, deleting(TEMPLATE.indexOf("{% for"), 12))
+    checkEdits(TEMPLATE, deleting(TEMPLATE.indexOf("{% endraw"), 5))
+    checkEdits(TEMPLATE, deleting(0, TEMPLATE.length))
+  })
+
+  it("should match a full parse with whitespace control and line statements", () => {
+    checkEdits(
+      TEMPLATE,
+      typing(TEMPLATE.indexOf("{% endfor"), `  {%- set a = 1 -%}\n`),
+      {
+        trim_blocks: true,
+        lstrip_blocks: true,
+      },
+    )
+    const source = `# for item in items:\n  {{ item }} ## note\n# endfor\n`
+    checkEdits(source, typing(source.indexOf("  {{"), `# if item\n`), {
+      line_statement_prefix: "#",
+      line_comment_prefix: "##",
+    })
+  })
+
+  it("should match a full parse around text removed by whitespace control", () => {
+    const source = `{% if x -%}\n  {{ abc }}\n  {% endif %}`
+    checkEdits(source, [{ start: 15, end: 17, text: "" }])
+    checkEdits(source, deleting(source.indexOf("{% endif"), 2), {
+      trim_blocks: true,
+      lstrip_blocks: true,
+    })
+    const comment = `{{ a -}}  \n {# b #}`
+    checkEdits(comment, deleting(comment.indexOf("\n") - 1, 2))
+    const lineComment = `{{ a }} ## note\n{{ b }}`
+    checkEdits(lineComment, deleting(lineComment.indexOf("##"), 2), {
+      line_comment_prefix: "##",
+    })
+  })
+
+  it("should match a full parse after line statements ended by a line comment", () => {
+    const source = `# if x ## note\n  a\n# endif ## end\n`
+    const options = { line_statement_prefix: "#", line_comment_prefix: "##" }
+    checkEdits(source, deleting(source.indexOf("## note") + 1, 3), options)
+    checkEdits(source, typing(source.indexOf("## end") + 1, " #"), options)
+  })
+
+  it("should merge consecutive edits", () => {
+    const edits: TextEdit[] = [
+      { start: 20, end: 25, text: "{{ a }}" },
+      { start: 5, end: 5, text: "{% set b = 2 %}" },
+      { start: 100, end: 130, text: "" },
+    ]
+    const source = edits.reduce(applyEdit, TEMPLATE)
+    const { document } = reparseDocument(parseDocument(TEMPLATE), source, edits)
+    expect(summarize(document)).toEqual(summarize(parseDocument(source)))
+  })
+
+  it("should reuse unchanged top-level statements", () => {
+    const previous = parseDocument(TEMPLATE)
+    const body = [...previous.program.body]
+    const offset = TEMPLATE.indexOf("item }}")
+    const source = applyEdit(TEMPLATE, {
+      start: offset,
+      end: offset + 4,
+      text: "value",
+    })
+    const { document, change } = reparseDocument(previous, source, [
+      { start: offset, end: offset + 4, text: "value" },
+    ])
+
+    const forIndex = body.findIndex((statement) => statement instanceof ast.For)
+    expect(change.index).toBe(forIndex)
+    expect(change.removed).toEqual([body[forIndex]])
+    expect(change.added).toHaveLength(1)
+    expect(change.added[0]).toBeInstanceOf(ast.For)
+    for (let i = 0; i < body.length; i++) {
+      if (i !== forIndex) {
+        expect(document.program.body[i]).toBe(body[i])
+      }
+    }
+  })
+
+  it("should reparse everything when the edits don't match the source", () => {
+    const previous = parseDocument(TEMPLATE)
+    const body = previous.program.body
+    const { document, change } = reparseDocument(previous, "{{ x }}", [
+      { start: 0, end: 1, text: "" },
+    ])
+    expect(change.removed).toBe(body)
+    expect(summarize(document)).toEqual(summarize(parseDocument("{{ x }}")))
+  })
+})
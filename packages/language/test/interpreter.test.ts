@@ -142,4 +142,127 @@ describe("Test interpreter options", () => {
       expect(result.value).toEqual(test.target)
     }
   })
+  it("should handle custom delimiters", () => {
+    const options = {
+      block_start_string: "((*",
+      block_end_string: "*))",
+      variable_start_string: "(((",
+      variable_end_string: ")))",
+      comment_start_string: "((=",
+      comment_end_string: "=))",
+    }
+
+    const TESTS = [
+      {
+        template: `((* for item in seq *))(((- item ))) ((= note =))((* endfor -*))`,
+        data: { seq: [1, 2, 3] },
+        target: `1 2 3 `,
+      },
+      {
+        template: `\\section{((( title | upper )))} {{ not jinja }}`,
+        data: { title: "intro" },
+        target: `\\section{INTRO} {{ not jinja }}`,
+      },
+    ]
+
+    for (const test of TESTS) {
+      const env = new Environment()
+      for (const [key, value] of Object.entries(test.data)) {
+        env.set(key, value)
+      }
+
+      const [tokens, errors] = tokenize(test.template, options, true)
+      expect(errors).toEqual([])
+      const parsed = parse(tokens)
+
+      const interpreter = new Interpreter(env)
+      const result = interpreter.run(parsed)
+      expect(result.value).toEqual(test.target)
+    }
+  })
+
+  it("should keep custom delimiters inside raw blocks as text", () => {
+    const tokens = tokenize(`((* raw *))((( x )))((*- endraw *))`, {
+      block_start_string: "((*",
+      block_end_string: "*))",
+      variable_start_string: "(((",
+      variable_end_string: ")))",
+    })
+    expect(tokens[3]).toMatchObject({ type: "Text", value: "((( x )))" })
+    expect(tokens[4]).toMatchObject({ type: "OpenStatement", value: "((*-" })
+  })
+
+  it("should prefer the longest matching delimiter", () => {
+    const tokens = tokenize(`<%= x %><% if y %>z<% endif %>`, {
+      block_start_string: "<%",
+      block_end_string: "%>",
+      variable_start_string: "<%=",
+      variable_end_string: "%>",
+    })
+    expect(tokens.map((token) => token.type)).toEqual([
+      "OpenExpression",
+      "Identifier",
+      "CloseStatement",
+      "OpenStatement",
+      "Identifier",
+      "Identifier",
+      "CloseStatement",
+      "Text",
+      "OpenStatement",
+      "Identifier",
+      "CloseStatement",
+    ])
+  })
+
+  it("should handle line statements and line comments", () => {
+    const options = { line_statement_prefix: "#", line_comment_prefix: "##" }
+
+    const TESTS = [
+      {
+        template: `<ul>\n# for item in seq:\n  <li>{{ item }}</li> ## the item\n# endfor\n</ul>`,
+        data: { seq: [1, 2] },
+        target: `<ul>\n  <li>1</li>\n  <li>2</li>\n</ul>`,
+      },
+      {
+        template: `  # set x = [\n  1, 2\n]\n{{ x | length }}\n## done`,
+        data: {},
+        target: `2\n`,
+      },
+      {
+        template: `# if not flag\n{{ "#" }} heading\n  # endif`,
+        data: { flag: false },
+        target: `# heading\n`,
+      },
+    ]
+
+    for (const test of TESTS) {
+      const env = new Environment()
+      for (const [key, value] of Object.entries(test.data)) {
+        env.set(key, value)
+      }
+
+      const [tokens, errors] = tokenize(test.template, options, true)
+      expect(errors).toEqual([])
+      const parsed = parse(tokens)
+
+      const interpreter = new Interpreter(env)
+      const result = interpreter.run(parsed)
+      expect(result.value).toEqual(test.target)
+    }
+  })
+
+  it("should close a line statement on the last line", () => {
+    const tokens = tokenize(`# raw\n# if x\n# endraw`, {
+      line_statement_prefix: "#",
+    })
+    expect(tokens.map((token) => [token.type, token.value])).toEqual([
+      ["OpenStatement", "#"],
+      ["Identifier", "raw"],
+      ["CloseStatement", ""],
+      ["Text", "# if x\n"],
+      ["OpenStatement", "#"],
+      ["Identifier", "endraw"],
+      ["CloseStatement", ""],
+    ])
+  })
 })
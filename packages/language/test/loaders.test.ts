@@ -0,0 +1,170 @@
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import { describe, expect, it } from "vitest"
+
+import { FileSystemLoader, InMemoryLoader, Template } from "../src/index"
+
+const TEMPLATES = {
+  "header.html": `<h1>{{ title }}</h1>`,
+  "footer.html": `<footer>{{ year | default("no year") }}</footer>`,
+  "macros.html": `{% set _hidden = 1 %}
+{% set separator = ", " %}
+{% macro item(value) %}<li>{{ value }}</li>{% endmacro %}
+{% macro list(values) %}<ul>{% for value in values %}{{ item(value) }}{% endfor %}</ul>{% endmacro %}
+{% macro greet() %}Hello {{ name | default("stranger") }}{% endmacro %}
+{% macro wrap() %}[{{ caller() }}]{% endmacro %}`,
+  "base.html": `<title>{% block title %}Base{% endblock %}</title>
+{% block body %}<p>{% block content %}{% endblock %}</p>{% endblock %}
+{{ self.title() }}`,
+  "child.html": `{% extends "base.html" %}
+{% set greeting = "Hi" %}
+This is never rendered
+{% block title %}Child - {{ super() }}{% endblock %}
+{% block content %}{{ greeting }} {{ name }}{% endblock %}`,
+  "grandchild.html": `{% extends "child.html" %}
+{% block title %}Grandchild - {{ super() }}{% endblock %}`,
+}
+
+const render = (
+  template: string,
+  items?: Record<string, unknown>,
+  templates: Record<string, string> = TEMPLATES,
+) =>
+  new Template(template, { loader: new InMemoryLoader(templates) }).render(
+    items,
+  )
+
+describe("Template loaders", () => {
+  it("should include templates with the current context", () => {
+    expect(render(`{% include "header.html" %}`, { title: "Welcome" })).toEqual(
+      "<h1>Welcome</h1>",
+    )
+    expect(
+      render(
+        `{% for title in ["a", "b"] %}{% include "header.html" %}{% endfor %}`,
+      ),
+    ).toEqual("<h1>a</h1><h1>b</h1>")
+    expect(
+      render(
+        `{% set year = 2024 %}{% include "footer.html" without context %}`,
+      ),
+    ).toEqual("<footer>no year</footer>")
+  })
+
+  it("should include the first existing template from a list", () => {
+    expect(
+      render(`{% include ["missing.html", "footer.html"] %}`, { year: 1 }),
+    ).toEqual("<footer>1</footer>")
+    expect(render(`a{% include "missing.html" ignore missing %}b`)).toEqual(
+      "ab",
+    )
+    expect(() => render(`{% include "missing.html" %}`)).toThrowError(
+      "Template not found: missing.html",
+    )
+  })
+
+  it("should import macros", () => {
+    expect(
+      render(`{% import "macros.html" as m %}{{ m.list([1, 2]) }}`),
+    ).toEqual("<ul><li>1</li><li>2</li></ul>")
+    expect(
+      render(
+        `{% from "macros.html" import item as i, separator %}{{ i("a") ~ separator ~ i("b") }}`,
+      ),
+    ).toEqual("<li>a</li>, <li>b</li>")
+    expect(
+      render(`{% import "macros.html" as m %}{{ m._hidden is defined }}`),
+    ).toEqual("false")
+    expect(
+      render(
+        `{% from "macros.html" import wrap %}{% call wrap() %}x{% endcall %}`,
+      ),
+    ).toEqual("[x]")
+  })
+
+  it("should import macros with and without context", () => {
+    expect(
+      render(`{% from "macros.html" import greet %}{{ greet() }}`, {
+        name: "Bob",
+      }),
+    ).toEqual("Hello stranger")
+    expect(
+      render(
+        `{% from "macros.html" import greet with context %}{{ greet() }}`,
+        {
+          name: "Bob",
+        },
+      ),
+    ).toEqual("Hello Bob")
+  })
+
+  it("should render blocks of extended templates", () => {
+    expect(render(`{% extends "child.html" %}`, { name: "Bob" })).toEqual(
+      "<title>Child - Base</title>\n<p>Hi Bob</p>Child - Base",
+    )
+    expect(render(`{% extends "grandchild.html" %}`, { name: "Bob" })).toEqual(
+      "<title>Grandchild - Child - Base</title>\n<p>Hi Bob</p>Grandchild - Child - Base",
+    )
+    expect(
+      render(
+        `{% extends "base.html" %}{% block body %}[{{ super() }}]{% endblock %}`,
+      ),
+    ).toEqual("<title>Base</title>\n[<p></p>]Base")
+  })
+
+  it("should only give scoped blocks access to the enclosing scope", () => {
+    const templates = {
+      "loop.html": `{% for item in [1, 2] %}{% block a %}{{ item }}{% endblock %}{% block b scoped %}{{ item }}{% endblock %}{% endfor %}`,
+    }
+    expect(render(`{% include "loop.html" %}`, {}, templates)).toEqual("12")
+    expect(
+      render(
+        `{% extends "loop.html" %}{% block a %}({{ item }}){% endblock %}`,
+        {},
+        templates,
+      ),
+    ).toEqual("()1()2")
+  })
+
+  it("should require required blocks to be overridden", () => {
+    const templates = {
+      "base.html": `{% block content required %}{% endblock %}`,
+    }
+    expect(() =>
+      render(`{% extends "base.html" %}`, {}, templates),
+    ).toThrowError("Required block 'content' not found")
+    expect(
+      render(
+        `{% extends "base.html" %}{% block content %}x{% endblock %}`,
+        {},
+        templates,
+      ),
+    ).toEqual("x")
+  })
+
+  it("should load templates from the file system", () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "jinja-ls-"))
+    try {
+      fs.mkdirSync(path.join(directory, "partials"))
+      fs.writeFileSync(
+        path.join(directory, "partials", "name.html"),
+        "{{ name }}\n",
+      )
+      fs.writeFileSync(path.join(directory, "secret.html"), "secret")
+      const loader = new FileSystemLoader([
+        path.join(directory, "missing"),
+        path.join(directory, "partials"),
+      ])
+      expect(
+        new Template(`Hello {% include "name.html" %}!`, { loader }).render({
+          name: "Bob",
+        }),
+      ).toEqual("Hello Bob!")
+      expect(loader.getSource("../secret.html")).toBeUndefined()
+      expect(loader.getSource("missing.html")).toBeUndefined()
+    } finally {
+      fs.rmSync(directory, { recursive: true })
+    }
+  })
+})
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest"
+
+import { ast, parse, Template, tokenize } from "../src/index"
+
+const TREE = [
+  {
+    name: "a",
+    children: [
+      { name: "b", children: [] },
+      { name: "c", children: [{ name: "d", children: [] }] },
+    ],
+  },
+  { name: "e", children: [] },
+]
+
+const render = (
+  template: string,
+  items?: Record<string, unknown>,
+  autoescape = false,
+) => new Template(template, { autoescape }).render(items)
+
+describe("For loops", () => {
+  it("should expose the position of the current item", () => {
+    expect(
+      render(
+        `{% for x in ["a", "b", "c"] %}{{ loop.index0 }}{{ loop.revindex0 }}{{ loop.previtem }}{{ loop.nextitem }},{% endfor %}`,
+      ),
+    ).toEqual("02b,11ac,20b,")
+  })
+
+  it("should cycle between values", () => {
+    expect(
+      render(`{% for x in range(5) %}{{ loop.cycle("a", "b") }}{% endfor %}`),
+    ).toEqual("ababa")
+    expect(() =>
+      render(`{% for x in [1] %}{{ loop.cycle() }}{% endfor %}`),
+    ).toThrowError("No items for cycling given")
+  })
+
+  it("should tell whether a value changed since the last call", () => {
+    expect(
+      render(
+        `{% for x in [1, 1, 2, 2, 1] %}{% if loop.changed(x) %}{{ x }}{% endif %}{% endfor %}`,
+      ),
+    ).toEqual("121")
+    expect(
+      render(
+        `{% for x in [[1, 2], [1, 2], [1, 3]] %}{{ loop.changed(x[0], x[1]) }},{% endfor %}`,
+      ),
+    ).toEqual("true,false,true,")
+  })
+
+  it("should render the else block only if there are no items", () => {
+    expect(render(`{% for x in [] %}x{% else %}empty{% endfor %}`)).toEqual(
+      "empty",
+    )
+    expect(
+      render(`{% for x in [1, 2] if x > 2 %}x{% else %}empty{% endfor %}`),
+    ).toEqual("empty")
+    expect(
+      render(`{% for x in [1, 2] %}{% continue %}{% else %}empty{% endfor %}`),
+    ).toEqual("")
+  })
+
+  it("should parse recursive loops", () => {
+    const [program, , errors] = parse(
+      tokenize(
+        `{% for x in tree if x.name recursive %}{{ loop(x.children) }}{% endfor %}`,
+        {},
+      ),
+      true,
+    )
+    expect(errors).toEqual([])
+    const loop = program.body[0] as ast.For
+    expect(loop.recursive?.value).toEqual("recursive")
+    expect(loop.iterable).toBeInstanceOf(ast.SelectExpression)
+  })
+
+  it("should render recursive loops", () => {
+    expect(
+      render(
+        `{% for x in tree recursive %}[{{ loop.depth }}{{ x.name }}{% if x.children %}({{ loop(x.children) }}){% endif %}]{% endfor %}`,
+        { tree: TREE },
+      ),
+    ).toEqual("[1a([2b][2c([3d])])][1e]")
+    expect(
+      render(
+        `{% for x in tree if x.name != "b" recursive %}{{ loop.depth0 }}{{ x.name }}{{ loop(x.children) }}{% else %}.{% endfor %}`,
+        { tree: TREE },
+      ),
+    ).toEqual("0a1c2d.0e.")
+    expect(
+      render(
+        `{% for x in tree recursive %}<{{ x.name }}>{{ loop(x.children) }}{% endfor %}`,
+        { tree: TREE },
+        true,
+      ),
+    ).toEqual("<a><b><c><d><e>")
+  })
+
+  it("should only allow calling recursive loops", () => {
+    expect(() =>
+      render(`{% for x in [1] %}{{ loop([]) }}{% endfor %}`),
+    ).toThrowError("Cannot call something that is not a function")
+  })
+})
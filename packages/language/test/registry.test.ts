@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  Context,
+  Environment,
+  InMemoryLoader,
+  Interpreter,
+  parse,
+  Template,
+  tokenize,
+} from "../src/index"
+import { SafeStringValue, StringValue } from "../src/runtime"
+
+describe("Custom filters, tests and globals", () => {
+  it("should bind the arguments of filters to their parameters", () => {
+    const template = new Template(
+      `{{ "a"|repeat }} {{ "a"|repeat(3) }} {{ "a"|repeat(sep="-", times=2) }}`,
+    ).addFilter(
+      "repeat",
+      (value: string, times: number, sep: string) =>
+        Array(times).fill(value).join(sep),
+      {
+        parameters: [
+          ["times", 2],
+          ["sep", ""],
+        ],
+      },
+    )
+    expect(template.render()).toEqual("aa aaa a-a")
+
+    const render = (source: string) =>
+      new Template(source)
+        .addFilter("repeat", (value: string) => value, {
+          parameters: ["times"],
+        })
+        .render()
+    expect(() => render(`{{ "a"|repeat }}`)).toThrowError(
+      "repeat() missing required argument 'times'",
+    )
+    expect(() => render(`{{ "a"|repeat(1, 2) }}`)).toThrowError(
+      "repeat() takes at most 1 argument (2 given)",
+    )
+    expect(() => render(`{{ "a"|repeat(1, times=2) }}`)).toThrowError(
+      "repeat() got multiple values for argument 'times'",
+    )
+    expect(() => render(`{{ "a"|repeat(count=2) }}`)).toThrowError(
+      "repeat() got an unexpected keyword argument 'count'",
+    )
+  })
+
+  it("should collect the remaining arguments like Python", () => {
+    const template = new Template(
+      `{{ "x"|collect(1, 2, key="v") }} {{ total(1, 2, 3) }}`,
+    )
+      .addFilter(
+        "collect",
+        (value: string, args: number[], kwargs: Record<string, string>) =>
+          `${value}${args.join("")}${JSON.stringify(kwargs)}`,
+        { parameters: ["*args", "**kwargs"] },
+      )
+      .addGlobal("total", (...args: number[]) => args.reduce((a, b) => a + b))
+    expect(template.render()).toEqual(`x12{"key":"v"} 6`)
+  })
+
+  it("should apply custom tests with arguments", () => {
+    const template = new Template(
+      `{{ 9 is divisibleby 3 }} {{ 10 is divisibleby(3) }} {{ [3, 4, 6]|select("divisibleby", 3)|join(",") }}`,
+    ).addTest(
+      "divisibleby",
+      (value: number, num: number) => value % num === 0,
+      {
+        parameters: ["num"],
+      },
+    )
+    expect(template.render()).toEqual("true false 3,6")
+    expect(new Template(`{{ 3 is equalto(3) }}`).render()).toEqual("true")
+    expect(() => new Template(`{{ 3 is nope }}`).render()).toThrowError(
+      "Unknown test: nope",
+    )
+  })
+
+  it("should add global variables and functions", () => {
+    const template = new Template(
+      `{{ greet(site.name) }} {{ greet("Bob", punctuation="?") }}`,
+    )
+      .addGlobal("site", { name: "Site" })
+      .addGlobal(
+        "greet",
+        (name: string, punctuation: string) => `Hello ${name}${punctuation}`,
+        { parameters: ["name", ["punctuation", "!"]] },
+      )
+    expect(template.render()).toEqual("Hello Site! Hello Bob?")
+  })
+
+  it("should pass the context or the environment", () => {
+    const template = new Template(`{{ "x"|describe }} {{ "y"|registry }}`, {
+      autoescape: true,
+    })
+      .addFilter(
+        "describe",
+        (context: Context, value: string) =>
+          `${value}:${context.resolve("user").value}:${context.autoescape}`,
+        { pass: "context" },
+      )
+      .addFilter(
+        "registry",
+        (environment: Environment, value: string) =>
+          `${value}:${environment.filters.has("registry")}`,
+        { pass: "environment" },
+      )
+    expect(template.render({ user: "Bob" })).toEqual("x:Bob:true y:true")
+  })
+
+  it("should pass runtime values when asked to", () => {
+    const template = new Template(`{{ "<b>"|bold }} {{ "<b>"|safe|bold }}`, {
+      autoescape: true,
+    }).addFilter(
+      "bold",
+      (value: StringValue) =>
+        value instanceof SafeStringValue
+          ? new SafeStringValue(`<b>${value.value}</b>`)
+          : new StringValue(`**${value.value}**`),
+      { runtimeValues: true },
+    )
+    expect(template.render()).toEqual("**&lt;b&gt;** <b><b></b>")
+  })
+
+  it("should prefer custom filters to the built-in ones in every scope", () => {
+    const template = new Template(
+      `{{ "a"|upper }}{% include "b.html" %}{% for x in ["c"] %}{{ x|upper }}{% endfor %}`,
+      { loader: new InMemoryLoader({ "b.html": `{{ "b"|upper }}` }) },
+    ).addFilter("upper", (value: string) => `<${value}>`)
+    expect(template.render()).toEqual("<a><b><c>")
+    expect(new Template(`{{ "a"|upper }}`).render()).toEqual("A")
+  })
+
+  it("should add callables to environments used by the interpreter", () => {
+    const env = new Environment()
+    env.addFilter("double", (value: number) => value * 2)
+    const interpreter = new Interpreter(env)
+    const result = interpreter.run(parse(tokenize(`{{ 21|double }}`)))
+    expect(result.value).toEqual("42")
+  })
+})
@@ -0,0 +1,64 @@
+import { bench, describe } from "vitest"
+
+import { InMemoryLoader, Template } from "../src/index"
+
+const loader = new InMemoryLoader({
+  "base.html": `<title>{% block title %}{% endblock %}</title><main>{% block body %}{% endblock %}</main>`,
+  "card.html": `<div class="card">{{ item.name|title }}: {{ "%.2f"|format(item.price) }}</div>`,
+})
+
+const SCENARIOS: {
+  name: string
+  source: string
+  context: Record<string, unknown>
+}[] = [
+  {
+    name: "chat template",
+    source: `{% for message in messages %}{% if message.role == "system" %}<<SYS>>{{ message.content|trim }}<</SYS>>{% elif loop.index0 % 2 == 0 %}[INST] {{ message.content }} [/INST]{% else %}{{ message.content }}{{ eos_token }}{% endif %}{% endfor %}{% if add_generation_prompt %}[INST]{% endif %}`,
+    context: {
+      messages: Array.from({ length: 20 }, (_, i) => ({
+        role: i === 0 ? "system" : i % 2 ? "user" : "assistant",
+        content: `Message number ${i}`,
+      })),
+      eos_token: "</s>",
+      add_generation_prompt: true,
+    },
+  },
+  {
+    name: "table with macros",
+    source: `{% macro row(cells) %}<tr>{% for cell in cells %}<td>{{ cell|upper }}{% if loop.last %}!{% endif %}</td>{% endfor %}</tr>{% endmacro %}<table>{% for r in rows %}{{ row(r.cells) }}{% if r.cells|length > 2 %}{{ r.cells|join(",") }}{% endif %}{% endfor %}</table>`,
+    context: {
+      rows: Array.from({ length: 100 }, (_, i) => ({
+        cells: [`a${i}`, "b", "c"],
+      })),
+    },
+  },
+  {
+    name: "inheritance and includes",
+    source: `{% extends "base.html" %}{% block title %}Shop{% endblock %}{% block body %}{% for item in items %}{% include "card.html" %}{% endfor %}{% endblock %}`,
+    context: {
+      items: Array.from({ length: 20 }, (_, i) => ({
+        name: `item ${i}`,
+        price: i * 1.5,
+      })),
+    },
+  },
+]
+
+for (const { name, source, context } of SCENARIOS) {
+  describe(name, () => {
+    const compiled = new Template(source, { loader, autoescape: true })
+    const interpreted = new Template(source, {
+      loader,
+      autoescape: true,
+      compile: false,
+    })
+
+    bench("compiled", () => {
+      compiled.render(context)
+    })
+    bench("interpreted", () => {
+      interpreted.render(context)
+    })
+  })
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  InMemoryLoader,
+  Template,
+  TemplateError,
+  TemplateNotFound,
+  TemplateRuntimeError,
+  UndefinedError,
+} from "../src/index"
+
+const loader = new InMemoryLoader({
+  "macros.html": `{% macro show(x) %}\n  {{ x.y.z }}\n{% endmacro %}`,
+  "page.html": `line\n{% from "macros.html" import show %}{{ show(none) }}`,
+  "base.html": `<title>{% block title %}{% endblock %}</title>`,
+})
+
+const renderError = (
+  template: string,
+  items?: Record<string, unknown>,
+  compile = true,
+): TemplateError => {
+  try {
+    new Template(template, { loader, name: "main.html", compile }).render(items)
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      return error
+    }
+    throw error
+  }
+  throw new Error("Rendering did not fail")
+}
+
+describe("Runtime errors", () => {
+  it("should carry the location of the failing node", () => {
+    const error = renderError(`a\n{% for i in [1] %}\n  {{ i() }}{% endfor %}`)
+    expect(error).toBeInstanceOf(TemplateRuntimeError)
+    expect(error.location).toEqual({
+      template: "main.html",
+      line: 3,
+      column: 3,
+      start: 23,
+      end: 32,
+    })
+    expect(error.templateStack).toEqual([])
+  })
+
+  it("should span every token of the failing node", () => {
+    expect(
+      renderError(`{{ x.y.z | upper }}`, { x: {} }).location,
+    ).toMatchObject({ start: 3, end: 8 })
+    expect(renderError(`{{ "a" ~ f(1, 2) }}`).location).toMatchObject({
+      start: 9,
+      end: 16,
+    })
+  })
+
+  it("should raise typed errors", () => {
+    const undefinedError = renderError(`{{ x.y }}`)
+    expect(undefinedError).toBeInstanceOf(UndefinedError)
+    expect(undefinedError.message).toEqual("'x' is undefined")
+
+    const notFound = renderError(`{% include ["a.html", "b.html"] %}`)
+    expect(notFound).toBeInstanceOf(TemplateNotFound)
+    expect((notFound as TemplateNotFound).templates).toEqual([
+      "a.html",
+      "b.html",
+    ])
+    expect(notFound.message).toEqual("Template not found: a.html, b.html")
+  })
+
+  it("should record the macro calls and includes the error passed through", () => {
+    const error = renderError(
+      `{% macro outer() %}{{ missing.x }}{% endmacro %}\n\n{{ outer() }}`,
+    )
+    expect(error.location).toMatchObject({ line: 1, column: 20 })
+    expect(error.templateStack).toMatchObject([
+      { template: "main.html", line: 3, column: 1 },
+    ])
+
+    const included = renderError(`\n{% include "page.html" %}`)
+    expect(included.location).toMatchObject({
+      template: "macros.html",
+      line: 2,
+      column: 3,
+    })
+    expect(included.templateStack).toMatchObject([
+      { template: "page.html", line: 2 },
+      { template: "main.html", line: 2, column: 1 },
+    ])
+  })
+
+  it("should record the same locations when compiled and interpreted", () => {
+    for (const compile of [true, false]) {
+      const error = renderError(
+        `{% extends "base.html" %}\n{% block title %}{{ x.y }}{% endblock %}`,
+        {},
+        compile,
+      )
+      expect(error.location).toMatchObject({
+        template: "main.html",
+        line: 2,
+        column: 18,
+      })
+      expect(error.templateStack).toMatchObject([
+        { template: "base.html", line: 1, column: 8 },
+        { template: "main.html", line: 1, column: 1 },
+      ])
+    }
+  })
+
+  it("should format the locations like a stack trace", () => {
+    expect(renderError(`\n{% include "page.html" %}`).toString()).toEqual(
+      [
+        "UndefinedError: 'NoneType object' has no attribute 'y'",
+        "    at macros.html:2:3",
+        "    at page.html:2:37",
+        "    at main.html:2:1",
+      ].join("\n"),
+    )
+    expect(() => new Template(`{{ x.y }}`).render()).toThrowError(
+      UndefinedError,
+    )
+  })
+})
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest"
+
+import { SandboxOptions, SecurityError, Template } from "../src/index"
+
+const render = (
+  template: string,
+  sandbox: SandboxOptions = {},
+  items?: Record<string, unknown>,
+) => new Template(template, { sandbox }).render(items)
+
+describe("Sandbox", () => {
+  it("should block access to unsafe attributes", () => {
+    const isSafeAttribute = (name: string) => name !== "upper"
+    expect(render(`{{ "a".lower() }}`, { isSafeAttribute })).toEqual("a")
+    expect(() => render(`{{ "a".upper() }}`, { isSafeAttribute })).toThrowError(
+      "access to attribute 'upper' of 'str object' is unsafe.",
+    )
+    expect(() =>
+      render(`{{ "a"["upper"]() }}`, { isSafeAttribute }),
+    ).toThrowError(SecurityError)
+    expect(() =>
+      render(`{{ "a" | attr("upper") }}`, { isSafeAttribute }),
+    ).toThrowError(SecurityError)
+    expect(new Template(`{{ "a".upper() }}`).render()).toEqual("A")
+  })
+
+  it("should only check attributes, not the keys of objects", () => {
+    const items = { user: { name: "Bob", _password: "secret" } }
+    expect(render(`{{ user._password }}`, {}, items)).toEqual("secret")
+    expect(render(`{{ user["_password"] }}`, {}, items)).toEqual("secret")
+    expect(
+      render(`{{ [user] | map(attribute="_password") | join }}`, {}, items),
+    ).toEqual("secret")
+    expect(render(`{{ user.constructor }}`, {}, items)).toEqual("")
+    expect(render(`{{ user | attr("_password") }}`, {}, items)).toEqual("")
+  })
+
+  it("should block unsafe attributes looked up by filters", () => {
+    const items = { users: [{ name: "Bob" }] }
+    const isSafeAttribute = (name: string) => name !== "upper"
+    expect(
+      render(
+        `{{ users | map(attribute="name") | join }}`,
+        { isSafeAttribute },
+        items,
+      ),
+    ).toEqual("Bob")
+    for (const filter of [
+      `sort(attribute="name.upper")`,
+      `groupby("name.upper")`,
+      `map(attribute="name.upper")`,
+      `max(attribute="name.upper")`,
+      `sum(attribute="name.upper")`,
+    ]) {
+      expect(() =>
+        render(`{{ users | ${filter} | list }}`, { isSafeAttribute }, items),
+      ).toThrowError("access to attribute 'upper' of 'str object' is unsafe.")
+    }
+  })
+
+  it("should limit the number of operations", () => {
+    expect(render(`{{ 1 + 2 * 3 }}`, { maxOperations: 2 })).toEqual("7")
+    expect(() =>
+      render(`{{ 1 + 2 * 3 - 4 }}`, { maxOperations: 2 }),
+    ).toThrowError("Too many operations: the limit is 2")
+  })
+
+  it("should limit the number of loop iterations", () => {
+    expect(
+      render(`{% for i in range(3) %}{{ i }}{% endfor %}`, {
+        maxIterations: 3,
+      }),
+    ).toEqual("012")
+    expect(() =>
+      render(
+        `{% for i in range(2) %}{% for j in range(2) %}{% endfor %}{% endfor %}`,
+        { maxIterations: 5 },
+      ),
+    ).toThrowError("Too many loop iterations: the limit is 5")
+    expect(() => render(`{{ range(1000000) | length }}`)).toThrowError(
+      "Range too big",
+    )
+  })
+
+  it("should limit the length of the output", () => {
+    expect(render(`{{ "abc" }}`, { maxOutputLength: 3 })).toEqual("abc")
+    expect(() =>
+      render(`{% for i in range(10) %}abc{% endfor %}`, {
+        maxOutputLength: 20,
+      }),
+    ).toThrowError("Output too long: the limit is 20 characters")
+    expect(() =>
+      render(`{% set x = "ab" ~ "cd" %}`, { maxOutputLength: 3 }),
+    ).toThrowError(SecurityError)
+  })
+
+  it("should stop rendering after the timeout", () => {
+    const slow = () => {
+      const start = Date.now()
+      while (Date.now() - start < 20) {
+        // Busy wait
+      }
+      return 1
+    }
+    expect(() =>
+      render(
+        `{% for i in range(10) %}{{ slow() }}{% endfor %}`,
+        { timeout: 10 },
+        { slow },
+      ),
+    ).toThrowError("Rendering took longer than 10ms")
+  })
+})
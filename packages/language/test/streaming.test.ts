@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest"
+
+import { InMemoryLoader, SecurityError, Template } from "../src/index"
+
+describe("Streaming", () => {
+  it("should produce blocks, includes and macro calls as they're rendered", () => {
+    const template = new Template(
+      `{% extends "base.html" %}{% block body %}{% for x in [1, 2] %}<{{ x }}>{% include "part.html" %}{% endfor %}{% endblock %}`,
+      {
+        loader: new InMemoryLoader({
+          "base.html": `head|{% block body %}{% endblock %}|foot`,
+          "part.html": `{% macro item() %}a{{ "b" }}{% endmacro %}-{{ item() }}`,
+        }),
+      },
+    )
+    expect(Array.from(template.generate())).toEqual([
+      "head|",
+      "<",
+      "1",
+      ">",
+      "-",
+      "ab",
+      "<",
+      "2",
+      ">",
+      "-",
+      "ab",
+      "|foot",
+    ])
+    expect(Array.from(template.generate()).join("")).toEqual(template.render())
+  })
+
+  it("should render lazily", () => {
+    const calls: string[] = []
+    const chunks = new Template(`{{ log("a") }}{{ log("b") }}`).generate({
+      log: (value: string) => {
+        calls.push(value)
+        return value
+      },
+    })
+    expect(chunks.next().value).toEqual("a")
+    expect(calls).toEqual(["a"])
+    expect(chunks.next().value).toEqual("b")
+    expect(calls).toEqual(["a", "b"])
+  })
+
+  it("should wait for promises between chunks", async () => {
+    const chunks = []
+    for await (const chunk of new Template(
+      `{% for x in load() %}{{ x }}{% endfor %}`,
+    ).generateAsync({ load: async () => ["a", "b"] })) {
+      chunks.push(chunk)
+    }
+    expect(chunks).toEqual(["a", "b"])
+  })
+
+  it("should limit the total length of the output in a sandbox", () => {
+    const template = new Template(`{% for x in range(10) %}ab{% endfor %}`, {
+      sandbox: { maxOutputLength: 5 },
+    })
+    const chunks = template.generate()
+    expect(chunks.next().value).toEqual("ab")
+    expect(chunks.next().value).toEqual("ab")
+    expect(() => chunks.next()).toThrowError(SecurityError)
+  })
+})
@@ -4151,7 +4151,7 @@ const EXPECTED_OUTPUTS: Record<string, string> = {
   FILTER_OPERATOR_4: `2`,
   FILTER_OPERATOR_5: `1`,
   FILTER_OPERATOR_6: `|3|2|`,
-  FILTER_OPERATOR_7: `|{"string": "world", "number": 5, "boolean": true, "null": null, "array": [1, 2, 3], "object": {"key": "value"}, "special": "\\"',:[]{}#&*;=?/\\\\\`~@|!^%()-_+<>", "unicode": {"안녕?": "🤗"}}|"test"|1|true|null|[1, 2, 3]|`,
+  FILTER_OPERATOR_7: `|{"array": [1, 2, 3], "boolean": true, "null": null, "number": 5, "object": {"key": "value"}, "special": "\\"\\u0027,:[]{}#\\u0026*;=?/\\\\\`~@|!^%()-_+\\u003c\\u003e", "string": "world", "unicode": {"안녕?": "🤗"}}|"test"|1|true|null|[1, 2, 3]|`,
   FILTER_OPERATOR_8: `{\n  "a": [\n    1,\n    2,\n    3\n  ],\n  "b": 1,\n  "c": {\n    "d": 2,\n    "e": {\n      "f": 3,\n      "g": {\n        "h": 4,\n        "i": [\n          1,\n          2,\n          3\n        ]\n      }\n    }\n  }\n}`,
   FILTER_OPERATOR_9: `[1, 2, 3]`,
   FILTER_OPERATOR_10: `| 1 \n     2 \n     3 \n\n     | 1 \n   2 \n   3 \n\n   |     1 \n     2 \n     3 \n\n     | 1 \n     2 \n     3 \n    \n     |     1 \n     2 \n     3 \n\n     |`,
@@ -4310,6 +4310,19 @@ describe("Templates", () => {
         })
       }
     })
+
+    describe("formatting while preserving text should be stable", () => {
+      for (const [name, text] of Object.entries(TEST_STRINGS)) {
+        it(`formatting ${name} twice`, () => {
+          const options = { preserveText: true, printWidth: 20 }
+          const formatted = new Template(text).format(options)
+          expect(new Template(formatted).format(options)).toEqual(formatted)
+          expect(new Template(formatted).render(TEST_CONTEXT[name])).toEqual(
+            new Template(text).render(TEST_CONTEXT[name]),
+          )
+        })
+      }
+    })
   })
 })
 
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest"
+
+import type { PreprocessOptions } from "../src"
+import { parseDocument, printDocument, printTokens } from "../src"
+
+const SOURCES: [string, PreprocessOptions][] = [
+  [
+    `<p>\n  {%- if  x -%}  \n {{ "a\\"b" ~ 'c' }} {#- c -#}\n  {% endif +%}\n text {% raw %} {{ x }} {% endraw %}  `,
+    {},
+  ],
+  [
+    `  {% for x in y %}\n\t a\n  {% endfor %}\n`,
+    { lstrip_blocks: true, trim_blocks: true },
+  ],
+  [
+    `# for x in y:\n  {{ x }} ## note\n# endfor\nend\n`,
+    { line_statement_prefix: "#", line_comment_prefix: "##" },
+  ],
+  [
+    `<%  set x = [1 ,2]%>[[x | join( "," ) ]]`,
+    {
+      block_start_string: "<%",
+      block_end_string: "%>",
+      variable_start_string: "[[",
+      variable_end_string: "]]",
+    },
+  ],
+  [`{{ x`, {}],
+  [`{% if %}{# unterminated`, {}],
+  [`\n\n`, {}],
+]
+
+describe("Trivia", () => {
+  it("should print documents exactly as written", () => {
+    for (const [source, options] of SOURCES) {
+      expect(printDocument(parseDocument(source, options))).toEqual(source)
+    }
+  })
+
+  it("should keep the whitespace inside tags as trivia", () => {
+    const { tokens } = parseDocument(`a {%  set x = 'y' -%}\n b\n`)
+    expect(
+      tokens.map((token) => [token.leadingTrivia, token.text, token.value]),
+    ).toEqual([
+      ["", "a ", "a "],
+      ["", "{%", "{%"],
+      ["  ", "set", "set"],
+      [" ", "x", "x"],
+      [" ", "=", "="],
+      [" ", "'y'", "y"],
+      [" ", "-%}", "-%}"],
+      ["", "\n b\n", "b"],
+    ])
+    expect(parseDocument(`{{ x }}\n`).trailingTrivia).toEqual("\n")
+  })
+
+  it("should print changed tokens", () => {
+    const document = parseDocument(`{{ user.name  }} {{ user }}`)
+    for (const token of document.tokens) {
+      if (token.value === "user") {
+        token.text = "account"
+      }
+    }
+    expect(printTokens(document.tokens)).toEqual(
+      `{{ account.name  }} {{ account }}`,
+    )
+  })
+})
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest"
+
+import { Template, UndefinedBehavior } from "../src/index"
+
+const render = (
+  template: string,
+  undefinedBehavior: UndefinedBehavior,
+  items?: Record<string, unknown>,
+) => new Template(template).render(items, { undefinedBehavior })
+
+describe("Undefined behavior", () => {
+  it("should print undefined values as empty strings by default", () => {
+    expect(new Template(`[{{ x }}]`).render()).toEqual("[]")
+    expect(render(`[{{ x ~ "a" }}{{ x | upper }}]`, "default")).toEqual("[a]")
+    expect(
+      render(`{% for a in x %}a{% else %}empty{% endfor %}`, "default"),
+    ).toEqual("empty")
+    expect(render(`{{ d.missing }}`, "default", { d: {} })).toEqual("")
+    expect(() => render(`{{ x.y }}`, "default")).toThrowError(
+      "'x' is undefined",
+    )
+  })
+
+  it("should fail on every operation of strict undefined values", () => {
+    for (const template of [
+      `{{ x }}`,
+      `{{ x ~ "a" }}`,
+      `{{ x | upper }}`,
+      `{% for a in x %}{% endfor %}`,
+      `{% if x %}{% endif %}`,
+      `{% if not x %}{% endif %}`,
+      `{{ x | length }}`,
+      `{{ x | list }}`,
+      `{{ x == 1 }}`,
+      `{{ x.y }}`,
+      `{{ x() }}`,
+    ]) {
+      expect(() => render(template, "strict")).toThrowError("'x' is undefined")
+    }
+    expect(() => render(`{{ d.y }}`, "strict", { d: {} })).toThrowError(
+      "'dict object' has no attribute 'y'",
+    )
+    expect(
+      render(`{{ x is defined }} {{ x | default("fallback") }}`, "strict"),
+    ).toEqual("false fallback")
+  })
+
+  it("should allow accessing attributes of chainable undefined values", () => {
+    expect(render(`[{{ x.y.z }}{{ x["y"].z | upper }}]`, "chainable")).toEqual(
+      "[]",
+    )
+    expect(render(`{{ x.y is defined }}`, "chainable")).toEqual("false")
+    expect(() => render(`{{ x() }}`, "chainable")).toThrowError(
+      "'x' is undefined",
+    )
+  })
+
+  it("should print debug undefined values", () => {
+    expect(render(`{{ user }}`, "debug")).toEqual("{{ user }}")
+    expect(render(`{{ user.name }}`, "debug", { user: {} })).toEqual(
+      "{{ no such element: dict object['name'] }}",
+    )
+    expect(
+      render(`{% for x in [1] %}{{ loop.previtem }}{% endfor %}`, "debug"),
+    ).toEqual("{{ undefined value printed: there is no previous item }}")
+    expect(() => render(`{{ user.name }}`, "debug")).toThrowError(
+      "'user' is undefined",
+    )
+  })
+
+  it("should pass undefined values to filters", () => {
+    for (const undefinedBehavior of ["default", "debug"] as const) {
+      expect(
+        render(
+          `{{ x | length }} {{ x | list | length }} {{ x | first is defined }}`,
+          undefinedBehavior,
+        ),
+      ).toEqual("0 0 false")
+      expect(() => render(`{{ x | int }}`, undefinedBehavior)).toThrowError(
+        "'x' is undefined",
+      )
+    }
+    expect(render(`{{ x | upper }}`, "debug")).toEqual("{{ X }}")
+    expect(render(`{{ x | attr("y") is defined }}`, "chainable")).toEqual(
+      "false",
+    )
+  })
+
+  it("should use the undefined behavior of the template by default", () => {
+    const template = new Template(`{{ x }}`, { undefinedBehavior: "debug" })
+    expect(template.render()).toEqual("{{ x }}")
+    expect(template.render({}, { undefinedBehavior: "default" })).toEqual("")
+  })
+})
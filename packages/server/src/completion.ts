@@ -1,18 +1,22 @@
-import { ast } from "@jinja-ls/language"
+import { ast, DEFAULT_DELIMITERS, escapeRegExp } from "@jinja-ls/language"
 import * as lsp from "vscode-languageserver"
 import { TextDocument } from "vscode-languageserver-textdocument"
 import { Utils } from "vscode-uri"
 import { BUILTIN_STATEMENTS } from "./constants"
 import { listDirectories } from "./customRequests"
 import {
-  configuration,
   documentASTs,
   documentImports,
   documents,
   getFilters,
   getTests,
 } from "./state"
-import { findSymbolsInScope, getURIs, SymbolInfo } from "./symbols"
+import {
+  findSymbolsInScope,
+  getURIs,
+  isTemplatePath,
+  SymbolInfo,
+} from "./symbols"
 import { getType, resolveType, stringifySignatureInfo } from "./types"
 import { parentOfType, tokenAt } from "./utilities"
 
@@ -34,16 +38,7 @@ export const getPathCompletions = async (
 
   const items = await listDirectories(connection, currentUris)
   return Array.from(new Set(items))
-    .filter(
-      (item) =>
-        item.endsWith("/") ||
-        item.endsWith(".j2") ||
-        item.endsWith(".jinja") ||
-        item.endsWith(".jinja2") ||
-        configuration?.extraFileExtensions?.some?.((extension) =>
-          item.endsWith(extension),
-        ),
-    )
+    .filter((item) => item.endsWith("/") || isTemplatePath(item))
     .map(
       (item) =>
         ({
@@ -96,21 +91,32 @@ export const getCompletion = async (
 ) => {
   const document = documents.get(uri)
   const tokens = documentASTs.get(uri)?.tokens
+  const syntax = documentASTs.get(uri)?.syntax
 
   if (triggerCharacter === " ") {
     const text = document
       .getText(lsp.Range.create(lsp.Position.create(0, 0), position))
       .trimEnd()
     const lastLine = text.slice(text.lastIndexOf("\n") + 1)
+    const blockStart =
+      syntax?.block_start_string || DEFAULT_DELIMITERS.block_start_string
+    const variableStart =
+      syntax?.variable_start_string || DEFAULT_DELIMITERS.variable_start_string
+    const lineStatementStart = syntax?.line_statement_prefix
+      ? `^[ \t]*${escapeRegExp(syntax.line_statement_prefix)}`
+      : undefined
+    const statementPrefix = `(?:${escapeRegExp(blockStart)}-?${lineStatementStart ? `|${lineStatementStart}` : ""})[ \t]*`
     if (
       !(
-        text.endsWith("{%") ||
-        text.endsWith("{{") ||
+        text.endsWith(blockStart) ||
+        (lineStatementStart !== undefined &&
+          new RegExp(`${lineStatementStart}$`).test(lastLine)) ||
+        text.endsWith(variableStart) ||
         text.endsWith("|") ||
         text.endsWith("is") ||
-        /{%-?[ \t]*filter/.test(lastLine) ||
-        /{%-?[ \t]*block/.test(lastLine) ||
-        /{%-?[ \t]*from/.test(lastLine)
+        new RegExp(`${statementPrefix}filter`).test(lastLine) ||
+        new RegExp(`${statementPrefix}block`).test(lastLine) ||
+        new RegExp(`${statementPrefix}from`).test(lastLine)
       )
     ) {
       return
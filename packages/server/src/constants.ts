@@ -124,6 +124,104 @@ export const SPECIAL_SYMBOLS: Record<
         return: "namespace",
       },
     },
+    _: {
+      name: "function",
+      signature: {
+        documentation: "An alias for gettext.",
+        arguments: [
+          {
+            name: "message",
+            type: "str",
+          },
+        ],
+        kwargs: "variables",
+        return: "str",
+      },
+    },
+    gettext: {
+      name: "function",
+      signature: {
+        documentation:
+          "Translate a message, substituting the keyword arguments for its %(name)s placeholders.",
+        arguments: [
+          {
+            name: "message",
+            type: "str",
+          },
+        ],
+        kwargs: "variables",
+        return: "str",
+      },
+    },
+    ngettext: {
+      name: "function",
+      signature: {
+        documentation:
+          "Translate a message which has a singular and a plural form, choosing the form by the number n. The number is available as %(num)s if it isn't passed explicitly.",
+        arguments: [
+          {
+            name: "singular",
+            type: "str",
+          },
+          {
+            name: "plural",
+            type: "str",
+          },
+          {
+            name: "n",
+            type: "int",
+          },
+        ],
+        kwargs: "variables",
+        return: "str",
+      },
+    },
+    pgettext: {
+      name: "function",
+      signature: {
+        documentation:
+          "Translate a message in the given context, which distinguishes between identical messages with different meanings.",
+        arguments: [
+          {
+            name: "context",
+            type: "str",
+          },
+          {
+            name: "message",
+            type: "str",
+          },
+        ],
+        kwargs: "variables",
+        return: "str",
+      },
+    },
+    npgettext: {
+      name: "function",
+      signature: {
+        documentation:
+          "Translate a message which has a singular and a plural form in the given context.",
+        arguments: [
+          {
+            name: "context",
+            type: "str",
+          },
+          {
+            name: "singular",
+            type: "str",
+          },
+          {
+            name: "plural",
+            type: "str",
+          },
+          {
+            name: "n",
+            type: "int",
+          },
+        ],
+        kwargs: "variables",
+        return: "str",
+      },
+    },
   },
   Macro: {
     varargs: {
@@ -148,6 +246,8 @@ export const SPECIAL_SYMBOLS: Record<
   For: {
     loop: {
       name: "loop",
+      documentation:
+        "A special variable with information about the current iteration. In loops marked recursive, loop(iterable) renders the loop body again for the iterable, one level deeper.",
       properties: {
         index: {
           type: "int",
@@ -198,6 +298,8 @@ export const SPECIAL_SYMBOLS: Record<
           signature: {
             documentation:
               "A helper function to cycle between a list of sequences.",
+            args: "items",
+            return: { name: "Any" },
           },
         },
         changed: {
@@ -206,6 +308,7 @@ export const SPECIAL_SYMBOLS: Record<
             return: "bool",
             documentation:
               "True if previously called with a different value (or not called at all).",
+            args: "values",
           },
         },
       },
@@ -1079,6 +1182,9 @@ export const BUILTIN_STATEMENTS = [
   "break",
   "continue",
   "filter",
+  "autoescape",
+  "trans",
+  "pluralize",
   "endraw",
   "endblock",
   "endset",
@@ -1088,6 +1194,8 @@ export const BUILTIN_STATEMENTS = [
   "endcall",
   "endwith",
   "endfilter",
+  "endautoescape",
+  "endtrans",
 ]
 
 export const HOVER_LITERAL_MAX_LENGTH = 20
@@ -0,0 +1,97 @@
+import { ast } from "@jinja-ls/language"
+import * as lsp from "vscode-languageserver"
+import { TextDocument } from "vscode-languageserver-textdocument"
+import { findDefinition, getIdentifierAt } from "./references"
+import { documentASTs, documentSymbols } from "./state"
+import { getScope } from "./symbols"
+import { rangeOf, walk } from "./utilities"
+
+/**
+ * The variable defined by an identifier, so that assignments to the same name in the same scope are the same variable.
+ */
+const getVariable = (
+  document: TextDocument,
+  definition: ast.Identifier,
+): ast.Node => {
+  const symbol = documentSymbols
+    .get(document.uri)
+    ?.get(definition.value)
+    ?.find(
+      (symbol) =>
+        symbol.type === "Variable" && symbol.identifierNode === definition,
+    )
+  return symbol !== undefined
+    ? (getScope(symbol.node, true) ?? documentASTs.get(document.uri)?.program)
+    : definition
+}
+
+/**
+ * Whether an identifier assigns its name, e.g. in `set`, `for`, `with`, macro parameters and imports.
+ */
+const isWrite = (document: TextDocument, identifier: ast.Identifier) => {
+  const parent = identifier.parent
+  if (parent instanceof ast.Block) {
+    return parent.name === identifier
+  } else if (parent instanceof ast.FromImport) {
+    return parent.imports.some((i) => (i.name ?? i.source) === identifier)
+  }
+  return (
+    documentSymbols
+      .get(document.uri)
+      ?.get(identifier.value)
+      ?.some(
+        (symbol) =>
+          symbol.type === "Variable" && symbol.identifierNode === identifier,
+      ) ?? false
+  )
+}
+
+export const getDocumentHighlights = (uri: string, position: lsp.Position) => {
+  const [identifier, document] = getIdentifierAt(uri, position)
+  const program = documentASTs.get(uri)?.program
+  if (identifier === undefined || program === undefined) {
+    return
+  }
+  const [definition, definitionDocument] = findDefinition(document, identifier)
+  if (definition === undefined) {
+    return
+  }
+  const variable = getVariable(definitionDocument, definition)
+
+  // Imported symbols may be used by another name
+  const names = new Set([identifier.value, definition.value])
+  walk(program, (node) => {
+    if (node instanceof ast.FromImport) {
+      for (const i of node.imports) {
+        if (i.source.value === definition.value && i.name !== undefined) {
+          names.add(i.name.value)
+        }
+      }
+    }
+  })
+
+  const result: lsp.DocumentHighlight[] = []
+  walk(program, (node) => {
+    if (!(node instanceof ast.Identifier) || !names.has(node.value)) {
+      return
+    }
+    const [nodeDefinition, nodeDefinitionDocument] = findDefinition(
+      document,
+      node,
+    )
+    if (
+      nodeDefinition?.value === definition.value &&
+      getVariable(nodeDefinitionDocument, nodeDefinition) === variable
+    ) {
+      result.push(
+        lsp.DocumentHighlight.create(
+          rangeOf(document, node.token),
+          isWrite(document, node)
+            ? lsp.DocumentHighlightKind.Write
+            : lsp.DocumentHighlightKind.Read,
+        ),
+      )
+    }
+  })
+  return result
+}
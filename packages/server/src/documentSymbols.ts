@@ -0,0 +1,132 @@
+import { ast, formatExpression } from "@jinja-ls/language"
+import * as lsp from "vscode-languageserver"
+import { TextDocument } from "vscode-languageserver-textdocument"
+import { documentASTs, documents } from "./state"
+import { argToPython, collectSymbols, SymbolInfo } from "./symbols"
+import { rangeOf } from "./utilities"
+
+/**
+ * The variables bound by a statement, e.g. by `set`, `for` or `with`.
+ */
+const getVariableSymbols = (
+  document: TextDocument,
+  statement: ast.Node,
+): lsp.DocumentSymbol[] => {
+  const symbols = new Map<string, SymbolInfo[]>()
+  collectSymbols(statement, symbols, [], [])
+  const result: lsp.DocumentSymbol[] = []
+  for (const [name, infos] of symbols) {
+    for (const info of infos) {
+      if (info.type === "Variable" && info.identifierNode !== undefined) {
+        const range = rangeOf(document, info.identifierNode)
+        result.push({
+          name,
+          kind: lsp.SymbolKind.Variable,
+          range:
+            statement instanceof ast.SetStatement
+              ? rangeOf(document, statement)
+              : range,
+          selectionRange: range,
+        })
+      }
+    }
+  }
+  return result.sort((a, b) =>
+    document.offsetAt(a.selectionRange.start) <
+    document.offsetAt(b.selectionRange.start)
+      ? -1
+      : 1,
+  )
+}
+
+/**
+ * The name of an imported template, e.g. `forms.html`.
+ */
+const formatSource = (source: ast.Expression) =>
+  source instanceof ast.StringLiteral ? source.value : formatExpression(source)
+
+const getSymbolsOfNode = (
+  document: TextDocument,
+  node: ast.Node,
+): lsp.DocumentSymbol[] => {
+  const getChildSymbols = (children: ast.Node[]) =>
+    children.flatMap((child) => getSymbolsOfNode(document, child))
+
+  if (node instanceof ast.Macro) {
+    return [
+      {
+        name: node.name.value,
+        detail: `(${node.args.map(argToPython).join(", ")})`,
+        kind: lsp.SymbolKind.Function,
+        range: rangeOf(document, node),
+        selectionRange: rangeOf(document, node.name),
+        children: [
+          ...node.args.map((arg) => {
+            const identifier =
+              arg instanceof ast.KeywordArgumentExpression ? arg.key : arg
+            return {
+              name: arg.identifierName,
+              kind: lsp.SymbolKind.Variable,
+              range: rangeOf(document, arg),
+              selectionRange: rangeOf(document, identifier),
+            }
+          }),
+          ...getChildSymbols(node.body),
+        ],
+      },
+    ]
+  } else if (node instanceof ast.Block) {
+    return [
+      {
+        name: node.name.value,
+        kind: lsp.SymbolKind.Module,
+        range: rangeOf(document, node),
+        selectionRange: rangeOf(document, node.name),
+        children: getChildSymbols(node.body),
+      },
+    ]
+  } else if (node instanceof ast.Import) {
+    return [
+      {
+        name: node.name.value,
+        detail: formatSource(node.source),
+        kind: lsp.SymbolKind.Namespace,
+        range: rangeOf(document, node),
+        selectionRange: rangeOf(document, node.name),
+      },
+    ]
+  } else if (node instanceof ast.FromImport) {
+    return [
+      {
+        name: formatSource(node.source),
+        kind: lsp.SymbolKind.Namespace,
+        range: rangeOf(document, node),
+        selectionRange: rangeOf(document, node.source),
+        children: node.imports.map(({ source, name }) => ({
+          name: (name ?? source).value,
+          detail: name !== undefined ? source.value : undefined,
+          kind: lsp.SymbolKind.Variable,
+          range: rangeOf(document, name ?? source),
+          selectionRange: rangeOf(document, name ?? source),
+        })),
+      },
+    ]
+  } else if (node instanceof ast.Expression || node instanceof ast.TokenNode) {
+    return []
+  }
+  return [
+    ...getVariableSymbols(document, node),
+    ...getChildSymbols(node.children),
+  ]
+}
+
+export const getDocumentSymbols = (uri: string) => {
+  const document = documents.get(uri)
+  const program = documentASTs.get(uri)?.program
+
+  if (!document || !program) {
+    return
+  }
+
+  return getSymbolsOfNode(document, program)
+}
@@ -0,0 +1,102 @@
+import { formatEdits, TextEdit } from "@jinja-ls/language"
+import * as lsp from "vscode-languageserver"
+import { configuration, documentASTs, documents } from "./state"
+
+/**
+ * The edits formatting the tags of a document between two offsets, which keep its text so that it renders the same.
+ * Documents with errors aren't formatted, since their statements may not be the ones the author meant.
+ */
+const getFormatEdits = (
+  uri: string,
+  options: lsp.FormattingOptions,
+  isInRange: (edit: TextEdit) => boolean = () => true,
+) => {
+  const document = documents.get(uri)
+  const ast = documentASTs.get(uri)
+
+  if (
+    document === undefined ||
+    ast?.program === undefined ||
+    ast.program.source !== document.getText() ||
+    ast.lexerErrors?.length ||
+    ast.parserErrors?.length
+  ) {
+    return
+  }
+
+  const edits = formatEdits(
+    ast.program,
+    options.insertSpaces ? options.tabSize : "\t",
+    { ...configuration.format, lstripBlocks: ast.syntax?.lstrip_blocks },
+  )
+  return edits
+    .filter(isInRange)
+    .map((edit) =>
+      lsp.TextEdit.replace(
+        lsp.Range.create(
+          document.positionAt(edit.start),
+          document.positionAt(edit.end),
+        ),
+        edit.text,
+      ),
+    )
+}
+
+export const getDocumentFormatting = (
+  uri: string,
+  options: lsp.FormattingOptions,
+) => getFormatEdits(uri, options)
+
+export const getRangeFormatting = (
+  uri: string,
+  range: lsp.Range,
+  options: lsp.FormattingOptions,
+) => {
+  const document = documents.get(uri)
+  if (document === undefined) {
+    return
+  }
+  const start = document.offsetAt(range.start)
+  const end = document.offsetAt(range.end)
+  return getFormatEdits(
+    uri,
+    options,
+    (edit) => edit.start >= start && edit.end <= end,
+  )
+}
+
+/**
+ * Re-indent and format a statement tag after its closing delimiter is typed.
+ */
+export const getOnTypeFormatting = (
+  uri: string,
+  position: lsp.Position,
+  options: lsp.FormattingOptions,
+) => {
+  const document = documents.get(uri)
+  const tokens = documentASTs.get(uri)?.tokens
+  if (document === undefined || tokens === undefined) {
+    return
+  }
+
+  const offset = document.offsetAt(position)
+  const closeIndex = tokens.findIndex(
+    (token) => token.type === "CloseStatement" && token.end === offset,
+  )
+  if (closeIndex === -1) {
+    return
+  }
+  let openIndex = closeIndex
+  while (openIndex > 0 && tokens[openIndex].type !== "OpenStatement") {
+    --openIndex
+  }
+  const lineStart = document.offsetAt({
+    line: document.positionAt(tokens[openIndex].start).line,
+    character: 0,
+  })
+  return getFormatEdits(
+    uri,
+    options,
+    (edit) => edit.start >= lineStart && edit.end <= offset,
+  )
+}
@@ -1,4 +1,5 @@
 import $RefParser from "@apidevtools/json-schema-ref-parser"
+import { DEFAULT_DELIMITERS, PreprocessOptions } from "@jinja-ls/language"
 import { isAbsolute } from "path"
 import { parse as parseTOML } from "toml"
 import * as lsp from "vscode-languageserver"
@@ -60,6 +61,39 @@ export const processLSCommand = async (
   }
 }
 
+const SYNTAX_OPTIONS = [
+  ...Object.keys(DEFAULT_DELIMITERS),
+  "line_statement_prefix",
+  "line_comment_prefix",
+]
+const BOOLEAN_SYNTAX_OPTIONS = ["trim_blocks", "lstrip_blocks"]
+
+/**
+ * Find the syntax LS commands in the document, e.g. `jinja-ls: syntax block_start_string=((* block_end_string=*)) lstrip_blocks=true`.
+ * These are searched in the raw contents since they change how the comments themselves are lexed.
+ */
+export const getSyntaxFromLSCommands = (contents: string) => {
+  const syntax: PreprocessOptions = {}
+  for (const match of contents.matchAll(
+    /jinja-ls:[ \t]*syntax[ \t]+([^\n]*)/g,
+  )) {
+    for (const argument of match[1].split(/[ \t]+/)) {
+      const equalsIndex = argument.indexOf("=")
+      const key = argument.slice(0, equalsIndex)
+      const value = argument.slice(equalsIndex + 1)
+      if (equalsIndex !== -1 && SYNTAX_OPTIONS.includes(key) && value !== "") {
+        syntax[key] = value
+      } else if (
+        BOOLEAN_SYNTAX_OPTIONS.includes(key) &&
+        /^(true|false)$/i.test(value)
+      ) {
+        syntax[key] = value.toLowerCase() === "true"
+      }
+    }
+  }
+  return syntax
+}
+
 export const schemaPropertyToInfo = (
   name: string,
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -0,0 +1,305 @@
+import { ast } from "@jinja-ls/language"
+import * as lsp from "vscode-languageserver"
+import { TextDocument } from "vscode-languageserver-textdocument"
+import { SPECIAL_SYMBOLS } from "./constants"
+import {
+  documentASTs,
+  documentImports,
+  documents,
+  documentSymbols,
+} from "./state"
+import { findSymbol, findSymbolInDocument } from "./symbols"
+import { parentOfType, rangeOf, tokenAt, walk } from "./utilities"
+import { getImportingTemplates, indexWorkspace } from "./workspaceSymbols"
+
+type Definition = [ast.Identifier, TextDocument] | []
+
+/**
+ * The block which a block overrides through `extends`, or the block itself if it doesn't override any.
+ */
+const getOverriddenBlock = (
+  document: TextDocument,
+  block: ast.Block,
+): [ast.Block, TextDocument] => {
+  const visited = new Set<ast.Block>([block])
+  let result: [ast.Block, TextDocument] = [block, document]
+  while (true) {
+    const [parent, parentDocument] = findSymbol(
+      result[1],
+      result[0],
+      block.name.value,
+      "Block",
+      { checkCurrent: false, importTypes: ["Extends"] },
+    )
+    if (parent === undefined || visited.has(parent.node)) {
+      return result
+    }
+    visited.add(parent.node)
+    result = [parent.node, parentDocument]
+  }
+}
+
+/**
+ * A top-level macro or variable of a template, e.g. one imported from it.
+ */
+const findExportedSymbol = (
+  uri: string | undefined,
+  name: string,
+): Definition => {
+  const document = uri !== undefined ? documents.get(uri) : undefined
+  if (document === undefined) {
+    return []
+  }
+  const symbol = findSymbolInDocument(
+    document,
+    documentSymbols.get(uri),
+    name,
+    "Variable",
+    documentASTs.get(uri)?.program,
+  )
+  if (symbol?.identifierNode !== undefined) {
+    return [symbol.identifierNode, document]
+  }
+  return []
+}
+
+/**
+ * The identifier defining the macro, block or variable an identifier refers to, which is the identifier itself for
+ * definitions. Blocks are defined by the first block they override.
+ */
+export const findDefinition = (
+  document: TextDocument,
+  identifier: ast.Identifier,
+): Definition => {
+  const parent = identifier.parent
+
+  if (
+    parent instanceof ast.Block &&
+    (parent.name === identifier || parent.endName === identifier)
+  ) {
+    const [block, blockDocument] = getOverriddenBlock(document, parent)
+    return [block.name, blockDocument]
+  }
+
+  if (parent instanceof ast.FromImport) {
+    const importedUri = documentImports
+      .get(document.uri)
+      ?.find(([i]) => i === parent)?.[1]
+    const fromImport = parent.imports.find(
+      (i) => i.source === identifier || i.name === identifier,
+    )
+    return fromImport !== undefined
+      ? findExportedSymbol(importedUri, fromImport.source.value)
+      : []
+  }
+
+  if (
+    parent instanceof ast.MemberExpression &&
+    parent.property === identifier
+  ) {
+    if (parent.computed || !(parent.object instanceof ast.Identifier)) {
+      return []
+    }
+    if (parent.object.value === "self") {
+      const block = findSymbolInDocument(
+        document,
+        documentSymbols.get(document.uri),
+        identifier.value,
+        "Block",
+        documentASTs.get(document.uri)?.program,
+      )
+      if (block === undefined) {
+        return []
+      }
+      const [overriddenBlock, blockDocument] = getOverriddenBlock(
+        document,
+        block.node,
+      )
+      return [overriddenBlock.name, blockDocument]
+    }
+    // Members of namespaces imported with `import ... as ...`
+    const [namespace, namespaceDocument] = findSymbol(
+      document,
+      parent.object,
+      parent.object.value,
+      "Variable",
+    )
+    return namespace?.node instanceof ast.Program
+      ? findExportedSymbol(namespaceDocument.uri, identifier.value)
+      : []
+  }
+
+  if (
+    parent instanceof ast.KeywordArgumentExpression &&
+    parent.key === identifier &&
+    parent.parent instanceof ast.CallExpression
+  ) {
+    // Keyword arguments refer to the parameters of the called macro
+    const callee = parent.parent.callee
+    const calleeIdentifier =
+      callee instanceof ast.MemberExpression ? callee.property : callee
+    if (!(calleeIdentifier instanceof ast.Identifier)) {
+      return []
+    }
+    const [macroName, macroDocument] = findDefinition(
+      document,
+      calleeIdentifier,
+    )
+    const macro = macroName?.parent
+    if (!(macro instanceof ast.Macro) || macro.name !== macroName) {
+      return []
+    }
+    const argument = macro.args.find(
+      (arg) => arg.identifierName === identifier.value,
+    )
+    if (argument === undefined) {
+      return []
+    }
+    return [
+      argument instanceof ast.KeywordArgumentExpression
+        ? argument.key
+        : (argument as ast.Identifier),
+      macroDocument,
+    ]
+  }
+
+  const isSpecialSymbol = Object.entries(SPECIAL_SYMBOLS).some(
+    ([definerType, specialSymbols]) =>
+      specialSymbols[identifier.value] !== undefined &&
+      parentOfType(identifier, definerType) !== undefined,
+  )
+  if (isSpecialSymbol) {
+    return []
+  }
+
+  const [symbol, symbolDocument] = findSymbol(
+    document,
+    identifier,
+    identifier.value,
+    "Variable",
+  )
+  if (symbol?.identifierNode !== undefined) {
+    return [symbol.identifierNode, symbolDocument]
+  }
+  return []
+}
+
+/**
+ * The templates which may refer to symbols of a template, i.e. the ones importing it directly or indirectly.
+ */
+const getReferencingTemplates = (uri: string) => {
+  const result = new Set<string>([uri])
+  const queue = [uri]
+  while (queue.length !== 0) {
+    for (const importingUri of getImportingTemplates(queue.shift()!)) {
+      if (!result.has(importingUri)) {
+        result.add(importingUri)
+        queue.push(importingUri)
+      }
+    }
+  }
+  return result
+}
+
+/**
+ * The identifier at a position of a document.
+ */
+export const getIdentifierAt = (
+  uri: string,
+  position: lsp.Position,
+): [ast.Identifier, TextDocument] | [] => {
+  const document = documents.get(uri)
+  const tokens = documentASTs.get(uri)?.tokens
+  if (document === undefined || tokens === undefined) {
+    return []
+  }
+  const token = tokenAt(tokens, document.offsetAt(position))
+  if (!(token?.parent instanceof ast.Identifier)) {
+    return []
+  }
+  return [token.parent, document]
+}
+
+/**
+ * The identifiers referring to the same definition as an identifier, including the definition, in the templates
+ * which may refer to it. Templates which aren't analyzed yet are analyzed first.
+ */
+export const findReferences = async (
+  connection: lsp.Connection,
+  document: TextDocument,
+  identifier: ast.Identifier,
+  analyzeUri: (uri: string) => Promise<void>,
+) => {
+  const [definition, definitionDocument] = findDefinition(document, identifier)
+  if (definition === undefined) {
+    return
+  }
+
+  await indexWorkspace(connection)
+  const templates = getReferencingTemplates(definitionDocument.uri)
+  for (const templateUri of templates) {
+    if (!documentASTs.has(templateUri)) {
+      await analyzeUri(templateUri)
+    }
+  }
+
+  const result: [ast.Identifier, TextDocument][] = []
+  for (const templateUri of templates) {
+    const templateDocument = documents.get(templateUri)
+    const program = documentASTs.get(templateUri)?.program
+    if (templateDocument === undefined || program === undefined) {
+      continue
+    }
+
+    // Imported symbols may be used by another name
+    const names = new Set([definition.value])
+    walk(program, (node) => {
+      if (node instanceof ast.FromImport) {
+        for (const i of node.imports) {
+          if (i.source.value === definition.value && i.name !== undefined) {
+            names.add(i.name.value)
+          }
+        }
+      }
+    })
+
+    walk(program, (node) => {
+      if (
+        node instanceof ast.Identifier &&
+        names.has(node.value) &&
+        findDefinition(templateDocument, node)[0] === definition
+      ) {
+        result.push([node, templateDocument])
+      }
+    })
+  }
+  return result
+}
+
+export const getReferences = async (
+  connection: lsp.Connection,
+  uri: string,
+  position: lsp.Position,
+  includeDeclaration: boolean,
+  analyzeUri: (uri: string) => Promise<void>,
+) => {
+  const [identifier, document] = getIdentifierAt(uri, position)
+  if (identifier === undefined) {
+    return
+  }
+  const [definition] = findDefinition(document, identifier)
+  const references = await findReferences(
+    connection,
+    document,
+    identifier,
+    analyzeUri,
+  )
+  return references
+    ?.filter(([reference]) => includeDeclaration || reference !== definition)
+    .map(([reference, referenceDocument]) =>
+      lsp.Location.create(
+        referenceDocument.uri,
+        rangeOf(referenceDocument, reference.token),
+      ),
+    )
+}
@@ -0,0 +1,96 @@
+import * as lsp from "vscode-languageserver"
+import { BUILTIN_STATEMENTS, SPECIAL_SYMBOLS } from "./constants"
+import { findDefinition, findReferences, getIdentifierAt } from "./references"
+import { rangeOf } from "./utilities"
+
+const NAME = /^[A-Za-z_][A-Za-z0-9_]*$/
+// Names which are read as keywords, operators or literals, or which Jinja defines in macros, loops and blocks
+const RESERVED_NAMES = new Set([
+  ...BUILTIN_STATEMENTS,
+  "and",
+  "as",
+  "context",
+  "ignore",
+  "in",
+  "is",
+  "missing",
+  "not",
+  "or",
+  "recursive",
+  "required",
+  "scoped",
+  "without",
+  "true",
+  "false",
+  "none",
+  "True",
+  "False",
+  "None",
+  "self",
+  ...["Macro", "For", "Block"].flatMap((type) =>
+    Object.keys(SPECIAL_SYMBOLS[type]),
+  ),
+])
+
+export const getPrepareRename = (uri: string, position: lsp.Position) => {
+  const [identifier, document] = getIdentifierAt(uri, position)
+  if (
+    identifier === undefined ||
+    findDefinition(document, identifier)[0] === undefined
+  ) {
+    return
+  }
+  return {
+    range: rangeOf(document, identifier.token),
+    placeholder: identifier.value,
+  }
+}
+
+export const getRename = async (
+  connection: lsp.Connection,
+  uri: string,
+  position: lsp.Position,
+  newName: string,
+  analyzeUri: (uri: string) => Promise<void>,
+) => {
+  if (!NAME.test(newName) || RESERVED_NAMES.has(newName)) {
+    return new lsp.ResponseError(
+      lsp.ErrorCodes.InvalidParams,
+      `'${newName}' isn't a valid name`,
+    )
+  }
+  const [identifier, document] = getIdentifierAt(uri, position)
+  if (identifier === undefined) {
+    return
+  }
+  const [definition] = findDefinition(document, identifier)
+  const references = await findReferences(
+    connection,
+    document,
+    identifier,
+    analyzeUri,
+  )
+  if (definition === undefined || references === undefined) {
+    return
+  }
+
+  // Renaming the alias of an imported symbol, e.g. `y` in `{% from ... import x as y %}`, only renames the alias
+  const isAlias = identifier.value !== definition.value
+  const changes: Record<string, lsp.TextEdit[]> = {}
+  for (const [reference, referenceDocument] of references) {
+    if (
+      reference.value !== identifier.value ||
+      (isAlias && referenceDocument.uri !== uri)
+    ) {
+      continue
+    }
+    changes[referenceDocument.uri] ??= []
+    changes[referenceDocument.uri].push(
+      lsp.TextEdit.replace(
+        rangeOf(referenceDocument, reference.token),
+        newName,
+      ),
+    )
+  }
+  return { changes } satisfies lsp.WorkspaceEdit
+}
@@ -92,6 +92,14 @@ export const getTokens = (statements: ast.Statement[]) => {
             tokenModifiers: 0,
           })
         }
+        if (forStatement.recursive !== undefined) {
+          items.push({
+            start: forStatement.recursive.start,
+            end: forStatement.recursive.end,
+            tokenType: 8,
+            tokenModifiers: 0,
+          })
+        }
         break
       case "With":
         const withStatement = statement as ast.With
@@ -383,6 +391,50 @@ export const getTokens = (statements: ast.Statement[]) => {
           statements.push(filterExpressionStatement.filter)
         }
         break
+      case "Autoescape":
+        const autoescapeStatement = statement as ast.Autoescape
+        statements.push(autoescapeStatement.value, ...autoescapeStatement.body)
+        break
+      case "Trans":
+      case "Pluralize":
+        const transStatement = statement as ast.Trans | ast.Pluralize
+        if (transStatement instanceof ast.Trans) {
+          statements.push(
+            transStatement.context,
+            ...transStatement.bindings.flatMap((binding) => [
+              binding.name,
+              binding.value,
+            ]),
+            transStatement.pluralize,
+          )
+          if (transStatement.trimmed) {
+            items.push({
+              start: transStatement.trimmed.start,
+              end: transStatement.trimmed.end,
+              tokenType: 8,
+              tokenModifiers: 0,
+            })
+          }
+        } else if (transStatement.count) {
+          statements.push(transStatement.count)
+        }
+        for (const child of transStatement.body) {
+          // The text of translatable blocks is highlighted as a string, since it is the message which is translated
+          if (
+            child instanceof ast.StringLiteral &&
+            child.tokens[0].token.type === "Text"
+          ) {
+            items.push({
+              start: child.tokens[0].start,
+              end: child.tokens[child.tokens.length - 1].end,
+              tokenType: 5,
+              tokenModifiers: 0,
+            })
+          } else {
+            statements.push(child)
+          }
+        }
+        break
       case "FilterStatement":
         const filterStatement = statement as ast.FilterStatement
         statements.push(...filterStatement.body)
@@ -1,4 +1,13 @@
-import { ast, parse, tokenize } from "@jinja-ls/language"
+import {
+  ast,
+  DocumentChange,
+  ParsedDocument,
+  parseDocument,
+  PreprocessOptions,
+  reparseDocument,
+  TextEdit,
+} from "@jinja-ls/language"
+import { isDeepStrictEqual } from "util"
 import * as lsp from "vscode-languageserver"
 import { TextDocument } from "vscode-languageserver-textdocument"
 import { createConnection } from "vscode-languageserver/node"
@@ -8,9 +17,18 @@ import { getCompletion } from "./completion"
 import { readUri, registerCustomCommands } from "./customRequests"
 import { getDefinition } from "./definition"
 import { getDiagnostics } from "./diagnostics"
+import { getDocumentHighlights } from "./documentHighlight"
 import { getDocumentLinks } from "./documentLinks"
+import { getDocumentSymbols } from "./documentSymbols"
+import {
+  getDocumentFormatting,
+  getOnTypeFormatting,
+  getRangeFormatting,
+} from "./formatting"
 import { getHover } from "./hover"
-import { processLSCommand } from "./lsCommands"
+import { getSyntaxFromLSCommands, processLSCommand } from "./lsCommands"
+import { getReferences } from "./references"
+import { getPrepareRename, getRename } from "./rename"
 import { getSemanticTokens, legend } from "./semantic"
 import { getSignatureHelp } from "./signatureHelp"
 import {
@@ -22,20 +40,99 @@ import {
   rootURIs,
 } from "./state"
 import { collectSymbols, findImport, SymbolInfo } from "./symbols"
-import { walk } from "./utilities"
+import { getTopLevelStatement, walk } from "./utilities"
+import {
+  getWorkspaceSymbols,
+  indexWorkspace,
+  resetWorkspaceIndex,
+  updateWorkspaceFiles,
+  updateWorkspaceSymbols,
+} from "./workspaceSymbols"
 
 const connection = createConnection(lsp.ProposedFeatures.all)
-const lspDocuments = new lsp.TextDocuments(TextDocument)
+// The notifications which the client lets the server register once initialized
+let dynamicRegistrations: {
+  didChangeConfiguration?: boolean
+  didChangeWatchedFiles?: boolean
+} = {}
+// The edits of each document since it was last analyzed
+const documentEdits = new Map<string, TextEdit[]>()
+const lspDocuments = new lsp.TextDocuments<TextDocument>({
+  create: TextDocument.create,
+  update: (document, changes, version) => {
+    const edits = documentEdits.get(document.uri) ?? []
+    for (const change of changes) {
+      if (lsp.TextDocumentContentChangeEvent.isIncremental(change)) {
+        edits.push({
+          start: document.offsetAt(change.range.start),
+          end: document.offsetAt(change.range.end),
+          text: change.text,
+        })
+      } else {
+        edits.push({
+          start: 0,
+          end: document.getText().length,
+          text: change.text,
+        })
+      }
+      document = TextDocument.update(document, [change], version)
+    }
+    documentEdits.set(document.uri, edits)
+    return document
+  },
+})
 
-const getDocumentAST = (contents: string) => {
+const getDocumentAST = (
+  contents: string,
+  syntax: PreprocessOptions = {},
+  previous?: ParsedDocument,
+  edits: TextEdit[] = [],
+) => {
   try {
-    const [tokens, lexerErrors] = tokenize(contents, {}, true)
-    const [program, tokenNodes, parserErrors] = parse(tokens, true)
-    return { program, lexerErrors, parserErrors, tokens: tokenNodes }
+    let parsed: ParsedDocument
+    let change: DocumentChange | undefined = undefined
+    if (previous !== undefined && isDeepStrictEqual(previous.options, syntax)) {
+      ;({ document: parsed, change } = reparseDocument(
+        previous,
+        contents,
+        edits,
+      ))
+    } else {
+      parsed = parseDocument(contents, syntax)
+    }
+    const { program, lexerErrors, parserErrors, tokens } = parsed
+    return {
+      ast: { program, lexerErrors, parserErrors, tokens, syntax, parsed },
+      change,
+    }
   } catch (e) {
     console.log(e)
   }
-  return {}
+  return { ast: {} }
+}
+
+/**
+ * Replace the items which belong to the given top-level statements, keeping them in document order.
+ */
+const replaceItemsOfStatements = <T>(
+  items: T[],
+  getNode: (item: T) => ast.Node,
+  statements: Set<ast.Node>,
+  index: number,
+  newItems: T[],
+) => {
+  const result = items.filter(
+    (item) => !statements.has(getTopLevelStatement(getNode(item))),
+  )
+  const insertIndex = result.findIndex(
+    (item) => getTopLevelStatement(getNode(item)).parentIndex >= index,
+  )
+  result.splice(
+    insertIndex === -1 ? result.length : insertIndex,
+    0,
+    ...newItems,
+  )
+  return result
 }
 
 export const protectOnThrow = <T>(fn: () => T) => {
@@ -50,6 +147,13 @@ connection.onInitialize((params) => {
   for (const folder of params.workspaceFolders ?? []) {
     rootURIs.push(URI.parse(folder.uri))
   }
+  const workspaceCapabilities = params.capabilities.workspace
+  dynamicRegistrations = {
+    didChangeConfiguration:
+      workspaceCapabilities?.didChangeConfiguration?.dynamicRegistration,
+    didChangeWatchedFiles:
+      workspaceCapabilities?.didChangeWatchedFiles?.dynamicRegistration,
+  }
 
   return {
     capabilities: {
@@ -89,6 +193,11 @@ connection.onInitialize((params) => {
       },
       hoverProvider: true,
       definitionProvider: true,
+      referencesProvider: true,
+      documentHighlightProvider: true,
+      renameProvider: {
+        prepareProvider: true,
+      },
       signatureHelpProvider: {
         triggerCharacters: ["(", ",", "="],
         retriggerCharacters: [")"],
@@ -100,26 +209,125 @@ connection.onInitialize((params) => {
       documentLinkProvider: {
         resolveProvider: false,
       },
+      documentSymbolProvider: true,
+      workspaceSymbolProvider: true,
+      documentFormattingProvider: true,
+      documentRangeFormattingProvider: true,
+      documentOnTypeFormattingProvider: {
+        firstTriggerCharacter: "}",
+      },
     },
   } satisfies lsp.InitializeResult
 })
 
+connection.onInitialized(() => {
+  if (dynamicRegistrations.didChangeConfiguration) {
+    connection.client.register(lsp.DidChangeConfigurationNotification.type, {
+      section: "jinjaLS",
+    })
+  }
+  if (dynamicRegistrations.didChangeWatchedFiles) {
+    // Directories are watched too, since deleting one deletes the templates in it
+    connection.client.register(lsp.DidChangeWatchedFilesNotification.type, {
+      watchers: [{ globPattern: "**/*" }],
+    })
+  }
+})
+
+/**
+ * Read the `jinjaLS` settings of the client.
+ */
+const loadConfiguration = async () => {
+  const currentConfiguration = await connection.workspace.getConfiguration({
+    section: "jinjaLS",
+  })
+  for (const key in currentConfiguration) {
+    configuration[key] = currentConfiguration[key]
+  }
+  configuration.initialized = true
+}
+
 const analyzeDocument = async (document: TextDocument) => {
   documents.set(document.uri, document)
-  const ast = getDocumentAST(document.getText())
+  const contents = document.getText()
+  const edits = documentEdits.get(document.uri)
+  documentEdits.delete(document.uri)
+  const previousAST = documentASTs.get(document.uri)
+  const previousSymbols = documentSymbols.get(document.uri)
+  const { ast, change } = getDocumentAST(
+    contents,
+    {
+      ...configuration.syntax,
+      ...getSyntaxFromLSCommands(contents),
+    },
+    previousSymbols !== undefined ? previousAST?.parsed : undefined,
+    edits,
+  )
   const symbols = new Map<string, SymbolInfo[]>()
-  const imports: (ast.Include | ast.Import | ast.FromImport | ast.Extends)[] =
-    []
+  let imports: (ast.Include | ast.Import | ast.FromImport | ast.Extends)[] = []
   const lsCommands: string[] = []
 
-  if (ast.program) {
+  if (!ast.program && previousAST !== undefined) {
+    // Reparsing may have failed after updating part of the previous parse, so start over next time
+    previousAST.parsed = undefined
+  }
+
+  if (ast.program && change !== undefined) {
+    // Only collect symbols of the changed top-level statements, along with the following ones which may be documented by them
+    const body = ast.program.body
+    const changedStatements = new Set<ast.Node>(change.removed)
+    const collectedStatements = [...change.added]
+    const isEmpty = change.removed.length === 0 && change.added.length === 0
+    let end = change.index + change.added.length
+    while (!isEmpty && end < body.length) {
+      const statement = body[end++]
+      changedStatements.add(statement)
+      collectedStatements.push(statement)
+      if (statement.type !== "Comment" && statement.type !== "StringLiteral") {
+        break
+      }
+    }
+
+    const newSymbols = new Map<string, SymbolInfo[]>()
+    const newImports: typeof imports = []
+    for (const statement of collectedStatements) {
+      walk(statement, (node) => {
+        collectSymbols(node, newSymbols, newImports, lsCommands)
+      })
+    }
+    for (const name of new Set([
+      ...previousSymbols.keys(),
+      ...newSymbols.keys(),
+    ])) {
+      const values = replaceItemsOfStatements(
+        previousSymbols.get(name) ?? [],
+        (symbol) => symbol.node,
+        changedStatements,
+        change.index,
+        newSymbols.get(name) ?? [],
+      )
+      if (values.length !== 0) {
+        symbols.set(name, values)
+      }
+    }
+    imports = replaceItemsOfStatements(
+      (documentImports.get(document.uri) ?? []).map(([i]) => i),
+      (i) => i,
+      changedStatements,
+      change.index,
+      newImports,
+    )
+  } else if (ast.program) {
     walk(ast.program, (statement) => {
       collectSymbols(statement, symbols, imports, lsCommands)
     })
+  }
 
+  if (ast.program) {
     // Update initial analysis before going async
     documentASTs.set(document.uri, ast)
     documentSymbols.set(document.uri, symbols)
+    updateWorkspaceSymbols(document, symbols)
     const previousImports = documentImports.get(document.uri) ?? []
     documentImports.set(
       document.uri,
@@ -179,24 +387,44 @@ const analyzeDocument = async (document: TextDocument) => {
   }
 }
 
+/**
+ * Analyze a template which isn't open, e.g. to find references in it.
+ */
+const analyzeUri = async (uri: string) => {
+  const contents = await readUri(connection, uri)
+  if (contents !== undefined) {
+    await analyzeDocument(TextDocument.create(uri, "jinja", 0, contents))
+  }
+}
+
 lspDocuments.onDidChangeContent((event) => {
   analyzeDocument(event.document)
 
   if (!configuration.initialized) {
-    connection.workspace
-      .getConfiguration({
-        section: "jinjaLS",
-      })
-      .then((currentConfiguration) => {
-        for (const key in currentConfiguration) {
-          configuration[key] = currentConfiguration[key]
-        }
-        configuration.initialized = true
-        analyzeDocument(event.document)
-      })
+    loadConfiguration().then(() => {
+      analyzeDocument(event.document)
+      indexWorkspace(connection)
+    })
+  }
+})
+
+connection.onDidChangeConfiguration(async () => {
+  await loadConfiguration()
+  // The syntax, the file extensions and the import paths may have changed
+  resetWorkspaceIndex()
+  for (const document of lspDocuments.all()) {
+    analyzeDocument(document)
   }
+  indexWorkspace(connection)
 })
 
+connection.onDidChangeWatchedFiles(
+  async (params) =>
+    await protectOnThrow(() =>
+      updateWorkspaceFiles(connection, params.changes),
+    ),
+)
+
 connection.languages.semanticTokens.on(async (params) =>
   protectOnThrow(() => getSemanticTokens(params.textDocument.uri)),
 )
@@ -209,6 +437,44 @@ connection.onDefinition(async (params) =>
   protectOnThrow(() => getDefinition(params.textDocument.uri, params.position)),
 )
 
+connection.onReferences(
+  async (params) =>
+    await protectOnThrow(() =>
+      getReferences(
+        connection,
+        params.textDocument.uri,
+        params.position,
+        params.context.includeDeclaration,
+        analyzeUri,
+      ),
+    ),
+)
+
+connection.onDocumentHighlight(async (params) =>
+  protectOnThrow(() =>
+    getDocumentHighlights(params.textDocument.uri, params.position),
+  ),
+)
+
+connection.onPrepareRename(async (params) =>
+  protectOnThrow(() =>
+    getPrepareRename(params.textDocument.uri, params.position),
+  ),
+)
+
+connection.onRenameRequest(
+  async (params) =>
+    await protectOnThrow(() =>
+      getRename(
+        connection,
+        params.textDocument.uri,
+        params.position,
+        params.newName,
+        analyzeUri,
+      ),
+    ),
+)
+
 connection.onSignatureHelp(async (params) =>
   protectOnThrow(() =>
     getSignatureHelp(params.textDocument.uri, params.position),
@@ -237,6 +503,37 @@ connection.onDocumentLinks(async (params) =>
   protectOnThrow(() => getDocumentLinks(params.textDocument.uri)),
 )
 
+connection.onDocumentSymbol(async (params) =>
+  protectOnThrow(() => getDocumentSymbols(params.textDocument.uri)),
+)
+
+connection.onWorkspaceSymbol(
+  async (params) =>
+    await protectOnThrow(() => getWorkspaceSymbols(connection, params.query)),
+)
+
+connection.onDocumentFormatting(async (params) =>
+  protectOnThrow(() =>
+    getDocumentFormatting(params.textDocument.uri, params.options),
+  ),
+)
+
+connection.onDocumentRangeFormatting(async (params) =>
+  protectOnThrow(() =>
+    getRangeFormatting(params.textDocument.uri, params.range, params.options),
+  ),
+)
+
+connection.onDocumentOnTypeFormatting(async (params) =>
+  protectOnThrow(() =>
+    getOnTypeFormatting(
+      params.textDocument.uri,
+      params.position,
+      params.options,
+    ),
+  ),
+)
+
 registerCustomCommands(connection)
 lspDocuments.listen(connection)
 connection.listen()
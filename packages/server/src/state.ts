@@ -1,4 +1,10 @@
-import { ast, LexerError } from "@jinja-ls/language"
+import {
+  ast,
+  FormatStyle,
+  LexerError,
+  ParsedDocument,
+  PreprocessOptions,
+} from "@jinja-ls/language"
 import { TextDocument } from "vscode-languageserver-textdocument"
 import { URI } from "vscode-uri"
 import { BUILTIN_FILTERS, BUILTIN_TESTS } from "./constants"
@@ -14,6 +20,8 @@ export const documentASTs = new Map<
     tokens?: ast.TokenNode[]
     lexerErrors?: LexerError[]
     parserErrors?: ast.ErrorNode[]
+    syntax?: PreprocessOptions
+    parsed?: ParsedDocument
   }
 >()
 export const documentImports = new Map<
@@ -33,6 +41,8 @@ export const configuration: {
   extraTests?: Record<string, TypeInfo>
   extraFilters?: Record<string, TypeInfo>
   extraFileExtensions?: string[]
+  syntax?: PreprocessOptions
+  format?: FormatStyle
   initialized: boolean
 } = { initialized: false }
 
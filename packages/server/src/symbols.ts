@@ -271,6 +271,12 @@ export const collectSymbols = (
         assignment.assignee,
       )
     }
+  } else if (statement instanceof ast.Trans) {
+    for (const binding of statement.bindings) {
+      if (binding.value !== undefined) {
+        addSymbolsFromAssignment(binding.name, binding.value, binding.name)
+      }
+    }
   } else if (statement instanceof ast.CallStatement) {
     const documentation = statement.getDocumentation()
     const parameterTypes = getParametersFromDocumentation(documentation)
@@ -315,6 +321,17 @@ export const getURIs = (currentUri: string) => [
   ...rootURIs,
 ]
 
+/**
+ * Whether a file name or path has the extension of a template, including the configured extra extensions.
+ */
+export const isTemplatePath = (path: string) =>
+  path.endsWith(".j2") ||
+  path.endsWith(".jinja") ||
+  path.endsWith(".jinja2") ||
+  configuration?.extraFileExtensions?.some?.((extension) =>
+    path.endsWith(extension),
+  )
+
 export const findImport = async (
   i: ast.Include | ast.Import | ast.FromImport | ast.Extends,
   uri: string,
@@ -336,7 +353,8 @@ export const findImport = async (
 
 export const getScope = (node: ast.Node | undefined, initial = false) => {
   if (!initial && node instanceof ast.Block && node.scoped === undefined) {
-    return
+    // Blocks which aren't scoped only see the top-level variables of their template
+    return getProgramOf(node)
   }
 
   node = node?.parent
@@ -346,6 +364,19 @@ export const getScope = (node: ast.Node | undefined, initial = false) => {
   return node
 }
 
+/**
+ * Whether a node is another node or one of its descendants.
+ */
+const isWithin = (node: ast.Node | undefined, ancestor: ast.Node) => {
+  while (node !== undefined) {
+    if (node === ancestor) {
+      return true
+    }
+    node = node.parent
+  }
+  return false
+}
+
 export const isInScope = (
   node: ast.Node,
   inScopeOf: ast.Node | undefined,
@@ -364,6 +395,13 @@ export const isInScope = (
 
   const symbolScope = getScope(node, true)
   let currentScope = getScope(inScopeOf, true) ?? program
+  if (
+    currentScope instanceof ast.For &&
+    isWithin(inScopeOf, currentScope.iterable)
+  ) {
+    // The iterable of a loop is outside of it, e.g. `x` in `{% for x in x.children %}`
+    currentScope = getScope(currentScope)
+  }
   if (currentScope !== undefined) {
     while (currentScope !== undefined) {
       if (currentScope === symbolScope) {
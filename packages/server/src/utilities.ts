@@ -3,10 +3,10 @@ import * as lsp from "vscode-languageserver"
 import { TextDocument } from "vscode-languageserver-textdocument"
 
 export const walk = (
-  program: ast.Program,
+  node: ast.Node,
   callback: (statement: ast.Node) => boolean | void,
 ) => {
-  const statements: ast.Node[] = [program]
+  const statements: ast.Node[] = [node]
   while (statements.length !== 0) {
     const statement = statements.shift()!
     statements.unshift(...statement.children)
@@ -47,3 +47,10 @@ export const rangeOf = (document: TextDocument, node: ast.Node) => {
     document.positionAt(node.getEnd()),
   )
 }
+
+export const getTopLevelStatement = (node: ast.Node) => {
+  while (node.parent !== undefined && !(node.parent instanceof ast.Program)) {
+    node = node.parent
+  }
+  return node
+}
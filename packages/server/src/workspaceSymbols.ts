@@ -0,0 +1,277 @@
+import { ast, parseDocument } from "@jinja-ls/language"
+import * as lsp from "vscode-languageserver"
+import { TextDocument } from "vscode-languageserver-textdocument"
+import { URI, Utils } from "vscode-uri"
+import { listDirectories, readUri } from "./customRequests"
+import { getSyntaxFromLSCommands } from "./lsCommands"
+import {
+  configuration,
+  documentImports,
+  documents,
+  documentSymbols,
+  rootURIs,
+} from "./state"
+import { collectSymbols, getURIs, isTemplatePath, SymbolInfo } from "./symbols"
+import { walk } from "./utilities"
+
+// The macros, blocks and top-level variables of every template in the workspace
+const workspaceIndex = new Map<string, lsp.SymbolInformation[]>()
+// The sources of the templates imported by every indexed template, resolved when needed
+const workspaceImports = new Map<string, string[]>()
+let indexing: Promise<void> | undefined = undefined
+
+const getContainerName = (node: ast.Node) => {
+  for (let parent = node.parent; parent !== undefined; parent = parent.parent) {
+    if (parent instanceof ast.Macro || parent instanceof ast.Block) {
+      return parent.name.value
+    }
+  }
+}
+
+/**
+ * Update the indexed symbols of a template from the symbols collected from it.
+ */
+export const updateWorkspaceSymbols = (
+  document: TextDocument,
+  symbols: Map<string, SymbolInfo[]>,
+) => {
+  const result: lsp.SymbolInformation[] = []
+  for (const [name, infos] of symbols) {
+    for (const info of infos) {
+      let kind: lsp.SymbolKind
+      let identifier: ast.Node
+      if (info.type === "Macro") {
+        kind = lsp.SymbolKind.Function
+        identifier = info.node.name
+      } else if (info.type === "Block") {
+        kind = lsp.SymbolKind.Module
+        identifier = info.node.name
+      } else if (
+        info.node instanceof ast.SetStatement &&
+        info.node.parent instanceof ast.Program &&
+        info.identifierNode !== undefined
+      ) {
+        kind = lsp.SymbolKind.Variable
+        identifier = info.identifierNode
+      } else {
+        continue
+      }
+      result.push({
+        name,
+        kind,
+        location: lsp.Location.create(
+          document.uri,
+          lsp.Range.create(
+            document.positionAt(identifier.getStart()),
+            document.positionAt(identifier.getEnd()),
+          ),
+        ),
+        containerName: getContainerName(info.node),
+      })
+    }
+  }
+  workspaceIndex.set(document.uri, result)
+}
+
+const indexTemplate = async (connection: lsp.Connection, uri: string) => {
+  const contents = await readUri(connection, uri)
+  // Analyzed documents are indexed when they're analyzed, and may have unsaved changes
+  if (contents === undefined || documentSymbols.has(uri)) {
+    return
+  }
+  const { program } = parseDocument(contents, {
+    ...configuration.syntax,
+    ...getSyntaxFromLSCommands(contents),
+  })
+  const symbols = new Map<string, SymbolInfo[]>()
+  const imports: (ast.Include | ast.Import | ast.FromImport | ast.Extends)[] =
+    []
+  walk(program, (statement) => {
+    collectSymbols(statement, symbols, imports, [])
+  })
+  workspaceImports.set(
+    uri,
+    imports
+      .map((i) => i.source)
+      .filter((source) => source instanceof ast.StringLiteral)
+      .map((source) => source.value),
+  )
+  updateWorkspaceSymbols(
+    TextDocument.create(uri, "jinja", 0, contents),
+    symbols,
+  )
+}
+
+/**
+ * The folders whose templates are indexed.
+ */
+const getIndexedFolders = () => [
+  ...rootURIs,
+  ...(configuration.importPaths?.map((v) => URI.file(v)) ?? []),
+]
+
+const indexDirectory = async (
+  connection: lsp.Connection,
+  directory: URI,
+  visited: Set<string>,
+) => {
+  if (visited.has(directory.toString())) {
+    return
+  }
+  visited.add(directory.toString())
+
+  const promises: Promise<void>[] = []
+  for (const item of await listDirectories(connection, [
+    directory.toString(),
+  ])) {
+    if (item.startsWith(".") || item === "node_modules/") {
+      continue
+    }
+    const uri = Utils.joinPath(directory, item)
+    if (item.endsWith("/")) {
+      promises.push(indexDirectory(connection, uri, visited))
+    } else if (isTemplatePath(item)) {
+      promises.push(
+        indexTemplate(connection, uri.toString()).catch((e) => console.log(e)),
+      )
+    }
+  }
+  await Promise.all(promises)
+}
+
+/**
+ * Index the templates under the workspace folders and the import paths, once until the index is reset.
+ */
+export const indexWorkspace = (connection: lsp.Connection) => {
+  if (indexing === undefined) {
+    const visited = new Set<string>()
+    indexing = Promise.all(
+      getIndexedFolders().map((uri) =>
+        indexDirectory(connection, uri, visited),
+      ),
+    )
+      .then(() => undefined)
+      .catch((e) => console.log(e))
+  }
+  return indexing
+}
+
+/**
+ * Forget the indexed templates, e.g. after the import paths change, so that the next search indexes them again.
+ * Analyzed documents stay indexed.
+ */
+export const resetWorkspaceIndex = () => {
+  for (const uri of workspaceIndex.keys()) {
+    if (!documentSymbols.has(uri)) {
+      workspaceIndex.delete(uri)
+    }
+  }
+  workspaceImports.clear()
+  indexing = undefined
+}
+
+/**
+ * Whether a template is under one of the indexed folders, and not in a skipped directory.
+ */
+const isIndexed = (uri: string) =>
+  getIndexedFolders().some((folder) => {
+    const prefix = folder.toString().replace(/\/?$/, "/")
+    // Like when indexing directories, hidden files and directories and `node_modules` are skipped
+    return (
+      uri.startsWith(prefix) &&
+      uri
+        .slice(prefix.length)
+        .split("/")
+        .every((part) => !part.startsWith(".") && part !== "node_modules")
+    )
+  })
+
+/**
+ * Update the indexed templates after files are created, changed or deleted outside the editor.
+ */
+export const updateWorkspaceFiles = async (
+  connection: lsp.Connection,
+  changes: lsp.FileEvent[],
+) => {
+  if (indexing === undefined) {
+    // The templates are read once they're first indexed
+    return
+  }
+  await indexing
+  await Promise.all(
+    changes.map(async ({ uri, type }) => {
+      if (type === lsp.FileChangeType.Deleted) {
+        // Deleting a directory deletes the templates under it
+        for (const map of [workspaceIndex, workspaceImports]) {
+          for (const indexedUri of map.keys()) {
+            if (
+              (indexedUri === uri || indexedUri.startsWith(uri + "/")) &&
+              !documentSymbols.has(indexedUri)
+            ) {
+              map.delete(indexedUri)
+            }
+          }
+        }
+      } else if (isTemplatePath(uri) && isIndexed(uri)) {
+        await indexTemplate(connection, uri).catch((e) => console.log(e))
+      }
+    }),
+  )
+}
+
+/**
+ * The templates which include, import or extend a template, either analyzed or indexed.
+ */
+export const getImportingTemplates = (uri: string) => {
+  const result = new Set<string>()
+  for (const [importingUri, imports] of documentImports) {
+    if (imports.some(([, importedUri]) => importedUri === uri)) {
+      result.add(importingUri)
+    }
+  }
+  for (const [importingUri, sources] of workspaceImports) {
+    if (documentImports.has(importingUri)) {
+      continue
+    }
+    for (const source of sources) {
+      // Like findImport, the first base URI which has the template is used
+      const importedUri = getURIs(importingUri)
+        .map((baseURI) => Utils.joinPath(baseURI, source).toString())
+        .find(
+          (candidate) =>
+            workspaceIndex.has(candidate) || documents.has(candidate),
+        )
+      if (importedUri === uri) {
+        result.add(importingUri)
+      }
+    }
+  }
+  return [...result]
+}
+
+/**
+ * Whether the characters of a query appear in order in a name, ignoring case.
+ */
+const matchesQuery = (name: string, query: string) => {
+  name = name.toLowerCase()
+  let index = 0
+  for (const character of query.toLowerCase()) {
+    index = name.indexOf(character, index) + 1
+    if (index === 0) {
+      return false
+    }
+  }
+  return true
+}
+
+export const getWorkspaceSymbols = async (
+  connection: lsp.Connection,
+  query: string,
+) => {
+  await indexWorkspace(connection)
+  const result: lsp.SymbolInformation[] = []
+  for (const symbols of workspaceIndex.values()) {
+    result.push(...symbols.filter((symbol) => matchesQuery(symbol.name, query)))
+  }
+  return result
+}